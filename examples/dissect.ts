@@ -0,0 +1,35 @@
+import { parseArgs } from 'node:util';
+import { dissectCapture, DissectorProtocol, formatDissectedFrame } from "../src/index.js";
+import { readCaptureFile } from "../src/node.js";
+
+const { values: argv } = parseArgs({
+	options: {
+		capture: {
+			type: "string",
+		},
+		protocol: {
+			type: "string",
+			default: "bfc"
+		},
+		"no-bootstrap": {
+			type: "boolean",
+			default: false
+		},
+		help: {
+			type: "boolean",
+			short: "h",
+			default: false
+		},
+	}
+});
+
+if (argv.help || !argv.capture) {
+	console.log(`USAGE: dissect.js --capture session.pcapng --protocol bfc|dwd|chaos|ebl|bsl|at [--no-bootstrap]`);
+	process.exit(0);
+}
+
+const events = readCaptureFile(argv.capture);
+const frames = dissectCapture(events, argv.protocol as DissectorProtocol, { bootstrap: !argv["no-bootstrap"] });
+const startTime = events[0]?.time ?? 0;
+for (const frame of frames)
+	console.log(`[${((frame.time - startTime) / 1000).toFixed(6)}] ${formatDissectedFrame(frame)}`);
@@ -0,0 +1,18 @@
+import { SerialPort } from "serialport";
+import { listSerialPorts } from "../src/index.js";
+
+const ports = await listSerialPorts(SerialPort.binding);
+if (!ports.length) {
+	console.log(`No serial ports found.`);
+	process.exit(0);
+}
+
+for (const port of ports) {
+	const device = port.device;
+	if (device) {
+		const baudRate = device.maxBaudRate ? `max ${device.maxBaudRate} baud` : `native USB`;
+		console.log(`${port.path}: ${device.name} (${baudRate}), protocols: ${device.protocols.join(", ")}`);
+	} else {
+		console.log(`${port.path}: unknown device ${port.manufacturer ?? ""}`.trim());
+	}
+}
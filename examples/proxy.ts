@@ -0,0 +1,57 @@
+import { parseArgs } from 'node:util';
+import { DissectorProtocol, formatDissectedFrame, SerialProxy } from "../src/index.js";
+import { SerialRecorder } from "../src/node.js";
+import { openPort } from "./utils.js";
+
+const { values: argv } = parseArgs({
+	options: {
+		host: {
+			type: "string",
+		},
+		device: {
+			type: "string",
+			default: "/dev/ttyUSB0"
+		},
+		protocol: {
+			type: "string",
+		},
+		capture: {
+			type: "string",
+		},
+		help: {
+			type: "boolean",
+			short: "h",
+			default: false
+		},
+	}
+});
+
+if (argv.help || !argv.host) {
+	console.log(`USAGE: proxy.js --host /dev/pts/5 --device /dev/ttyUSB0 [--protocol bfc|dwd|chaos|ebl|bsl|at] [--capture session.pcapng]`);
+	process.exit(0);
+}
+
+const host = await openPort(argv.host, 115200);
+const device = await openPort(argv.device, 115200);
+await host.open();
+await device.open();
+
+const recorder = argv.capture ? new SerialRecorder(device, { path: argv.capture }) : undefined;
+recorder?.start();
+
+const proxy = new SerialProxy(host, device, {
+	protocol: argv.protocol as DissectorProtocol | undefined,
+	onFrame: (frame) => console.log(formatDissectedFrame(frame)),
+	onBaudRate: (baudRate) => console.log(`Baudrate: ${baudRate}`),
+	onSignals: (direction, signals) => console.log(`Signals (${direction}): DTR=${+signals.dtr} RTS=${+signals.rts}`),
+	onError: (e) => console.error(e.message),
+});
+await proxy.start();
+
+process.on("SIGINT", async () => {
+	await proxy.stop();
+	await recorder?.stop();
+	await host.close();
+	await device.close();
+	process.exit(0);
+});
@@ -0,0 +1,42 @@
+import { parseArgs } from 'node:util';
+import { SerialServer } from "../src/node.js";
+import { openPort } from "./utils.js";
+
+const { values: argv } = parseArgs({
+	options: {
+		port: {
+			type: "string",
+			default: "/dev/ttyUSB0"
+		},
+		listen: {
+			type: "string",
+			default: "rfc2217://0.0.0.0:2217"
+		},
+		help: {
+			type: "boolean",
+			short: "h",
+			default: false
+		},
+	}
+});
+
+if (argv.help) {
+	console.log(`USAGE: serve.js --port /dev/ttyUSB0 --listen rfc2217://0.0.0.0:2217|tcp://0.0.0.0:1234|unix:///tmp/phone.sock`);
+	process.exit(0);
+}
+
+const port = await openPort(argv.port, 115200);
+await port.open();
+
+const server = new SerialServer(port, argv.listen, {
+	onConnect: (address) => console.log(`Client connected: ${address}`),
+	onDisconnect: (address) => console.log(`Client disconnected: ${address}`),
+});
+await server.listen();
+console.log(`Listening on ${argv.listen}`);
+
+process.on("SIGINT", async () => {
+	await server.close();
+	await port.close();
+	process.exit(0);
+});
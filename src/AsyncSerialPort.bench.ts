@@ -0,0 +1,53 @@
+import { bench, describe } from 'vitest';
+import { createSerialPortPair } from './SerialPortPair.js';
+import { RingBuffer } from './RingBuffer.js';
+
+const PAGE_SIZE = 64 * 1024;
+const CHUNK_SIZE = 4096;
+
+const { host: port, device: phone } = createSerialPortPair({ baudRate: 3250000 });
+await port.open();
+await phone.open();
+
+const chunk = Buffer.alloc(CHUNK_SIZE, 0xAA);
+
+// Emulates the phone which sends the page in USB-sized chunks
+function emitPage() {
+	for (let offset = 0; offset < PAGE_SIZE; offset += CHUNK_SIZE)
+		void phone.write(chunk);
+}
+
+describe('AsyncSerialPort', () => {
+	bench('read() 64k page', async () => {
+		emitPage();
+		await port.read(PAGE_SIZE, 1000);
+	});
+
+	bench('readByte() x 1024', async () => {
+		void phone.write(Buffer.alloc(1024, 0x55));
+		for (let i = 0; i < 1024; i++)
+			await port.readByte(1000);
+	});
+});
+
+describe('RingBuffer', () => {
+	const ring = new RingBuffer();
+	const packet = Buffer.alloc(1030, 0x11);
+
+	bench('write 4k chunks, read 1030 byte packets', () => {
+		for (let i = 0; i < 64; i++) {
+			ring.write(chunk);
+			while (ring.length >= packet.length)
+				ring.read(packet.length);
+		}
+	});
+
+	bench('Buffer.concat backlog (old BFC parser)', () => {
+		let buffer = Buffer.alloc(0);
+		for (let i = 0; i < 64; i++) {
+			buffer = Buffer.concat([buffer, chunk]);
+			while (buffer.length >= packet.length)
+				buffer = buffer.subarray(packet.length);
+		}
+	});
+});
@@ -0,0 +1,333 @@
+import { describe, expect, test } from 'vitest';
+import { createSerialPortPair } from './SerialPortPair.js';
+import { AsyncSerialPort, SerialPortExpectError, SerialPortOwnershipError } from './AsyncSerialPort.js';
+import { AtChannel } from './AtChannel.js';
+import { BFC } from './BFC.js';
+import { SerialProxy } from './SerialProxy.js';
+
+describe('AsyncSerialPort ownership', () => {
+	test('should allow only one owner at a time', async () => {
+		const { host } = createSerialPortPair();
+		const atc1 = new AtChannel(host);
+		const atc2 = new AtChannel(host);
+
+		atc1.start();
+		atc1.start();
+		expect(host.owner).toBe(atc1);
+		expect(() => atc2.start()).toThrow(SerialPortOwnershipError);
+		expect(() => atc2.start()).toThrow(/already used by AtChannel/);
+
+		atc2.stop();
+		expect(host.owner).toBe(atc1);
+
+		atc1.stop();
+		expect(host.owner).toBeUndefined();
+		atc2.start();
+		expect(host.owner).toBe(atc2);
+		atc2.stop();
+	});
+
+	test('should not steal port from other protocols', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+
+		const atc = new AtChannel(host);
+		atc.start();
+		await expect(new BFC(host).probe()).rejects.toThrow(SerialPortOwnershipError);
+		expect(host.owner).toBe(atc);
+
+		const proxy = new SerialProxy(device, host);
+		await expect(proxy.start()).rejects.toThrow(SerialPortOwnershipError);
+		expect(device.owner).toBeUndefined();
+		atc.stop();
+
+		await host.close();
+		await device.close();
+	});
+});
+
+describe('AsyncSerialPort pattern reads', () => {
+	test('should read until delimiter and keep the rest', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+
+		await device.write(Buffer.from("\r\nOK\r\n\r\n+CREG: 1\r\n"));
+		expect((await host.readUntil("OK\r\n", { timeout: 100 }))?.toString()).toBe("\r\nOK\r\n");
+		expect((await host.readUntil(0x0A, { timeout: 100 }))?.toString()).toBe("\r\n");
+		expect(await host.expect(/\+CREG: (\d)\r\n/, { timeout: 100 })).toMatchObject({
+			data: Buffer.from("+CREG: 1\r\n"),
+			match: expect.arrayContaining(["1"]),
+		});
+
+		await host.close();
+		await device.close();
+	});
+
+	test('should leave data unread on timeout', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+
+		await device.write(Buffer.from([0x01, 0x02]));
+		expect(await host.readUntil(0xB0, { timeout: 30 })).toBeUndefined();
+		await expect(host.expect(0xB0, { timeout: 30 })).rejects.toThrow(/Timeout while waiting for 0xB0/);
+		await expect(host.readUntil(0xB0, { maxBytes: 2 })).rejects.toThrow(SerialPortExpectError);
+
+		setTimeout(() => device.write(Buffer.from([0xB0, 0x03])), 10);
+		expect(await host.readUntil((data) => data.indexOf(0xB0) + 1 || -1, { timeout: 100 })).toEqual(Buffer.from([0x01, 0x02, 0xB0]));
+		expect(await host.read(1, 100)).toEqual(Buffer.from([0x03]));
+
+		await host.close();
+		await device.close();
+	});
+
+	test('should iterate over chunks', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+
+		setTimeout(async () => {
+			await device.write(Buffer.from("AB"));
+			setTimeout(() => device.write(Buffer.from("C")), 10);
+		}, 10);
+
+		const controller = new AbortController();
+		let received = "";
+		for await (const chunk of host.chunks({ signal: controller.signal, timeout: 200 })) {
+			received += chunk.toString();
+			if (received == "ABC")
+				controller.abort();
+		}
+		expect(received).toBe("ABC");
+
+		await host.close();
+		await device.close();
+	});
+});
+
+describe('AsyncSerialPort buffers', () => {
+	test('should flush input and discard noise', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+
+		await device.write(Buffer.from("garbage"));
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		await host.flushInput();
+		expect(await host.read(1, 20)).toBeUndefined();
+
+		const timer = setInterval(() => device.write(Buffer.from([0x00, 0xFF])), 5);
+		setTimeout(() => clearInterval(timer), 40);
+		expect(await host.discard(30)).toBeGreaterThan(0);
+		expect(await host.read(1, 20)).toBeUndefined();
+
+		await host.write(Buffer.from("AT"));
+		await host.drain();
+		expect(await device.read(2, 100)).toEqual(Buffer.from("AT"));
+
+		await host.close();
+		await device.close();
+	});
+});
+
+describe('AsyncSerialPort write coalescing', () => {
+	test('should batch small writes', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+
+		const chunks: string[] = [];
+		device.on('data', (data: Buffer) => chunks.push(data.toString()));
+		const writes: number[] = [];
+		host.on('write', ({ batchSize }) => writes.push(batchSize));
+
+		host.setWriteCoalescing({ window: 5, maxBytes: 8 });
+		await Promise.all([host.write("AB"), host.write("CD")]);
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		expect(chunks).toEqual(["ABCD"]);
+
+		// Big writes go after the pending data
+		chunks.length = 0;
+		await Promise.all([host.write("12"), host.write("345678")]);
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		expect(chunks).toEqual(["12345678"]);
+		expect(writes).toEqual([2, 2, 2, 2]);
+
+		host.setWriteCoalescing(false);
+		await host.close();
+		await device.close();
+	});
+});
+
+describe('AsyncSerialPort control lines', () => {
+	test('should keep other signals when changing one', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+
+		await host.setSignals({ rts: false });
+		await host.setSignals({ dtr: false });
+		expect(host.getOutputSignals()).toEqual({ dtr: false, rts: false, brk: false });
+		expect(await device.getSignals()).toMatchObject({ dsr: false, cts: false });
+
+		await host.sendBreak(5);
+		expect(host.getOutputSignals()).toEqual({ dtr: false, rts: false, brk: false });
+
+		await host.close();
+		await device.close();
+	});
+
+	test('should report signal changes', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+
+		const changes: unknown[] = [];
+		const unwatch = host.watchSignals((signals, changed) => changes.push({ signals, changed }), { interval: 5 });
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		await device.setSignals({ rts: false });
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		unwatch();
+
+		expect(changes).toEqual([{ signals: { cts: false, dsr: true, dcd: true }, changed: ["cts"] }]);
+
+		await host.close();
+		await device.close();
+	});
+
+	test('should reopen port for line settings', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+		await host.setSignals({ dtr: false });
+
+		await host.configure({ baudRate: 921600 });
+		expect(host.baudRate).toBe(921600);
+		await host.configure({ parity: "even", stopBits: 2 });
+		expect(host.isOpen).toBe(true);
+		expect(host.getParentPort().settings).toMatchObject({ baudRate: 921600, parity: "even", stopBits: 2 });
+		expect(await device.getSignals()).toMatchObject({ dsr: false });
+
+		await host.write(Buffer.from("AT"));
+		expect(await device.read(2, 100)).toEqual(Buffer.from("AT"));
+
+		await host.close();
+		await device.close();
+	});
+
+	test('should not reopen port for default line settings', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+		const events: string[] = [];
+		host.on('reconfigure', () => events.push("reconfigure"));
+		host.on('close', () => events.push("close"));
+
+		// DTR toggling resets phones with the DTR ignition
+		await host.configure({ dataBits: 8, parity: "none", stopBits: 1, rtscts: false, xon: false, xoff: false });
+		expect(events).toEqual([]);
+		expect(host.getParentPort().settings.parity).toBeUndefined();
+
+		await host.close();
+		await device.close();
+	});
+
+	test('should keep the protocol session when reopening for line settings', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+		device.on('data', () => void device.write(Buffer.from("\r\nOK\r\n")));
+
+		const atc = new AtChannel(host);
+		atc.start();
+		const events: string[] = [];
+		host.on('close', () => events.push("close"));
+		host.on('open', () => events.push("open"));
+		host.on('reconfigure', () => events.push("reconfigure"));
+		atc.on('linkLost', () => events.push("linkLost"));
+		atc.on('disconnected', () => events.push("disconnected"));
+
+		await host.configure({ parity: "even" });
+		expect(events).toEqual(["reconfigure"]);
+		expect(host.owner).toBe(atc);
+		expect(await atc.sendCommandNoResponse("AT", 100)).toMatchObject({ success: true });
+
+		atc.stop();
+		await host.close();
+		await device.close();
+		expect(events).toEqual(["reconfigure", "disconnected", "close"]);
+	});
+});
+
+describe('AsyncSerialPort echo cancellation', () => {
+	// One-wire cable: everything sent by the host is received back before the response
+	function emulateEchoCable(device: AsyncSerialPort, echo: boolean) {
+		device.on('data', async (data: Buffer) => {
+			if (echo)
+				await device.write(data);
+			if (data.toString() == "AT")
+				await device.write(Buffer.from([0xB0]));
+			else if (data[0] == 0x01)
+				await device.write(Buffer.from([0x01, 0x05, 0x03]));
+		});
+	}
+
+	test('should detect and strip echo', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+		emulateEchoCable(device, true);
+		host.setEchoCancellation("auto");
+
+		await host.write("AT");
+		expect(await host.readByte(100)).toBe(0xB0);
+		expect(host.isEchoCancellationActive).toBe(true);
+
+		await host.write(Buffer.from([0x01, 0x02]));
+		expect(await host.read(3, 100)).toEqual(Buffer.from([0x01, 0x05, 0x03]));
+		expect(await host.read(1, 20)).toBeUndefined();
+
+		await host.close();
+		await device.close();
+	});
+
+	test('should not strip responses without echo', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+		emulateEchoCable(device, false);
+		host.setEchoCancellation("auto");
+
+		// Response starts with the same byte as the request
+		await host.write(Buffer.from([0x01, 0x02]));
+		expect(await host.read(3, 100)).toEqual(Buffer.from([0x01, 0x05, 0x03]));
+		expect(host.isEchoCancellationActive).toBe(false);
+
+		await host.write("AT");
+		expect(await host.readByte(100)).toBe(0xB0);
+
+		await host.close();
+		await device.close();
+	});
+});
+
+describe('AsyncSerialPort events', () => {
+	test('should emit port events', async () => {
+		const { host, device } = createSerialPortPair();
+		const events: unknown[] = [];
+		host.on('open', () => events.push("open"));
+		host.on('close', () => events.push("close"));
+		host.on('baudRateChanged', (baudRate) => events.push(baudRate));
+
+		await host.open();
+		await device.open();
+		await host.update({ baudRate: 921600 });
+		await host.update({ baudRate: 921600 });
+		await host.close();
+		await device.close();
+
+		expect(events).toEqual(["open", 921600, "close"]);
+	});
+});
@@ -1,61 +1,471 @@
-import { SerialPortStream } from "@serialport/stream";
+import { EventEmitter } from "node:events";
+import createDebug from "debug";
+import type { SerialPortStream } from "@serialport/stream";
 import { BindingInterface, SetOptions } from "@serialport/bindings-interface";
+import { RingBuffer } from "./RingBuffer.js";
+import type { PortLock, PortLockOptions } from "./portLock.js";
+import { isSerialTransport, SerialPortStreamTransport, SerialTransport } from "./SerialTransport.js";
 
-type PortSignals = {
+export type SerialInputSignals = {
 	cts: boolean
 	dsr: boolean
 	dcd: boolean
-} | undefined;
+};
+
+type PortSignals = SerialInputSignals | undefined;
+
+export type SerialInputSignal = "cts" | "dsr" | "dcd";
+
+export type SerialOutputSignals = {
+	dtr: boolean;
+	rts: boolean;
+	brk: boolean;
+};
+
+export type SerialSignalsListener = (signals: NonNullable<PortSignals>, changed: SerialInputSignal[]) => void;
+
+// Binding ports which report CTS/DSR/DCD changes without polling (e.g. RFC 2217)
+export interface SignalsNotifyingBindingPort {
+	watchSignals(listener: (signals: NonNullable<PortSignals>) => void): () => void;
+}
+
+export type WatchSignalsOptions = {
+	// Polling interval for bindings without notifications
+	interval?: number;
+};
+
+export type SerialLineSettings = {
+	baudRate?: number;
+	dataBits?: 5 | 6 | 7 | 8;
+	parity?: "none" | "even" | "odd" | "mark" | "space";
+	stopBits?: 1 | 1.5 | 2;
+	rtscts?: boolean;
+	xon?: boolean;
+	xoff?: boolean;
+};
+
+const debug = createDebug("serial");
+
+// true - strip TX bytes echoed by the cable, "auto" - detect the echo on the first exchange after opening
+export type EchoCancellationMode = boolean | "auto";
+
+// Extra time for the echo after the bytes are transmitted
+const ECHO_TIMEOUT = 50;
+
+const DEFAULT_OUTPUT_SIGNALS: SerialOutputSignals = { dtr: true, rts: true, brk: false };
+
+// Used by the bindings when the setting is not specified
+const DEFAULT_LINE_SETTINGS: Required<Omit<SerialLineSettings, "baudRate">> = {
+	dataBits: 8,
+	parity: "none",
+	stopBits: 1,
+	rtscts: false,
+	xon: false,
+	xoff: false,
+};
+const LINE_SETTINGS_KEYS = ["dataBits", "parity", "stopBits", "rtscts", "xon", "xoff"] as const;
+
+// The stream is paused when nobody reads received data
+const RX_BUFFER_HIGH_WATER_MARK = 4 * 1024 * 1024;
+
+type ReadWaiter = {
+	// Tries to complete the read using received data, returns true when the waiter is done
+	poll: () => boolean;
+	// Port is closed, timeout or error
+	cancel: (err?: unknown) => void;
+};
+
+export type AsyncSerialPortOptions = {
+	// Create UUCP lock file (/var/lock/LCK..ttyUSB0) while the port is open
+	lock?: boolean | PortLockOptions;
+};
+
+export type AsyncSerialPortEvents = {
+	open: [];
+	// error is set when the port is closed by the disconnect
+	close: [error?: Error];
+	error: [error: Error];
+	data: [data: Buffer];
+	baudRateChanged: [baudRate: number];
+	// Emitted for every write() when the data is passed to the OS
+	write: [info: SerialWriteInfo];
+	// Port was reopened by configure(), there are no close/open events for it
+	reconfigure: [];
+};
+
+// Same shape as the listener of EventEmitter<AsyncSerialPortEvents>, so it can be passed to the emitter as is
+export type AsyncSerialPortListener<K> = K extends keyof AsyncSerialPortEvents ? (
+	AsyncSerialPortEvents[K] extends unknown[] ? (...args: AsyncSerialPortEvents[K]) => void : never
+) : never;
+
+export type WriteCoalescingOptions = {
+	// Batching window in ms, starts at the first pending write
+	window?: number;
+	// Writes of this size or bigger are sent immediately, the batch is sent when it reaches this size
+	maxBytes?: number;
+};
+
+export type SerialWriteInfo = {
+	size: number;
+	// Time from write() to the completion in ms, includes the batching window
+	latency: number;
+	// Number of writes sent in the same batch
+	batchSize: number;
+};
+
+export type SerialPortStats = {
+	// Bytes passed to the OS since the object was created
+	txBytes: number;
+	// Received bytes without the cable echo
+	rxBytes: number;
+};
+
+type PendingWrite = {
+	data: Buffer;
+	time: number;
+	resolve: () => void;
+	reject: (err: unknown) => void;
+};
+
+export type SerialPortPattern = Buffer | string | number | RegExp;
+
+// Returns the length of the complete message in the received data or -1 when more data is needed
+export type SerialPortMatcher = SerialPortPattern | ((data: Buffer) => number);
+
+export type ReadUntilOptions = {
+	timeout?: number;
+	// Fail when the pattern is not found in the first N bytes
+	maxBytes?: number;
+	signal?: AbortSignal;
+};
+
+export type ExpectResult = {
+	data: Buffer;
+	match?: RegExpExecArray;
+};
+
+export class SerialPortOwnershipError extends Error { }
+
+export class SerialPortExpectError extends Error { }
+
+function formatPattern(pattern: SerialPortPattern): string {
+	if (typeof pattern == "number")
+		return `0x${pattern.toString(16).padStart(2, "0").toUpperCase()}`;
+	if (Buffer.isBuffer(pattern))
+		return pattern.toString("hex").toUpperCase();
+	return pattern instanceof RegExp ? pattern.toString() : JSON.stringify(pattern);
+}
+
+function createMatcher(matcher: SerialPortMatcher): (data: Buffer) => number {
+	if (typeof matcher == "function")
+		return matcher;
+	if (matcher instanceof RegExp) {
+		return (data) => {
+			const match = new RegExp(matcher.source, matcher.flags.replace("g", "")).exec(data.toString("latin1"));
+			return match ? match.index + match[0].length : -1;
+		};
+	}
+	const delimiter = typeof matcher == "number" ? Buffer.from([matcher]) : (typeof matcher == "string" ? Buffer.from(matcher, "latin1") : matcher);
+	return (data) => {
+		const index = data.indexOf(delimiter);
+		return index >= 0 ? index + delimiter.length : -1;
+	};
+}
 
 export class AsyncSerialPort<T extends BindingInterface = BindingInterface> {
-	private readonly port: SerialPortStream<T>;
+	private readonly transport: SerialTransport;
+	private currentOwner?: object;
+	private outputSignals = { ...DEFAULT_OUTPUT_SIGNALS };
+	private readonly rxBuffer = new RingBuffer();
+	private readonly events = new EventEmitter<AsyncSerialPortEvents>();
+	private readonly lockOptions?: PortLockOptions;
+	private lock?: PortLock;
+	private lockRelease?: Promise<void>;
+	private readonly waiters: ReadWaiter[] = [];
+	private echoMode: EchoCancellationMode = false;
+	private echoDetected?: boolean;
+	private readonly txEcho = new RingBuffer(1024);
+	private txEchoDeadline = 0;
+	private heldEcho = Buffer.alloc(0);
+	private heldEchoTimer?: NodeJS.Timeout;
+	private writeCoalescing?: Required<WriteCoalescingOptions>;
+	private pendingWrites: PendingWrite[] = [];
+	private pendingWritesSize = 0;
+	private pendingWritesTimer?: NodeJS.Timeout;
+	private txBytes = 0;
+	private rxBytes = 0;
+	private reopening = false;
 
-	constructor(port: SerialPortStream<T>) {
-		this.port = port;
+	/**
+	 * Received data goes to the 'data' listeners when they exist (AtChannel, BFC),
+	 * otherwise it's buffered for read() and other pull-style methods (BSL, DWD, Chaos, EBL).
+	 * Accepts node-serialport streams or any SerialTransport (Web Serial, Node duplex streams).
+	 * */
+	constructor(port: SerialPortStream<T> | SerialTransport, options: AsyncSerialPortOptions = {}) {
+		this.transport = isSerialTransport(port) ? port : new SerialPortStreamTransport(port);
+		if (options.lock)
+			this.lockOptions = options.lock === true ? {} : options.lock;
+		this.transport.on("data", (data: Buffer) => this.handleData(this.filterEcho(data)));
+		this.transport.on("open", () => {
+			if (!this.reopening)
+				this.events.emit("open");
+		});
+		this.transport.on("close", (err?: Error) => {
+			if (!this.reopening)
+				this.handleTransportClose(err);
+		});
+		this.transport.on("end", () => {
+			if (!this.reopening)
+				this.cancelWaiters();
+		});
+		this.transport.on("error", (err: Error) => {
+			this.cancelWaiters(err);
+			// Unhandled 'error' throws
+			if (this.events.listenerCount("error") > 0)
+				this.events.emit("error", err);
+		});
+	}
+
+	private handleTransportClose(err?: Error) {
+		this.cancelWaiters();
+		this.cancelPendingWrites();
+		void this.releaseLock();
+		this.events.emit("close", err ?? undefined);
+	}
+
+	on<K extends keyof AsyncSerialPortEvents>(event: K, listener: AsyncSerialPortListener<K>): this {
+		this.events.on(event, listener);
+		if (event == "data") {
+			// Deliver data which was received before the listener was added
+			if (this.rxBuffer.length > 0)
+				process.nextTick(() => this.handleData(Buffer.alloc(0)));
+			if (this.transport.isPaused())
+				this.transport.resume();
+		}
+		return this;
 	}
 
-	on(event: string | symbol, listener: (...args: any[]) => void) {
-		return this.port.on(event, listener);
+	once<K extends keyof AsyncSerialPortEvents>(event: K, listener: AsyncSerialPortListener<K>): this {
+		if (event == "data")
+			throw new Error(`Use read() for receiving data once.`);
+		this.events.once(event, listener);
+		return this;
 	}
 
-	off(event: string | symbol, listener: (...args: any[]) => void) {
-		return this.port.off(event, listener);
+	off<K extends keyof AsyncSerialPortEvents>(event: K, listener: AsyncSerialPortListener<K>): this {
+		this.events.off(event, listener);
+		return this;
+	}
+
+	private handleData(data: Buffer): void {
+		this.rxBytes += data.length;
+		if (this.events.listenerCount("data") > 0) {
+			if (this.rxBuffer.length > 0)
+				data = Buffer.concat([this.rxBuffer.read(), data]);
+			if (data.length == 0)
+				return;
+			this.events.emit("data", data);
+			return;
+		}
+
+		this.rxBuffer.write(data);
+		this.processWaiters();
+		if (this.rxBuffer.length >= RX_BUFFER_HIGH_WATER_MARK)
+			this.transport.pause();
+	}
+
+	/**
+	 * Enables stripping of TX bytes which are looped back by one-wire (K-line style) cables.
+	 * In the "auto" mode the echo is detected when the whole written data is received back before anything else,
+	 * so a response which repeats the full request is mistaken for the echo.
+	 * */
+	setEchoCancellation(mode: EchoCancellationMode): void {
+		this.echoMode = mode;
+		this.handleData(this.resetEcho());
+	}
+
+	getStats(): SerialPortStats {
+		return { txBytes: this.txBytes, rxBytes: this.rxBytes };
+	}
+
+	get isEchoCancellationActive(): boolean {
+		return this.echoMode === true || (this.echoMode == "auto" && this.echoDetected === true);
+	}
+
+	// Returns data which was held during the echo detection
+	private resetEcho(): Buffer {
+		this.echoDetected = undefined;
+		this.txEcho.clear();
+		return this.releaseHeldEcho();
+	}
+
+	private recordEcho(data: Buffer): void {
+		if (this.echoMode === false || this.echoDetected === false)
+			return;
+		if (Date.now() > this.txEchoDeadline)
+			this.txEcho.clear();
+		this.txEcho.write(data);
+		const txTime = Math.ceil(this.txEcho.length * 10 * 1000 / this.baudRate);
+		this.txEchoDeadline = Date.now() + txTime + ECHO_TIMEOUT;
+	}
+
+	private filterEcho(data: Buffer): Buffer {
+		if (this.echoMode === false || this.txEcho.length == 0 || data.length == 0)
+			return data;
+
+		if (Date.now() > this.txEchoDeadline) {
+			this.txEcho.clear();
+			return this.releaseHeldEcho(data);
+		}
+
+		const offset = this.heldEcho.length;
+		let matched = 0;
+		while (matched < data.length && offset + matched < this.txEcho.length && data[matched] == this.txEcho.at(offset + matched))
+			matched++;
+
+		if (this.echoDetected) {
+			this.txEcho.skip(matched);
+			// Echo is lost, don't strip the response
+			if (matched < data.length)
+				this.txEcho.clear();
+			return data.subarray(matched);
+		}
+
+		// Auto-detection: the whole written data must be looped back
+		if (offset + matched == this.txEcho.length) {
+			debug(`Echo detected, enabling echo cancellation.`);
+			this.echoDetected = true;
+			this.txEcho.clear();
+			this.heldEcho = Buffer.alloc(0);
+			clearTimeout(this.heldEchoTimer);
+			return data.subarray(matched);
+		}
+
+		if (matched < data.length) {
+			debug(`No echo, disabling echo cancellation.`);
+			this.echoDetected = false;
+			this.txEcho.clear();
+			return this.releaseHeldEcho(data);
+		}
+
+		// Not enough data for the decision yet
+		this.heldEcho = Buffer.concat([this.heldEcho, data]);
+		clearTimeout(this.heldEchoTimer);
+		this.heldEchoTimer = setTimeout(() => {
+			this.echoDetected = false;
+			this.txEcho.clear();
+			this.handleData(this.releaseHeldEcho());
+		}, this.txEchoDeadline - Date.now());
+		return Buffer.alloc(0);
+	}
+
+	private releaseHeldEcho(data: Buffer = Buffer.alloc(0)): Buffer {
+		clearTimeout(this.heldEchoTimer);
+		this.heldEchoTimer = undefined;
+		if (this.heldEcho.length == 0)
+			return data;
+		const result = Buffer.concat([this.heldEcho, data]);
+		this.heldEcho = Buffer.alloc(0);
+		return result;
+	}
+
+	private processWaiters(): void {
+		while (this.waiters.length > 0 && this.waiters[0].poll())
+			this.waiters.shift();
+		if (this.transport.isPaused() && this.rxBuffer.length < RX_BUFFER_HIGH_WATER_MARK / 2)
+			this.transport.resume();
+	}
+
+	private removeWaiter(waiter: ReadWaiter): boolean {
+		const index = this.waiters.indexOf(waiter);
+		if (index < 0)
+			return false;
+		this.waiters.splice(index, 1);
+		return true;
+	}
+
+	private cancelWaiters(err?: unknown): void {
+		for (const waiter of this.waiters.splice(0))
+			waiter.cancel(err);
 	}
 
 	get isOpen(): boolean {
-		return this.port.isOpen;
+		return this.transport.isOpen;
 	}
 
 	get baudRate(): number {
-		return this.port.baudRate;
+		return this.transport.settings.baudRate;
+	}
+
+	get path(): string {
+		return this.transport.settings.path;
+	}
+
+	// Used for reopening the same device after USB re-enumeration
+	setPath(path: string): void {
+		if (this.transport.isOpen)
+			throw new Error("Port is open");
+		this.transport.settings.path = path;
+	}
+
+	get owner(): object | undefined {
+		return this.currentOwner;
+	}
+
+	/**
+	 * Takes exclusive ownership of the port for a protocol handler.
+	 * Only one protocol can consume incoming data at a time, the current owner must release() the port before handover.
+	 * */
+	acquire(owner: object): void {
+		if (this.currentOwner && this.currentOwner !== owner)
+			throw new SerialPortOwnershipError(`Port is already used by ${this.currentOwner.constructor.name}, can't use it from ${owner.constructor.name}.`);
+		this.currentOwner = owner;
+	}
+
+	release(owner: object): void {
+		if (this.currentOwner === owner)
+			this.currentOwner = undefined;
 	}
 
 	async open(): Promise<void> {
-		if (this.port.isOpen)
+		if (this.transport.isOpen)
 			return;
-		return new Promise((resolve, reject) => {
-			this.port.open((err) => {
-				if (err) {
-					reject(err);
-				} else {
-					resolve();
-				}
-			});
-		});
+		if (this.lockOptions && !this.lock) {
+			await this.lockRelease;
+			// Loaded on demand, it uses node:fs which is not available with Web Serial
+			const { acquirePortLock } = await import("./portLock.js");
+			this.lock = await acquirePortLock(this.path, this.lockOptions);
+		}
+		try {
+			await this.transport.open();
+		} catch (err) {
+			void this.releaseLock();
+			throw err;
+		}
+		// DTR and RTS are asserted by the OS after opening
+		this.outputSignals = { ...DEFAULT_OUTPUT_SIGNALS };
+		this.rxBuffer.clear();
+		this.resetEcho();
 	}
 
 	async close(): Promise<void> {
-		if (!this.port.isOpen)
+		if (!this.transport.isOpen)
 			return;
-		return new Promise((resolve, reject) => {
-			this.port.close((err) => {
-				if (err) {
-					reject(err);
-				} else {
-					resolve();
-				}
+		this.flushWrites();
+		await this.transport.close();
+		await this.releaseLock();
+	}
+
+	// Called from close() and from the 'close' event, both must wait for the same unlink
+	private releaseLock(): Promise<void> {
+		const lock = this.lock;
+		if (lock) {
+			this.lock = undefined;
+			this.lockRelease = lock.release().catch((e) => {
+				debug(`Can't remove lock file: ${e instanceof Error ? e.message : e}`);
 			});
-		});
+		}
+		return this.lockRelease ?? Promise.resolve();
 	}
 
 	async readByte(timeout = 0): Promise<number> {
@@ -64,133 +474,446 @@ export class AsyncSerialPort<T extends BindingInterface = BindingInterface> {
 	}
 
 	async read(size: number, timeout?: number): Promise<Buffer | undefined> {
-		if (!this.port.isOpen)
+		if (!this.transport.isOpen)
 			throw new Error("Port is not open");
 
-		if (this.port.readableLength >= size)
-			return this.port.read(size);
+		if (this.waiters.length == 0 && this.rxBuffer.length >= size) {
+			const data = this.rxBuffer.read(size);
+			this.processWaiters();
+			return data;
+		}
 
 		return new Promise((resolve, reject) => {
-			let result: Buffer | undefined;
-			let bytesRead = 0;
 			let timeoutTimer: NodeJS.Timeout | undefined;
 
-			const removeListeners = () => {
-				this.port.removeListener("close", onClose);
-				this.port.removeListener("end", onEnd);
-				this.port.removeListener("error", onError);
-				this.port.removeListener("readable", onReadable);
-
-				if (timeoutTimer) {
+			const waiter: ReadWaiter = {
+				poll: () => {
+					if (this.rxBuffer.length < size)
+						return false;
 					clearTimeout(timeoutTimer);
-					timeoutTimer = undefined;
-				}
-			};
-			const onTimeout = () => {
-				removeListeners();
-				resolve(result?.subarray(0, bytesRead));
+					resolve(this.rxBuffer.read(size));
+					return true;
+				},
+				cancel: (err) => {
+					clearTimeout(timeoutTimer);
+					if (err) {
+						reject(err);
+					} else {
+						// Partial data
+						resolve(this.rxBuffer.length > 0 ? this.rxBuffer.read(size) : undefined);
+					}
+				},
 			};
-			const onClose = () => {
-				removeListeners();
-				resolve(result?.subarray(0, bytesRead));
+
+			if (timeout) {
+				timeoutTimer = setTimeout(() => {
+					const isFirst = this.waiters[0] === waiter;
+					this.removeWaiter(waiter);
+					if (isFirst) {
+						waiter.cancel();
+						this.processWaiters();
+					} else {
+						resolve(undefined);
+					}
+				}, timeout);
+			}
+
+			this.waiters.push(waiter);
+			this.processWaiters();
+		});
+	}
+
+	/**
+	 * Reads data until the matcher is found, returns the data including the match.
+	 * On timeout or close returns undefined, received bytes are left in the input buffer.
+	 * */
+	async readUntil(matcher: SerialPortMatcher, options: ReadUntilOptions = {}): Promise<Buffer | undefined> {
+		if (!this.transport.isOpen)
+			throw new Error("Port is not open");
+		if (options.signal?.aborted)
+			throw options.signal.reason;
+
+		const findMessageEnd = createMatcher(matcher);
+
+		return new Promise((resolve, reject) => {
+			let timeoutTimer: NodeJS.Timeout | undefined;
+
+			const cleanup = () => {
+				clearTimeout(timeoutTimer);
+				options.signal?.removeEventListener("abort", onAbort);
 			};
-			const onEnd = () => {
-				removeListeners();
-				resolve(result?.subarray(0, bytesRead));
+			const waiter: ReadWaiter = {
+				poll: () => {
+					if (this.rxBuffer.length == 0)
+						return false;
+					const messageEnd = findMessageEnd(this.rxBuffer.peek());
+					if (messageEnd >= 0) {
+						cleanup();
+						resolve(this.rxBuffer.read(messageEnd));
+						return true;
+					}
+					if (options.maxBytes && this.rxBuffer.length >= options.maxBytes) {
+						cleanup();
+						reject(new SerialPortExpectError(`Pattern not found in ${this.rxBuffer.length} bytes.`));
+						return true;
+					}
+					return false;
+				},
+				cancel: (err) => {
+					cleanup();
+					if (err) {
+						reject(err);
+					} else {
+						resolve(undefined);
+					}
+				},
 			};
-			const onError = (err: Error) => {
-				removeListeners();
-				reject(err);
+			const cancelWaiter = (err?: unknown) => {
+				if (this.removeWaiter(waiter)) {
+					waiter.cancel(err);
+					this.processWaiters();
+				}
 			};
-			const onReadable = () => {
-				const bytesToRead = Math.min(size - bytesRead, this.port.readableLength);
-				if (bytesToRead == 0)
-					return;
+			const onAbort = () => cancelWaiter(options.signal!.reason);
 
-				const chunk = this.port.read(bytesToRead);
-				if (!result)
-					result = Buffer.alloc(size);
-				chunk.copy(result, bytesRead);
-				bytesRead += chunk.length
+			options.signal?.addEventListener("abort", onAbort);
+			if (options.timeout)
+				timeoutTimer = setTimeout(() => cancelWaiter(), options.timeout);
 
-				if (bytesRead == size) {
-					removeListeners();
-					resolve(result?.subarray(0, bytesRead));
-				}
-			};
+			this.waiters.push(waiter);
+			this.processWaiters();
+		});
+	}
 
-			if (this.port.readableLength > 0)
-				onReadable();
-			if (bytesRead == size)
-				return;
+	/**
+	 * Waits for the pattern, throws SerialPortExpectError on timeout.
+	 * */
+	async expect(pattern: SerialPortPattern, options: ReadUntilOptions = {}): Promise<ExpectResult> {
+		const data = await this.readUntil(pattern, options);
+		if (!data)
+			throw new SerialPortExpectError(`Timeout while waiting for ${formatPattern(pattern)}.`);
+		if (pattern instanceof RegExp) {
+			const match = new RegExp(pattern.source, pattern.flags.replace("g", "")).exec(data.toString("latin1"));
+			return { data, match: match ?? undefined };
+		}
+		return { data };
+	}
 
-			this.port.on("close", onClose);
-			this.port.on("end", onEnd);
-			this.port.on("error", onError);
-			this.port.on("readable", onReadable);
+	/**
+	 * Yields received chunks until the port is closed, idle timeout is reached or the signal is aborted.
+	 * for await (const chunk of port.chunks({ timeout: 1000 })) { ... }
+	 * */
+	async *chunks(options: Omit<ReadUntilOptions, "maxBytes"> = {}): AsyncGenerator<Buffer> {
+		while (this.transport.isOpen && !options.signal?.aborted) {
+			let chunk: Buffer | undefined;
+			try {
+				chunk = await this.readUntil((data) => data.length > 0 ? data.length : -1, options);
+			} catch (e) {
+				if (options.signal?.aborted)
+					return;
+				throw e;
+			}
+			if (!chunk)
+				return;
+			yield chunk;
+		}
+	}
 
-			if (timeout)
-				timeoutTimer = setTimeout(onTimeout, timeout);
-		});
+	[Symbol.asyncIterator](): AsyncGenerator<Buffer> {
+		return this.chunks();
 	}
 
 	async write(data: any): Promise<void> {
+		if (!this.transport.isOpen)
+			throw new Error("Port is not open");
+		const buffer: Buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
 		return new Promise((resolve, reject) => {
-			if (!this.port.isOpen)
-				throw new Error("Port is not open");
-			this.port.write(data, (err) => {
-				if (err) {
-					reject(err);
-				} else {
-					resolve();
-				}
-			});
+			const pending = { data: buffer, time: performance.now(), resolve, reject };
+			if (!this.writeCoalescing || buffer.length >= this.writeCoalescing.maxBytes) {
+				// Keep the order of writes
+				this.flushWrites();
+				this.writeBatch([pending]);
+				return;
+			}
+
+			this.pendingWrites.push(pending);
+			this.pendingWritesSize += buffer.length;
+			if (this.pendingWritesSize >= this.writeCoalescing.maxBytes) {
+				this.flushWrites();
+			} else if (!this.pendingWritesTimer) {
+				this.pendingWritesTimer = setTimeout(() => this.flushWrites(), this.writeCoalescing.window);
+			}
 		});
 	}
 
-	async getSignals(): Promise<PortSignals> {
-		return new Promise((resolve, reject) => {
-			if (!this.port.isOpen)
-				reject(new Error("Port is not open"));
-			this.port.get((err, signals) => {
-				if (err) {
-					reject(err);
-				} else {
-					resolve(signals);
-				}
-			});
+	/**
+	 * Batches small writes within a short window into one write, this reduces USB packet overhead on CDC-ACM phones.
+	 * write() resolves when the whole batch is written, so awaiting each write disables batching.
+	 * */
+	setWriteCoalescing(options: WriteCoalescingOptions | false): void {
+		this.writeCoalescing = options ? { window: 2, maxBytes: 64, ...options } : undefined;
+		if (!this.writeCoalescing)
+			this.flushWrites();
+	}
+
+	// Sends pending coalesced writes immediately
+	flushWrites(): void {
+		clearTimeout(this.pendingWritesTimer);
+		this.pendingWritesTimer = undefined;
+		if (this.pendingWrites.length == 0)
+			return;
+		const batch = this.pendingWrites;
+		this.pendingWrites = [];
+		this.pendingWritesSize = 0;
+		this.writeBatch(batch);
+	}
+
+	private writeBatch(batch: PendingWrite[]): void {
+		if (!this.transport.isOpen) {
+			for (const pending of batch)
+				pending.reject(new Error("Port is not open"));
+			return;
+		}
+
+		const data = batch.length == 1 ? batch[0].data : Buffer.concat(batch.map((pending) => pending.data));
+		if (batch.length > 1)
+			debug(`Coalesced ${batch.length} writes (${data.length} bytes)`);
+		this.recordEcho(data);
+		this.transport.write(data).then(() => {
+			const now = performance.now();
+			this.txBytes += data.length;
+			for (const pending of batch) {
+				if (this.events.listenerCount("write") > 0)
+					this.events.emit("write", { size: pending.data.length, latency: now - pending.time, batchSize: batch.length });
+				pending.resolve();
+			}
+		}, (err) => {
+			for (const pending of batch)
+				pending.reject(err);
 		});
 	}
 
+	private cancelPendingWrites(error = new Error("Port is closed")): void {
+		clearTimeout(this.pendingWritesTimer);
+		this.pendingWritesTimer = undefined;
+		const batch = this.pendingWrites;
+		this.pendingWrites = [];
+		this.pendingWritesSize = 0;
+		for (const pending of batch)
+			pending.reject(error);
+	}
+
+	// Waits until all written data is transmitted
+	async drain(): Promise<void> {
+		this.flushWrites();
+		if (!this.transport.isOpen)
+			throw new Error("Port is not open");
+		await this.transport.drain();
+	}
+
+	// Drops all received but not yet read data (OS and stream buffers)
+	async flushInput(): Promise<void> {
+		// Flushing also discards not transmitted data
+		await this.drain();
+		await this.transport.flush();
+		this.rxBuffer.clear();
+		this.processWaiters();
+	}
+
+	// Drops written but not yet transmitted data, the OS buffers are flushed in both directions, so unread data is dropped too
+	async flushOutput(): Promise<void> {
+		this.cancelPendingWrites(new Error("Write is purged"));
+		if (!this.transport.isOpen)
+			throw new Error("Port is not open");
+		await this.transport.flush();
+		this.rxBuffer.clear();
+		this.processWaiters();
+	}
+
+	/**
+	 * Drops incoming data until the line is silent for the timeout.
+	 * Returns the number of discarded bytes.
+	 * */
+	async discard(timeout = 20): Promise<number> {
+		let discarded = 0;
+		for await (const chunk of this.chunks({ timeout }))
+			discarded += chunk.length;
+		return discarded;
+	}
+
+	async getSignals(): Promise<PortSignals> {
+		if (!this.transport.isOpen)
+			throw new Error("Port is not open");
+		return this.transport.getSignals();
+	}
+
+	/**
+	 * Changes DTR/RTS/BREAK, omitted signals keep the current state.
+	 * */
 	async setSignals(signals: SetOptions): Promise<void> {
-		return new Promise((resolve, reject) => {
-			if (!this.port.isOpen)
-				reject(new Error("Port is not open"));
-			this.port.set(signals, (err) => {
-				if (err) {
-					reject(err);
-				} else {
-					resolve();
+		const newSignals = { ...signals, ...this.outputSignals };
+		for (const key of ["dtr", "rts", "brk"] as const) {
+			if (signals[key] != null)
+				newSignals[key] = signals[key];
+		}
+		if (!this.transport.isOpen)
+			throw new Error("Port is not open");
+		await this.transport.setSignals(newSignals);
+		this.outputSignals = { dtr: newSignals.dtr, rts: newSignals.rts, brk: newSignals.brk };
+	}
+
+	getOutputSignals(): SerialOutputSignals {
+		return { ...this.outputSignals };
+	}
+
+	async sendBreak(duration = 250): Promise<void> {
+		await this.setSignals({ brk: true });
+		try {
+			await new Promise((resolve) => setTimeout(resolve, duration));
+		} finally {
+			await this.setSignals({ brk: false });
+		}
+	}
+
+	/**
+	 * Calls the listener when CTS/DSR/DCD are changed.
+	 * Lines are polled when the binding doesn't support notifications. Returns the unwatch function.
+	 * */
+	watchSignals(listener: SerialSignalsListener, options: WatchSignalsOptions = {}): () => void {
+		const validOptions = {
+			interval: 50,
+			...options
+		};
+
+		let lastSignals: NonNullable<PortSignals> | undefined;
+		let stopped = false;
+		let timer: NodeJS.Timeout | undefined;
+		let notifier: SignalsNotifyingBindingPort | undefined;
+		let unsubscribe: (() => void) | undefined;
+
+		const handleSignals = (signals: NonNullable<PortSignals>) => {
+			if (stopped)
+				return;
+			const changed = lastSignals ? (["cts", "dsr", "dcd"] as const).filter((key) => signals[key] != lastSignals![key]) : [];
+			lastSignals = { cts: signals.cts, dsr: signals.dsr, dcd: signals.dcd };
+			if (changed.length > 0)
+				listener({ ...lastSignals }, changed);
+		};
+
+		const poll = async () => {
+			timer = undefined;
+			try {
+				const currentNotifier = this.transport.getSignalsNotifier?.();
+				if (notifier !== currentNotifier) {
+					// Port was reopened
+					unsubscribe?.();
+					unsubscribe = currentNotifier?.watchSignals(handleSignals);
+					notifier = currentNotifier;
 				}
-			});
-		});
+				if (this.transport.isOpen && !unsubscribe) {
+					const signals = await this.getSignals();
+					if (signals)
+						handleSignals(signals);
+				}
+			} catch (e) {
+				// Port can be closed during polling
+			}
+			if (!stopped)
+				timer = setTimeout(poll, validOptions.interval);
+		};
+		void poll();
+
+		return () => {
+			stopped = true;
+			unsubscribe?.();
+			if (timer) {
+				clearTimeout(timer);
+				timer = undefined;
+			}
+		};
 	}
 
-	update(settings: { baudRate: number }): Promise<void> {
-		return new Promise((resolve, reject) => {
-			if (!this.port.isOpen)
-				reject(new Error("Port is not open"));
-			this.port.update(settings, (err) => {
-				if (err) {
-					reject(err);
-				} else {
-					resolve();
+	/**
+	 * Changes line settings at runtime.
+	 * Bindings can change only the baudrate of the open port, so other settings are applied by reopening the port.
+	 * Reopening resets DTR/RTS on most cables, the previous state is restored after opening.
+	 * The reopen is invisible to the attached protocols: there are no close/open events, the lock is kept,
+	 * pending reads and buffered data survive, only the 'reconfigure' event is emitted.
+	 * */
+	async configure(settings: SerialLineSettings): Promise<void> {
+		const { baudRate, ...lineSettings } = settings;
+		const portSettings = this.transport.settings;
+		const changedSettings: Partial<SerialLineSettings> = {};
+		for (const key of LINE_SETTINGS_KEYS) {
+			const value = lineSettings[key];
+			if (value != null && value !== (portSettings[key] ?? DEFAULT_LINE_SETTINGS[key]))
+				Object.assign(changedSettings, { [key]: value });
+		}
+
+		if (Object.keys(changedSettings).length > 0) {
+			const prevBaudRate = this.baudRate;
+			Object.assign(portSettings, changedSettings);
+			if (baudRate)
+				portSettings.baudRate = baudRate;
+			if (this.transport.isOpen) {
+				const signals = this.outputSignals;
+				await this.drain();
+				this.reopening = true;
+				try {
+					await this.transport.close();
+					await this.transport.open();
+				} catch (err) {
+					// The port is really closed now
+					this.reopening = false;
+					if (!this.transport.isOpen)
+						this.handleTransportClose(err instanceof Error ? err : new Error(String(err)));
+					throw err;
+				} finally {
+					this.reopening = false;
 				}
-			});
-		});
+				this.outputSignals = { ...DEFAULT_OUTPUT_SIGNALS };
+				await this.setSignals(signals);
+				this.events.emit("reconfigure");
+			}
+			if (this.baudRate != prevBaudRate)
+				this.events.emit("baudRateChanged", this.baudRate);
+			return;
+		}
+
+		if (baudRate && baudRate != this.baudRate) {
+			if (this.transport.isOpen) {
+				await this.update({ baudRate });
+			} else {
+				portSettings.baudRate = baudRate;
+				this.events.emit("baudRateChanged", baudRate);
+			}
+		}
+	}
+
+	async update(settings: { baudRate: number }): Promise<void> {
+		if (!this.transport.isOpen)
+			throw new Error("Port is not open");
+		const prevBaudRate = this.baudRate;
+		await this.transport.update(settings);
+		if (settings.baudRate != prevBaudRate)
+			this.events.emit("baudRateChanged", settings.baudRate);
+	}
+
+	// Baudrate which is currently set in the OS (can be changed by other side of the pty/virtual port)
+	async getBaudRate(): Promise<number> {
+		if (!this.transport.isOpen)
+			throw new Error("Port is not open");
+		return this.transport.getBaudRate ? this.transport.getBaudRate() : this.baudRate;
+	}
+
+	getTransport(): SerialTransport {
+		return this.transport;
 	}
 
+	// Only for ports which are created from node-serialport streams
 	getParentPort(): SerialPortStream<T> {
-		return this.port;
+		if (!(this.transport instanceof SerialPortStreamTransport))
+			throw new Error("Port is not a SerialPortStream.");
+		return this.transport.stream;
 	}
 }
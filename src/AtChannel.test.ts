@@ -0,0 +1,159 @@
+import { describe, expect, test, vi } from 'vitest';
+import { createSerialPortPair } from './SerialPortPair.js';
+import { AtChannel } from './AtChannel.js';
+
+async function createAtChannel() {
+	const { host, device } = createSerialPortPair();
+	await host.open();
+	await device.open();
+
+	// Answers each command after a small delay
+	const received: string[] = [];
+	device.on('data', (data: Buffer) => {
+		for (const cmd of data.toString().split("\r").filter((cmd) => cmd.length > 0)) {
+			received.push(cmd);
+			setTimeout(() => device.write(Buffer.from("\r\nOK\r\n")), 5);
+		}
+	});
+
+	const atc = new AtChannel(host);
+	atc.start();
+	return { atc, host, device, received };
+}
+
+describe('AtChannel queue', () => {
+	test('should run interactive commands before background ones', async () => {
+		const { atc, host, device, received } = await createAtChannel();
+
+		const results = Promise.all([
+			atc.sendCommandNoResponse("AT+CSQ", 0, { priority: "low" }),
+			atc.sendCommandNoResponse("AT+CBC", 0, { priority: "low" }),
+			atc.sendCommandNoResponse("ATI"),
+			atc.sendCommandNoResponse("AT+CGSN", 0, { priority: "high" }),
+		]);
+		expect(atc.getQueue()).toEqual([
+			{ cmd: "AT+CSQ", priority: "low", running: true },
+			{ cmd: "AT+CGSN", priority: "high", running: false },
+			{ cmd: "ATI", priority: "normal", running: false },
+			{ cmd: "AT+CBC", priority: "low", running: false },
+		]);
+
+		expect((await results).every((response) => response.success)).toBe(true);
+		expect(received).toEqual(["AT+CSQ", "AT+CGSN", "ATI", "AT+CBC"]);
+		expect(atc.getQueue()).toEqual([]);
+
+		atc.stop();
+		await host.close();
+		await device.close();
+	});
+
+	test('should cancel queued commands', async () => {
+		const { atc, host, device, received } = await createAtChannel();
+		const controller = new AbortController();
+
+		const first = atc.sendCommandNoResponse("AT");
+		const canceled = atc.sendCommandNoResponse("ATI", 0, { signal: controller.signal });
+		const dropped = atc.sendCommandNoResponse("AT+CGMR");
+		controller.abort();
+
+		expect(await canceled).toMatchObject({ success: false, status: "ABORTED" });
+		atc.stop();
+		expect(await first).toMatchObject({ success: false, status: "TIMEOUT" });
+		expect(await dropped).toMatchObject({ success: false, status: "PAUSED" });
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		expect(received).toEqual(["AT"]);
+
+		await host.close();
+		await device.close();
+	});
+
+	test('should wait for the final result of the aborted running command', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+
+		const events: string[] = [];
+		device.on('data', (data: Buffer) => {
+			const cmd = data.toString().trim();
+			events.push(`>> ${cmd}`);
+			// The aborted command is answered late with its own error
+			const [delay, response] = cmd == "AT+COPS=?" ? [30, "+CME ERROR: 30"] : [5, "OK"];
+			setTimeout(() => {
+				events.push(`<< ${response}`);
+				void device.write(Buffer.from(`\r\n${response}\r\n`));
+			}, delay);
+		});
+
+		const atc = new AtChannel(host);
+		atc.start();
+		const controller = new AbortController();
+		const running = atc.sendCommandNoResponse("AT+COPS=?", 0, { signal: controller.signal });
+		const queued = atc.sendCommandNoResponse("ATI");
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		controller.abort();
+
+		expect(await running).toMatchObject({ success: false, status: "ABORTED" });
+		expect(await queued).toMatchObject({ success: true, status: "OK" });
+		expect(events).toEqual([">> AT+COPS=?", "<< +CME ERROR: 30", ">> ATI", "<< OK"]);
+
+		atc.stop();
+		await host.close();
+		await device.close();
+	});
+});
+
+describe('AtChannel unsolicited results', () => {
+	test('should deliver parsed URCs until unsubscribed', async () => {
+		const { atc, host, device } = await createAtChannel();
+
+		const events: unknown[] = [];
+		const unsubscribeRing = atc.onUnsolicited("RING", () => events.push("RING"));
+		atc.onUnsolicited("+CMTI", (data) => events.push(data));
+		await device.write(Buffer.from(`\r\nRING\r\n\r\n+CMTI: "SM",3\r\n`));
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		unsubscribeRing();
+		await device.write(Buffer.from(`\r\nRING\r\n`));
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		expect(events).toEqual(["RING", { mem: "SM", index: 3 }]);
+
+		atc.stop();
+		await host.close();
+		await device.close();
+	});
+
+	test('should iterate over URCs', async () => {
+		const { atc, host, device } = await createAtChannel();
+
+		// Count calls of the handlers which are added by the iterator
+		let handlerCalls = 0;
+		const onUnsolicited = atc.onUnsolicited.bind(atc);
+		const spy = vi.spyOn(atc, "onUnsolicited").mockImplementation((type, callback) => onUnsolicited(type, (data, line) => {
+			handlerCalls++;
+			callback(data, line);
+		}));
+
+		setTimeout(() => device.write(Buffer.from(`\r\n+CREG: 5\r\n+CUSD: 2\r\nNO CARRIER\r\n`)), 5);
+		const controller = new AbortController();
+		const urcs: string[] = [];
+		for await (const urc of atc.unsolicited({ types: ["+CREG", "NO CARRIER"], signal: controller.signal })) {
+			urcs.push(urc.type);
+			if (urc.type == "+CREG")
+				expect(urc.data.stat).toBe(5);
+			if (urcs.length == 2)
+				controller.abort();
+		}
+		expect(urcs).toEqual(["+CREG", "NO CARRIER"]);
+		spy.mockRestore();
+
+		// Removed handlers are not called anymore
+		const callsAfterLoop = handlerCalls;
+		const received = new Promise((resolve) => atc.onUnsolicited("+CREG", resolve));
+		await device.write(Buffer.from(`\r\n+CREG: 1\r\n`));
+		await received;
+		expect(handlerCalls).toBe(callsAfterLoop);
+
+		atc.stop();
+		await host.close();
+		await device.close();
+	});
+});
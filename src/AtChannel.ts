@@ -1,6 +1,7 @@
 import createDebug from 'debug';
 import { usePromiseWithResolvers } from "./utils.js";
 import { BaseSerialProtocol } from "./BaseSerialProtocol.js";
+import { AtUrc, AtUrcMap, AtUrcType, getUrcPrefix, parseUrcAs, URC_TYPES } from "./urc.js";
 
 const debug = createDebug('atc');
 
@@ -11,37 +12,76 @@ export type AtCommandResponse = {
 	binary?: Buffer;
 };
 
-export type AtCommandOptions = {
+// Background pollers should use "low", so they don't delay interactive commands
+export type AtCommandPriority = "high" | "normal" | "low";
+
+export type AtCommandQueueOptions = {
+	// Removes the command from the queue, or finishes the running command with the ABORTED status
+	signal?: AbortSignal;
+	priority?: AtCommandPriority;
+};
+
+export type AtCommandOptions = AtCommandQueueOptions & {
 	timeout?: number;
 	binarySize?: number;
+	promptData?: string;
+};
+
+export type AtQueuedCommandInfo = {
+	cmd: string;
+	priority: AtCommandPriority;
+	running: boolean;
 };
 
-export type AtCommandType = "DEFAULT" | "MULTILINE" | "PREFIX" | "NO_RESPONSE" | "NO_PREFIX" | "NO_PREFIX_ALL" | "BINARY" | "NUMERIC" | "DIAL";
+export type AtCommandType = "DEFAULT" | "MULTILINE" | "PREFIX" | "NO_RESPONSE" | "NO_PREFIX" | "NO_PREFIX_ALL" | "BINARY" | "NUMERIC" | "DIAL" | "PROMPT";
 
 export type AtUnsolicitedHandler = {
 	prefix: string;
 	callback: (line: string) => void;
 };
 
+export type AtUrcStreamOptions<K extends AtUrcType> = {
+	// All known URC types by default
+	types?: K[];
+	signal?: AbortSignal;
+};
+
+const PRIORITY_ORDER: Record<AtCommandPriority, number> = { high: 0, normal: 1, low: 2 };
+
+type AtCommandRequest = {
+	type: AtCommandType;
+	cmd: string;
+	prefix: string;
+	timeout: number;
+	binarySize?: number;
+	promptData?: string;
+	priority: AtCommandPriority;
+	resolve: (value: AtCommandResponse) => void;
+};
+
 export class AtChannel extends BaseSerialProtocol {
 	private buffer: string = "";
 	private unsolicitedHandlers: AtUnsolicitedHandler[] = [];
 	private paused = true;
+	private readonly queue: AtCommandRequest[] = [];
 	private currentCommand: {
+		request: AtCommandRequest;
 		lines: string[];
 		prefix: string;
 		type: string;
 		timeout: NodeJS.Timeout;
 		buffer?: Buffer;
 		binaryOffset: number;
-		promise: Promise<AtCommandResponse>;
-		resolve: (value: AtCommandResponse) => void;
-		reject: (e: Error) => void;
+		promptSent: boolean;
+		// Already resolved with ABORTED, waiting for the final result code
+		aborted: boolean;
+		start: number;
 	} | undefined;
 	private readonly handleSerialDataCallback = this.handleSerialData.bind(this);
 	private readonly handleSerialCloseCallback = this.handleSerialClose.bind(this);
 
 	private handleSerialClose() {
+		this.handleLinkLost(new Error("Serial port closed."));
 		this.stop();
 	}
 
@@ -69,11 +109,27 @@ export class AtChannel extends BaseSerialProtocol {
 					this.handleLine(line);
 			}
 		} while (newLineIndex >= 0);
+
+		// "> " prompt of AT+CMGS and similar commands is not terminated by CRLF
+		const current = this.currentCommand;
+		if (current && current.type == "PROMPT" && !current.promptSent && /^> ?$/.test(this.buffer)) {
+			this.buffer = "";
+			current.promptSent = true;
+			// ESC cancels the input of the aborted command
+			const data = current.aborted ? "\x1B" : `${current.request.promptData}\x1A`;
+			debug(`AT >> ${current.aborted ? "<ESC>" : `${current.request.promptData}<CTRL+Z>`}`);
+			this.port.write(data).catch((e) => {
+				console.error(`[AtChannel]`, e);
+				if (this.currentCommand === current)
+					this.resolveCurrentCommand(false, "PORT_CLOSED");
+			});
+		}
 	}
 
 	private handleUnsolicitedLine(line: string) {
 		debug(`AT -- ${line}`);
-		for (const h of this.unsolicitedHandlers) {
+		// Handlers can unsubscribe from the callback
+		for (const h of [...this.unsolicitedHandlers]) {
 			if (line.startsWith(h.prefix))
 				h.callback(line);
 		}
@@ -98,6 +154,7 @@ export class AtChannel extends BaseSerialProtocol {
 
 		switch (cmd.type) {
 			case "PREFIX":
+			case "PROMPT":
 				if (line.startsWith(cmd.prefix)) {
 					cmd.lines.push(line);
 				} else {
@@ -135,7 +192,7 @@ export class AtChannel extends BaseSerialProtocol {
 					if (line.match(/^[+*^!]/)) {
 						this.handleUnsolicitedLine(line);
 					} else {
-						cmd.lines[0] += `\r\n${line}`;
+						cmd.lines[cmd.lines.length - 1] += `\r\n${line}`;
 					}
 				} else {
 					this.handleUnsolicitedLine(line);
@@ -150,27 +207,91 @@ export class AtChannel extends BaseSerialProtocol {
 
 	private resolveCurrentCommand(success: boolean, status: string) {
 		const cmd = this.currentCommand;
+		this.currentCommand = undefined;
 		if (cmd) {
 			clearTimeout(cmd.timeout);
-			cmd.resolve({
+			// The phone is still waiting for the prompt data, ESC cancels the input
+			if (cmd.promptSent && !success && ["TIMEOUT", "ABORTED"].includes(status))
+				this.port.write("\x1B").catch(() => undefined);
+			if (!cmd.aborted && (success || !["TIMEOUT", "PAUSED", "PORT_CLOSED", "ABORTED"].includes(status))) {
+				this.stats.countRxFrame();
+				this.stats.addLatency(performance.now() - cmd.start);
+			}
+			cmd.request.resolve({
 				success,
 				status,
 				lines: cmd.lines,
 				binary: cmd.buffer?.subarray(2),
 			});
 		}
-		this.currentCommand = undefined;
+		this.processQueue();
+	}
+
+	// Handles "<prefix>: ..." lines, returns the unsubscribe function
+	addUnsolicitedHandler(prefix: string, callback: AtUnsolicitedHandler["callback"]): () => void {
+		return this.addRawUnsolicitedHandler({ prefix: `${prefix}:`, callback });
+	}
+
+	private addRawUnsolicitedHandler(handler: AtUnsolicitedHandler): () => void {
+		this.unsolicitedHandlers.push(handler);
+		return () => {
+			const index = this.unsolicitedHandlers.indexOf(handler);
+			if (index >= 0)
+				this.unsolicitedHandlers.splice(index, 1);
+		};
+	}
+
+	/**
+	 * Subscribes to the parsed URC, including URCs without a colon (RING, NO CARRIER).
+	 * Returns the unsubscribe function.
+	 * */
+	onUnsolicited<K extends AtUrcType>(type: K, callback: (data: AtUrcMap[K], line: string) => void): () => void {
+		const prefix = getUrcPrefix(type);
+		return this.addRawUnsolicitedHandler({
+			prefix,
+			callback: (line) => {
+				// RING handler must not receive RINGBACK
+				if (line.length == prefix.length || prefix.endsWith(":") || line[prefix.length] == " ")
+					callback(parseUrcAs(type, line).data, line);
+			},
+		});
 	}
 
-	addUnsolicitedHandler(prefix: string, callback: AtUnsolicitedHandler["callback"]) {
-		this.unsolicitedHandlers.push({ prefix: `${prefix}:`, callback });
+	// Async stream of URCs, handlers are removed when the loop is finished or the signal is aborted
+	async *unsolicited<K extends AtUrcType = AtUrcType>(options: AtUrcStreamOptions<K> = {}): AsyncGenerator<AtUrc<K>> {
+		const queue: AtUrc<K>[] = [];
+		let wakeup: (() => void) | undefined;
+		const types = options.types ?? (URC_TYPES as K[]);
+		const unsubscribers = types.map((type) => this.onUnsolicited(type, (data, line) => {
+			queue.push({ type, line, data } as AtUrc<K>);
+			wakeup?.();
+		}));
+		const handleAbort = () => wakeup?.();
+		options.signal?.addEventListener("abort", handleAbort, { once: true });
+		try {
+			while (!options.signal?.aborted) {
+				const urc = queue.shift();
+				if (urc) {
+					yield urc;
+				} else {
+					await new Promise<void>((resolve) => wakeup = resolve);
+					wakeup = undefined;
+				}
+			}
+		} finally {
+			options.signal?.removeEventListener("abort", handleAbort);
+			for (const unsubscribe of unsubscribers)
+				unsubscribe();
+		}
 	}
 
 	start() {
 		if (this.paused) {
+			this.port.acquire(this);
 			this.paused = false;
 			this.port.on('data', this.handleSerialDataCallback);
 			this.port.on('close', this.handleSerialCloseCallback);
+			this.setConnected(true);
 		}
 	}
 
@@ -179,103 +300,175 @@ export class AtChannel extends BaseSerialProtocol {
 			this.paused = true;
 			this.port.off('data', this.handleSerialDataCallback);
 			this.port.off('close', this.handleSerialCloseCallback);
+			this.port.release(this);
 			this.buffer = "";
 
+			for (const request of this.queue.splice(0))
+				request.resolve({ success: false, status: "PAUSED", lines: [] });
 			if (this.currentCommand)
 				this.resolveCurrentCommand(false, "TIMEOUT");
+			this.setConnected(false);
 		}
 	}
 
-	private async sendRawCommand(type: AtCommandType, cmd: string, prefix: string, { timeout, binarySize }: AtCommandOptions): Promise<AtCommandResponse> {
+	private async sendRawCommand(type: AtCommandType, cmd: string, prefix: string, { timeout, binarySize, promptData, signal, priority }: AtCommandOptions): Promise<AtCommandResponse> {
 		if ((type == "DEFAULT" || type == "MULTILINE") && prefix == "")
 			type = "NO_RESPONSE";
 
-		timeout ||= 10 * 1000;
+		if (signal?.aborted)
+			return { success: false, status: "ABORTED", lines: [] };
+
+		const { promise, resolve } = usePromiseWithResolvers<AtCommandResponse>();
+		const request: AtCommandRequest = {
+			type,
+			cmd,
+			prefix,
+			timeout: timeout || 10 * 1000,
+			binarySize,
+			promptData,
+			priority: priority ?? "normal",
+			resolve,
+		};
 
-		while (this.currentCommand) {
-			await this.currentCommand.promise;
+		// FIFO within the same priority
+		const index = this.queue.findIndex((queued) => PRIORITY_ORDER[queued.priority] > PRIORITY_ORDER[request.priority]);
+		this.queue.splice(index >= 0 ? index : this.queue.length, 0, request);
+
+		const handleAbort = () => this.abortCommand(request);
+		signal?.addEventListener("abort", handleAbort, { once: true });
+		this.processQueue();
+
+		const response = await promise;
+		signal?.removeEventListener("abort", handleAbort);
+
+		if (type != "NO_PREFIX_ALL") {
+			for (const line of response.lines)
+				debug(`AT << ${line}`);
+			if (response.status.length > 0)
+				debug(`AT << ${response.status}`);
 		}
 
-		const { promise, resolve, reject } = usePromiseWithResolvers<AtCommandResponse>();
+		return response;
+	}
+
+	private abortCommand(request: AtCommandRequest) {
+		const cmd = this.currentCommand;
+		if (cmd?.request === request) {
+			// The command is already sent, the next one waits for its final result code or timeout
+			if (!cmd.aborted) {
+				cmd.aborted = true;
+				request.resolve({ success: false, status: "ABORTED", lines: [] });
+			}
+			return;
+		}
+		const index = this.queue.indexOf(request);
+		if (index >= 0) {
+			this.queue.splice(index, 1);
+			request.resolve({ success: false, status: "ABORTED", lines: [] });
+		}
+	}
 
+	private processQueue() {
+		if (this.currentCommand)
+			return;
+		const request = this.queue.shift();
+		if (request)
+			void this.executeCommand(request);
+	}
+
+	private async executeCommand(request: AtCommandRequest) {
 		this.currentCommand = {
+			request,
 			lines: [],
-			prefix,
-			type,
-			timeout: setTimeout(() => this.resolveCurrentCommand(false, "TIMEOUT"), timeout),
+			prefix: request.prefix,
+			type: request.type,
+			timeout: setTimeout(() => {
+				this.stats.countTimeout();
+				this.resolveCurrentCommand(false, "TIMEOUT");
+			}, request.timeout),
 			binaryOffset: 0,
-			promise,
-			reject,
-			resolve
+			promptSent: false,
+			aborted: false,
+			start: performance.now(),
 		};
 
-		if (type == "BINARY") {
-			this.currentCommand.buffer = Buffer.alloc(binarySize! + 2);
+		if (request.type == "BINARY") {
+			this.currentCommand.buffer = Buffer.alloc(request.binarySize! + 2);
 		}
 
-		debug(`AT >> ${cmd}`);
+		debug(`AT >> ${request.cmd}`);
 
 		if (this.paused) {
 			this.resolveCurrentCommand(false, "PAUSED");
 		} else {
 			try {
-				await this.port.write(`${cmd}\r`);
+				this.stats.countTxFrame();
+				await this.port.write(`${request.cmd}\r`);
 			} catch (e) {
 				console.error(`[AtChannel]`, e);
-				this.resolveCurrentCommand(false, "PORT_CLOSED");
+				if (this.currentCommand?.request === request)
+					this.resolveCurrentCommand(false, "PORT_CLOSED");
 			}
 		}
+	}
 
-		const response = await promise;
-		if (type != "NO_PREFIX_ALL") {
-			for (const line of response.lines)
-				debug(`AT << ${line}`);
-			if (response.status.length > 0)
-				debug(`AT << ${response.status}`);
+	// Running command first, then waiting commands in the execution order
+	getQueue(): AtQueuedCommandInfo[] {
+		const queue = this.queue.map((request) => ({ cmd: request.cmd, priority: request.priority, running: false }));
+		if (this.currentCommand) {
+			const { cmd, priority } = this.currentCommand.request;
+			queue.unshift({ cmd, priority, running: true });
 		}
-
-		return response;
+		return queue;
 	}
 
-	async checkCommandExists(cmd: string, timeout: number = 0) {
-		const response = await this.sendRawCommand("NO_RESPONSE", cmd, "", { timeout });
+	async checkCommandExists(cmd: string, timeout: number = 0, options: AtCommandQueueOptions = {}) {
+		const response = await this.sendRawCommand("NO_RESPONSE", cmd, "", { timeout, ...options });
 		return !!(response.success || response.status.match(/^\+(CME|CMS)/));
 	}
 
-	async sendCommand(cmd: string, prefix = "", timeout = 0): Promise<AtCommandResponse> {
-		return this.sendRawCommand("PREFIX", cmd, prefix, { timeout });
+	async sendCommand(cmd: string, prefix = "", timeout = 0, options: AtCommandQueueOptions = {}): Promise<AtCommandResponse> {
+		return this.sendRawCommand("PREFIX", cmd, prefix, { timeout, ...options });
+	}
+
+	async sendCommandBinaryResponse(cmd: string, binarySize: number, timeout = 0, options: AtCommandQueueOptions = {}): Promise<AtCommandResponse> {
+		return this.sendRawCommand("BINARY", cmd, "", { timeout, binarySize, ...options });
 	}
 
-	async sendCommandBinaryResponse(cmd: string, binarySize: number, timeout = 0): Promise<AtCommandResponse> {
-		return this.sendRawCommand("BINARY", cmd, "", { timeout, binarySize });
+	async sendCommandNoPrefix(cmd: string, timeout = 0, options: AtCommandQueueOptions = {}): Promise<AtCommandResponse> {
+		return this.sendRawCommand("NO_PREFIX", cmd, "", { timeout, ...options });
 	}
 
-	async sendCommandNoPrefix(cmd: string, timeout = 0): Promise<AtCommandResponse> {
-		return this.sendRawCommand("NO_PREFIX", cmd, "", { timeout });
+	async sendCommandNoPrefixAll(cmd: string, timeout = 0, options: AtCommandQueueOptions = {}): Promise<AtCommandResponse> {
+		return this.sendRawCommand("NO_PREFIX_ALL", cmd, "", { timeout, ...options });
 	}
 
-	async sendCommandNoPrefixAll(cmd: string, timeout = 0): Promise<AtCommandResponse> {
-		return this.sendRawCommand("NO_PREFIX_ALL", cmd, "", { timeout });
+	async sendCommandMultiline(cmd: string, prefix = "", timeout = 0, options: AtCommandQueueOptions = {}): Promise<AtCommandResponse> {
+		return this.sendRawCommand("MULTILINE", cmd, prefix, { timeout, ...options });
 	}
 
-	async sendCommandMultiline(cmd: string, prefix = "", timeout = 0): Promise<AtCommandResponse> {
-		return this.sendRawCommand("MULTILINE", cmd, prefix, { timeout });
+	async sendCommandNumeric(cmd: string, timeout = 0, options: AtCommandQueueOptions = {}): Promise<AtCommandResponse> {
+		return this.sendRawCommand("NUMERIC", cmd, "", { timeout, ...options });
 	}
 
-	async sendCommandNumeric(cmd: string, timeout = 0): Promise<AtCommandResponse> {
-		return this.sendRawCommand("NUMERIC", cmd, "", { timeout });
+	async sendCommandNumericOrWithPrefix(cmd: string, prefix = "", timeout = 0, options: AtCommandQueueOptions = {}): Promise<AtCommandResponse> {
+		return this.sendRawCommand("NUMERIC", cmd, prefix, { timeout, ...options });
 	}
 
-	async sendCommandNumericOrWithPrefix(cmd: string, prefix = "", timeout = 0): Promise<AtCommandResponse> {
-		return this.sendRawCommand("NUMERIC", cmd, prefix, { timeout });
+	async sendCommandNoResponse(cmd: string, timeout = 0, options: AtCommandQueueOptions = {}): Promise<AtCommandResponse> {
+		return this.sendRawCommand("NO_RESPONSE", cmd, "", { timeout, ...options });
 	}
 
-	async sendCommandNoResponse(cmd: string, timeout = 0): Promise<AtCommandResponse> {
-		return this.sendRawCommand("NO_RESPONSE", cmd, "", { timeout });
+	/**
+	 * Sends the data after the "> " prompt and terminates it with CTRL+Z, e.g. AT+CMGS=<length> with the PDU.
+	 * The response is collected like in sendCommand().
+	 * */
+	async sendCommandWithPrompt(cmd: string, data: string, prefix = "", timeout = 0, options: AtCommandQueueOptions = {}): Promise<AtCommandResponse> {
+		return this.sendRawCommand("PROMPT", cmd, prefix, { timeout, promptData: data, ...options });
 	}
 
-	async sendCommandDial(cmd: string, timeout = 0): Promise<AtCommandResponse> {
-		return this.sendRawCommand("DIAL", cmd, "", { timeout });
+	async sendCommandDial(cmd: string, timeout = 0, options: AtCommandQueueOptions = {}): Promise<AtCommandResponse> {
+		return this.sendRawCommand("DIAL", cmd, "", { timeout, ...options });
 	}
 
 	async handshake(tries = 3): Promise<boolean> {
@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'vitest';
+import { createSerialPortPair } from './SerialPortPair.js';
+import { AtChannel } from './AtChannel.js';
+import {
+	AtCommandError,
+	AtDevice,
+	formatClock,
+	parseClock,
+	parseRegistration,
+	parseSignalQuality,
+	parseSupportedValues
+} from './AtDevice.js';
+
+describe('AtDevice parsers', () => {
+	test('should parse status responses', () => {
+		expect(parseSignalQuality("+CSQ: 20,99")).toEqual({ rssi: 20, ber: 99, dbm: -73 });
+		expect(parseSignalQuality("+CSQ: 99,99").dbm).toBeUndefined();
+		expect(parseRegistration(`+CREG: 2,1,"00C3","A1B2"`)).toEqual({ mode: 2, stat: 1, lac: 0xC3, ci: 0xA1B2, act: undefined });
+		expect(parseRegistration(`+CREG: 0,5,00C3,A1B2`)).toMatchObject({ stat: 5, lac: 0xC3, ci: 0xA1B2 });
+	});
+
+	test('should parse clock with and without timezone', () => {
+		expect(parseClock(`+CCLK: "24/02/29,13:05:09+12"`)).toEqual({ date: new Date(2024, 1, 29, 13, 5, 9), timezone: 12 });
+		expect(parseClock(`+CCLK: 05/12/31,23:59`)).toEqual({ date: new Date(2005, 11, 31, 23, 59, 0), timezone: undefined });
+		expect(formatClock(new Date(2024, 1, 29, 13, 5, 9))).toBe("24/02/29,13:05:09");
+		expect(formatClock(new Date(2024, 1, 29, 13, 5, 9), -8)).toBe("24/02/29,13:05:09-08");
+	});
+
+	test('should parse supported values', () => {
+		expect(parseSupportedValues("+CSQ", "+CSQ: (0-31,99),(0-7,99)")).toEqual([[{ min: 0, max: 31 }, 99], [{ min: 0, max: 7 }, 99]]);
+		expect(parseSupportedValues("+COPS", `+COPS: (2,"MTS","MTS","25001"),,(0-4)`)).toEqual([[2, "MTS", "MTS", "25001"], [], [{ min: 0, max: 4 }]]);
+		expect(parseSupportedValues("+CMGF", "+CMGF: 0,1")).toEqual([[0, 1]]);
+	});
+});
+
+describe('AtDevice', () => {
+	test('should query Siemens phone', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+
+		const responses: Record<string, string> = {
+			// URC and the echo during the command
+			"AT+CGMI": "+CREG: 1\r\nAT+CGMI\r\nSIEMENS",
+			"AT+CGMM": "C81",
+			"AT+CGMR": "  51",
+			"AT+CGSN": "351234567890123",
+			"AT+IPR=?": "+IPR: (),(1200,2400,4800,9600,19200,38400,57600,115200,230400,460800,921600)",
+			"AT+CIMI": "",
+		};
+		device.on('data', (data: Buffer) => {
+			const cmd = data.toString().trim();
+			if (cmd.startsWith("AT+CCLK=\"")) {
+				void device.write(Buffer.from(cmd == `AT+CCLK="24/02/29,13:05:09"` ? "\r\nOK\r\n" : "\r\nERROR\r\n"));
+			} else if (responses[cmd]) {
+				void device.write(Buffer.from(`\r\n${responses[cmd]}\r\n\r\nOK\r\n`));
+			} else {
+				void device.write(Buffer.from(`\r\n+CME ERROR: 10\r\n`));
+			}
+		});
+
+		const atc = new AtChannel(host);
+		atc.start();
+		const phone = new AtDevice(atc);
+		expect(await phone.getIdentity()).toEqual({ manufacturer: "SIEMENS", model: "C81", revision: "51", imei: "351234567890123" });
+		expect(await phone.getSupportedBaudRates()).toEqual([1200, 2400, 4800, 9600, 19200, 38400, 57600, 115200, 230400, 460800, 921600]);
+		await phone.setClock(new Date(2024, 1, 29, 13, 5, 9));
+		await expect(phone.setClock(new Date(2024, 1, 29, 13, 5, 9), 12)).rejects.toMatchObject({ status: "ERROR" });
+		await expect(phone.getImsi()).rejects.toThrow(AtCommandError);
+		await expect(phone.getImsi()).rejects.toMatchObject({ status: "+CME ERROR: 10" });
+
+		atc.stop();
+		await host.close();
+		await device.close();
+	});
+});
@@ -0,0 +1,313 @@
+import { AtChannel, AtCommandQueueOptions, AtCommandResponse } from "./AtChannel.js";
+import { AtParam, parseAtParams, parseHexParam } from "./urc.js";
+
+export class AtCommandError extends Error {
+	readonly status: string;
+
+	constructor(message: string, status: string) {
+		super(message);
+		this.status = status;
+	}
+}
+
+export type AtIdentity = {
+	manufacturer: string;
+	model: string;
+	revision: string;
+	imei: string;
+};
+
+export type AtSignalQuality = {
+	// 0..31, 99 - unknown
+	rssi: number;
+	// 0..7, 99 - unknown
+	ber: number;
+	// undefined when rssi is unknown
+	dbm?: number;
+};
+
+export type AtBatteryStatus = {
+	// 0 - powered by the battery, 1 - charger is connected, 2 - no battery, 3 - power fault
+	status: number;
+	// 0..100 %
+	level: number;
+};
+
+export type AtClock = {
+	date: Date;
+	// Offset from UTC in quarters of an hour, undefined when the phone doesn't report it (Siemens)
+	timezone?: number;
+};
+
+export type AtOperator = {
+	// 0 - automatic, 1 - manual, 2 - deregister, 3 - format only, 4 - manual/automatic
+	mode: number;
+	// 0 - long alphanumeric, 1 - short alphanumeric, 2 - numeric
+	format?: number;
+	name?: string;
+	act?: number;
+};
+
+export type AtRegistration = {
+	// URC mode: 0 - disabled, 1 - +CREG: <stat>, 2 - +CREG: <stat>,<lac>,<ci>
+	mode: number;
+	// 0 - not registered, 1 - home, 2 - searching, 3 - denied, 4 - unknown, 5 - roaming
+	stat: number;
+	lac?: number;
+	ci?: number;
+	act?: number;
+};
+
+export type AtValueRange = {
+	min: number;
+	max: number;
+};
+
+// One parameter of the =? response: list of values and ranges
+export type AtSupportedValues = (number | string | AtValueRange)[];
+
+/**
+ * Typed 3GPP TS 27.007 queries over AtChannel.
+ * Failed commands throw AtCommandError with the final result code (ERROR, +CME ERROR: 10, TIMEOUT, ...).
+ * */
+export class AtDevice {
+	private readonly atc: AtChannel;
+
+	constructor(atc: AtChannel) {
+		this.atc = atc;
+	}
+
+	getAtChannel(): AtChannel {
+		return this.atc;
+	}
+
+	async getManufacturer(options: AtCommandQueueOptions = {}): Promise<string> {
+		return this.execInfo("AT+CGMI", "+CGMI", options);
+	}
+
+	async getModel(options: AtCommandQueueOptions = {}): Promise<string> {
+		return this.execInfo("AT+CGMM", "+CGMM", options);
+	}
+
+	async getRevision(options: AtCommandQueueOptions = {}): Promise<string> {
+		return this.execInfo("AT+CGMR", "+CGMR", options);
+	}
+
+	async getImei(options: AtCommandQueueOptions = {}): Promise<string> {
+		return this.execInfo("AT+CGSN", "+CGSN", options);
+	}
+
+	// Fails with +CME ERROR when SIM is not inserted or locked
+	async getImsi(options: AtCommandQueueOptions = {}): Promise<string> {
+		return this.execInfo("AT+CIMI", "+CIMI", options);
+	}
+
+	async getIdentity(options: AtCommandQueueOptions = {}): Promise<AtIdentity> {
+		return {
+			manufacturer: await this.getManufacturer(options),
+			model: await this.getModel(options),
+			revision: await this.getRevision(options),
+			imei: await this.getImei(options),
+		};
+	}
+
+	async getSignalQuality(options: AtCommandQueueOptions = {}): Promise<AtSignalQuality> {
+		return parseSignalQuality(await this.exec("AT+CSQ", "+CSQ", options));
+	}
+
+	async getBatteryStatus(options: AtCommandQueueOptions = {}): Promise<AtBatteryStatus> {
+		return parseBatteryStatus(await this.exec("AT+CBC", "+CBC", options));
+	}
+
+	async getClock(options: AtCommandQueueOptions = {}): Promise<AtClock> {
+		return parseClock(await this.exec("AT+CCLK?", "+CCLK", options));
+	}
+
+	/**
+	 * Sets the phone clock to the local time of the date.
+	 * Siemens phones reject the timezone suffix, so it's sent only when requested.
+	 * */
+	async setClock(date: Date, timezone?: number, options: AtCommandQueueOptions = {}): Promise<void> {
+		const cmd = `AT+CCLK="${formatClock(date, timezone)}"`;
+		const response = await this.atc.sendCommandNoResponse(cmd, 0, options);
+		if (!response.success)
+			throw new AtCommandError(`${cmd} failed: ${response.status}`, response.status);
+	}
+
+	async getOperator(options: AtCommandQueueOptions = {}): Promise<AtOperator> {
+		return parseOperator(await this.exec("AT+COPS?", "+COPS", options));
+	}
+
+	async getRegistration(options: AtCommandQueueOptions = {}): Promise<AtRegistration> {
+		return parseRegistration(await this.exec("AT+CREG?", "+CREG", options));
+	}
+
+	// Parses the "AT<cmd>=?" response, e.g. getSupportedValues("+CSQ") => [[{ min: 0, max: 31 }, 99], [...]]
+	async getSupportedValues(cmd: string, options: AtCommandQueueOptions = {}): Promise<AtSupportedValues[]> {
+		return parseSupportedValues(cmd, await this.exec(`AT${cmd}=?`, cmd, options));
+	}
+
+	async getSupportedBaudRates(options: AtCommandQueueOptions = {}): Promise<number[]> {
+		const params = await this.getSupportedValues("+IPR", options);
+		// Siemens phones put autobauding into the first group: +IPR: (0),(300,...,921600)
+		const values = params.map(expandSupportedValues).find((values) => values.some((v) => v > 0)) ?? [];
+		return values.filter((v) => v > 0);
+	}
+
+	private async exec(cmd: string, prefix: string, options: AtCommandQueueOptions): Promise<string> {
+		const response = await this.atc.sendCommand(cmd, prefix, 0, options);
+		return getFirstLine(cmd, response);
+	}
+
+	// Identity commands are answered without the prefix on most phones, so all lines are collected
+	private async execInfo(cmd: string, prefix: string, options: AtCommandQueueOptions): Promise<string> {
+		const response = await this.atc.sendCommand(cmd, "", 0, options);
+		// Skip URCs received during the command and the echo
+		const lines = response.lines.filter((line) => {
+			if (line.startsWith(`${prefix}:`))
+				return true;
+			return !/^[+^*!]/.test(line) && line.toUpperCase() != cmd.toUpperCase();
+		});
+		return parseInfoLine(prefix, getFirstLine(cmd, { ...response, lines }));
+	}
+}
+
+function getFirstLine(cmd: string, response: AtCommandResponse): string {
+	if (!response.success)
+		throw new AtCommandError(`${cmd} failed: ${response.status}`, response.status);
+	if (!response.lines.length)
+		throw new AtCommandError(`${cmd} returned empty response.`, response.status);
+	return response.lines[0];
+}
+
+function stripPrefix(prefix: string, line: string): string {
+	return line.startsWith(`${prefix}:`) ? line.substring(prefix.length + 1).trim() : line.trim();
+}
+
+// Identity commands: Siemens phones answer "SIEMENS", others "+CGMI: "Vendor"" or with the leading spaces
+export function parseInfoLine(prefix: string, line: string): string {
+	return stripPrefix(prefix, line).replace(/^"(.*)"$/, "$1").trim();
+}
+
+function toNumber(param: AtParam): number | undefined {
+	return typeof param == "number" ? param : undefined;
+}
+
+export function parseSignalQuality(line: string): AtSignalQuality {
+	const [rssi, ber] = parseAtParams(stripPrefix("+CSQ", line));
+	if (typeof rssi != "number")
+		throw new Error(`Invalid +CSQ response: ${line}`);
+	return {
+		rssi,
+		ber: toNumber(ber) ?? 99,
+		dbm: rssi >= 0 && rssi <= 31 ? -113 + rssi * 2 : undefined,
+	};
+}
+
+export function parseBatteryStatus(line: string): AtBatteryStatus {
+	const [status, level] = parseAtParams(stripPrefix("+CBC", line));
+	if (typeof status != "number" || typeof level != "number")
+		throw new Error(`Invalid +CBC response: ${line}`);
+	return { status, level };
+}
+
+// "yy/MM/dd,hh:mm:ss±zz", Siemens phones omit the quotes, the timezone and the seconds on some models
+export function parseClock(line: string): AtClock {
+	const value = stripPrefix("+CCLK", line).replace(/^"(.*)"$/, "$1");
+	const m = value.match(/^(\d{2,4})\/(\d{1,2})\/(\d{1,2}),(\d{1,2}):(\d{1,2})(?::(\d{1,2}))?([+-]\d{1,2})?$/);
+	if (!m)
+		throw new Error(`Invalid +CCLK response: ${line}`);
+	const year = parseInt(m[1]) + (m[1].length == 2 ? 2000 : 0);
+	return {
+		date: new Date(year, parseInt(m[2]) - 1, parseInt(m[3]), parseInt(m[4]), parseInt(m[5]), parseInt(m[6] ?? "0")),
+		timezone: m[7] != null ? parseInt(m[7]) : undefined,
+	};
+}
+
+export function formatClock(date: Date, timezone?: number): string {
+	const pad = (value: number) => value.toString().padStart(2, "0");
+	let result = `${pad(date.getFullYear() % 100)}/${pad(date.getMonth() + 1)}/${pad(date.getDate())},` +
+		`${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+	if (timezone != null)
+		result += `${timezone < 0 ? "-" : "+"}${pad(Math.abs(timezone))}`;
+	return result;
+}
+
+export function parseOperator(line: string): AtOperator {
+	const [mode, format, name, act] = parseAtParams(stripPrefix("+COPS", line));
+	if (typeof mode != "number")
+		throw new Error(`Invalid +COPS response: ${line}`);
+	return {
+		mode,
+		format: toNumber(format),
+		name: name != null ? String(name) : undefined,
+		act: toNumber(act),
+	};
+}
+
+// Siemens phones send LAC and CI without quotes
+export function parseRegistration(line: string): AtRegistration {
+	const [mode, stat, lac, ci, act] = parseAtParams(stripPrefix("+CREG", line));
+	if (typeof mode != "number" || typeof stat != "number")
+		throw new Error(`Invalid +CREG response: ${line}`);
+	return { mode, stat, lac: parseHexParam(lac), ci: parseHexParam(ci), act: toNumber(act) };
+}
+
+/**
+ * Parses the test command response: +CSQ: (0-31,99),(0-7,99)
+ * Siemens phones answer without parentheses for single parameter commands: +CMGF: 0,1
+ * */
+export function parseSupportedValues(prefix: string, line: string): AtSupportedValues[] {
+	const body = stripPrefix(prefix, line);
+	const groups = body.includes("(") ? splitTopLevel(body).map((group) => group.trim().replace(/^\((.*)\)$/, "$1")) : [body];
+	return groups.map((group) => {
+		if (group.trim() == "")
+			return [];
+		return splitTopLevel(group).map((value) => {
+			value = value.trim();
+			const range = value.match(/^(\d+)\s*-\s*(\d+)$/);
+			if (range)
+				return { min: parseInt(range[1]), max: parseInt(range[2]) };
+			if (/^-?\d+$/.test(value))
+				return parseInt(value);
+			return value.replace(/^"(.*)"$/, "$1");
+		});
+	});
+}
+
+// Splits by commas outside of quotes and parentheses
+function splitTopLevel(value: string): string[] {
+	const result: string[] = [];
+	let depth = 0;
+	let quoted = false;
+	let start = 0;
+	for (let i = 0; i < value.length; i++) {
+		const c = value[i];
+		if (c == '"') {
+			quoted = !quoted;
+		} else if (!quoted && c == "(") {
+			depth++;
+		} else if (!quoted && c == ")") {
+			depth--;
+		} else if (!quoted && depth == 0 && c == ",") {
+			result.push(value.substring(start, i));
+			start = i + 1;
+		}
+	}
+	result.push(value.substring(start));
+	return result;
+}
+
+// Numeric values of the group, ranges are expanded (only small ones)
+export function expandSupportedValues(values: AtSupportedValues, maxRangeSize = 256): number[] {
+	const result: number[] = [];
+	for (const value of values) {
+		if (typeof value == "number") {
+			result.push(value);
+		} else if (typeof value == "object" && value.max - value.min < maxRangeSize) {
+			for (let i = value.min; i <= value.max; i++)
+				result.push(i);
+		}
+	}
+	return result;
+}
@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'vitest';
+import { createSerialPortPair } from './SerialPortPair.js';
+import { AtChannel } from './AtChannel.js';
+import { AtPhonebook } from './AtPhonebook.js';
+
+async function createPhone(handler: (cmd: string) => string) {
+	const { host, device } = createSerialPortPair();
+	await host.open();
+	await device.open();
+
+	let buffer = "";
+	device.on('data', (data: Buffer) => {
+		buffer += data.toString();
+		let end: number;
+		while ((end = buffer.indexOf("\r")) >= 0) {
+			const cmd = buffer.substring(0, end);
+			buffer = buffer.substring(end + 1);
+			void device.write(Buffer.from(handler(cmd)));
+		}
+	});
+
+	const atc = new AtChannel(host);
+	atc.start();
+	return { atc, host, device, phonebook: new AtPhonebook(atc) };
+}
+
+describe('AtPhonebook', () => {
+	test('should read phonebook in batches', async () => {
+		const received: string[] = [];
+		const { atc, host, device, phonebook } = await createPhone((cmd) => {
+			received.push(cmd);
+			switch (cmd) {
+				case "AT+CPBR=?":
+					return "\r\n+CPBR: (1-250),40,18\r\n\r\nOK\r\n";
+				case "AT+CPBS?":
+					return `\r\n+CPBS: "SM",2,250\r\n\r\nOK\r\n`;
+				case "AT+CPBR=1,20":
+					return "\r\n+CME ERROR: 22\r\n";
+				case "AT+CPBR=21,40":
+					return `\r\n+CPBR: 21,"79001234567",145,"041804320430043D"\r\n+CPBR: 40,"0800",129,"0053006F0053"\r\n\r\nOK\r\n`;
+			}
+			return "\r\nOK\r\n";
+		});
+
+		expect(await phonebook.readAll()).toEqual([
+			{ index: 21, number: "+79001234567", type: 145, text: "Иван" },
+			{ index: 40, number: "0800", type: 129, text: "SoS" },
+		]);
+		expect(received).toEqual(["AT+CPBR=?", "AT+CPBS?", `AT+CSCS="UCS2"`, "AT+CPBR=1,20", "AT+CPBR=21,40"]);
+
+		atc.stop();
+		await host.close();
+		await device.close();
+	});
+
+	test('should write entries', async () => {
+		const received: string[] = [];
+		const { atc, host, device, phonebook } = await createPhone((cmd) => {
+			received.push(cmd);
+			return cmd == "AT+CPBW=300" ? "\r\n+CME ERROR: 21\r\n" : "\r\nOK\r\n";
+		});
+
+		await phonebook.setCharset("GSM");
+		await phonebook.write({ number: "+79001234567", text: "Home" });
+		await phonebook.write({ index: 5, number: "112", text: "SOS" });
+		await phonebook.delete(6);
+		await expect(phonebook.delete(300)).rejects.toMatchObject({ status: "+CME ERROR: 21" });
+		expect(received).toEqual([
+			`AT+CSCS="GSM"`,
+			`AT+CPBW=,"+79001234567",145,"Home"`,
+			`AT+CPBW=5,"112",129,"SOS"`,
+			"AT+CPBW=6",
+			"AT+CPBW=300",
+		]);
+
+		atc.stop();
+		await host.close();
+		await device.close();
+	});
+
+	test('should escape special characters', async () => {
+		const received: string[] = [];
+		const { atc, host, device, phonebook } = await createPhone((cmd) => {
+			received.push(cmd);
+			if (cmd == "AT+CPBR=1")
+				return `\r\n+CPBR: 1,"112",129,"\\00Home\\1Be"\r\n\r\nOK\r\n`;
+			return "\r\nOK\r\n";
+		});
+
+		await phonebook.setCharset("IRA");
+		await phonebook.write({ index: 1, number: "112", text: `Say "hi" \\o/` });
+		// GSM: "@" is 0x00, "€" is 0x1B 0x65
+		await phonebook.setCharset("GSM");
+		await phonebook.write({ index: 1, number: "112", text: "@Home€" });
+		expect(await phonebook.read(1)).toEqual([{ index: 1, number: "112", type: 129, text: "@Home€" }]);
+		expect(received).toEqual([
+			`AT+CSCS="IRA"`,
+			`AT+CPBW=1,"112",129,"Say \\22hi\\22 \\5Co/"`,
+			`AT+CSCS="GSM"`,
+			`AT+CPBW=1,"112",129,"\\00Home\\1Be"`,
+			"AT+CPBR=1",
+		]);
+
+		atc.stop();
+		await host.close();
+		await device.close();
+	});
+});
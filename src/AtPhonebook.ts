@@ -0,0 +1,210 @@
+import { AtChannel, AtCommandQueueOptions, AtCommandResponse } from "./AtChannel.js";
+import { AtCommandError, AtValueRange, parseSupportedValues } from "./AtDevice.js";
+import { parseAtParams } from "./urc.js";
+import { decodeGsm7, encodeGsm7 } from "./pdu.js";
+
+// TE character set (AT+CSCS), UCS2 strings are sent as hex
+export type AtPhonebookCharset = "UCS2" | "GSM" | "IRA";
+
+export type AtPhonebookEntry = {
+	index: number;
+	number: string;
+	// 145 - international, 129 - national/unknown
+	type: number;
+	text: string;
+};
+
+// The first free slot is used when the index is not specified
+export type AtPhonebookWriteEntry = {
+	index?: number;
+	number: string;
+	type?: number;
+	text: string;
+};
+
+export type AtPhonebookStorage = {
+	// SM - SIM, ME - phone, FD - fixed dialing, ON - own numbers, ...
+	storage: string;
+	used?: number;
+	total?: number;
+};
+
+export type AtPhonebookInfo = {
+	range: AtValueRange;
+	numberLength?: number;
+	textLength?: number;
+};
+
+export type AtPhonebookReadOptions = AtCommandQueueOptions & {
+	// Entries per AT+CPBR command
+	batchSize?: number;
+};
+
+/**
+ * Phonebook over AtChannel: AT+CPBS, AT+CPBR and AT+CPBW.
+ * Failed commands throw AtCommandError with the final result code (+CME ERROR: 21, TIMEOUT, ...).
+ *
+ * The charset is selected with AT+CSCS before the first read or write and isn't restored.
+ * It's the setting of the whole channel: strings of other commands (+COPS, +CUSD, ...) are also returned in this charset.
+ * */
+export class AtPhonebook {
+	private readonly atc: AtChannel;
+	private charset: AtPhonebookCharset = "UCS2";
+	private charsetSelected = false;
+
+	constructor(atc: AtChannel) {
+		this.atc = atc;
+	}
+
+	getAtChannel(): AtChannel {
+		return this.atc;
+	}
+
+	/**
+	 * Selects the character set of the names, UCS2 by default.
+	 * Use GSM or IRA for phones without UCS2 support. Call it with the previous charset when the phonebook is no longer used.
+	 * */
+	async setCharset(charset: AtPhonebookCharset, options: AtCommandQueueOptions = {}): Promise<void> {
+		const cmd = `AT+CSCS="${charset}"`;
+		checkResponse(cmd, await this.atc.sendCommandNoResponse(cmd, 0, options));
+		this.charset = charset;
+		this.charsetSelected = true;
+	}
+
+	getCharset(): AtPhonebookCharset {
+		return this.charset;
+	}
+
+	async getStorages(options: AtCommandQueueOptions = {}): Promise<string[]> {
+		const response = checkResponse("AT+CPBS=?", await this.atc.sendCommand("AT+CPBS=?", "+CPBS", 0, options));
+		if (!response.lines.length)
+			return [];
+		const [storages] = parseSupportedValues("+CPBS", response.lines[0]);
+		return storages.filter((storage) => typeof storage == "string");
+	}
+
+	async getStorage(options: AtCommandQueueOptions = {}): Promise<AtPhonebookStorage> {
+		const response = checkResponse("AT+CPBS?", await this.atc.sendCommand("AT+CPBS?", "+CPBS", 0, options));
+		if (!response.lines.length)
+			throw new AtCommandError(`AT+CPBS? returned empty response.`, response.status);
+		// Some phones answer without the counters: +CPBS: "SM"
+		const [storage, used, total] = parseAtParams(response.lines[0].substring("+CPBS:".length));
+		return {
+			storage: String(storage),
+			used: typeof used == "number" ? used : undefined,
+			total: typeof total == "number" ? total : undefined,
+		};
+	}
+
+	async selectStorage(storage: string, options: AtCommandQueueOptions = {}): Promise<void> {
+		const cmd = `AT+CPBS="${storage}"`;
+		checkResponse(cmd, await this.atc.sendCommandNoResponse(cmd, 0, options));
+	}
+
+	// Index range and the maximum lengths of the selected storage: +CPBR: (1-250),40,18
+	async getInfo(options: AtCommandQueueOptions = {}): Promise<AtPhonebookInfo> {
+		const response = checkResponse("AT+CPBR=?", await this.atc.sendCommand("AT+CPBR=?", "+CPBR", 0, options));
+		if (!response.lines.length)
+			throw new AtCommandError(`AT+CPBR=? returned empty response.`, response.status);
+		const [indexes = [], numberLength, textLength] = parseSupportedValues("+CPBR", response.lines[0]);
+		const range = indexes.find((value) => typeof value == "object")
+			?? { min: Number(indexes[0] ?? 1), max: Number(indexes[indexes.length - 1] ?? 1) };
+		return {
+			range,
+			numberLength: typeof numberLength?.[0] == "number" ? numberLength[0] : undefined,
+			textLength: typeof textLength?.[0] == "number" ? textLength[0] : undefined,
+		};
+	}
+
+	// Reads the entries in the index range, empty slots are skipped
+	async read(start: number, end = start, options: AtCommandQueueOptions = {}): Promise<AtPhonebookEntry[]> {
+		await this.ensureCharset(options);
+		const cmd = start == end ? `AT+CPBR=${start}` : `AT+CPBR=${start},${end}`;
+		const response = await this.atc.sendCommand(cmd, "+CPBR", 0, options);
+		// Some phones answer "+CME ERROR: 22" (not found) when the whole range is empty
+		if (!response.success && response.status == "+CME ERROR: 22")
+			return [];
+		checkResponse(cmd, response);
+		return response.lines.map((line) => this.parseEntry(line));
+	}
+
+	// Reads the whole storage in batches, stops early when all used entries are found
+	async readAll(options: AtPhonebookReadOptions = {}): Promise<AtPhonebookEntry[]> {
+		const { batchSize = 20, ...queueOptions } = options;
+		const { range } = await this.getInfo(queueOptions);
+		const { used } = await this.getStorage(queueOptions);
+		const entries: AtPhonebookEntry[] = [];
+		for (let start = range.min; start <= range.max; start += batchSize) {
+			if (used != null && entries.length >= used)
+				break;
+			entries.push(...await this.read(start, Math.min(start + batchSize - 1, range.max), queueOptions));
+		}
+		return entries;
+	}
+
+	async write(entry: AtPhonebookWriteEntry, options: AtCommandQueueOptions = {}): Promise<void> {
+		await this.ensureCharset(options);
+		const type = entry.type ?? (entry.number.startsWith("+") ? 145 : 129);
+		const cmd = `AT+CPBW=${entry.index ?? ""},"${escapeString(entry.number)}",${type},"${encodeText(entry.text, this.charset)}"`;
+		checkResponse(cmd, await this.atc.sendCommandNoResponse(cmd, 0, options));
+	}
+
+	async delete(index: number, options: AtCommandQueueOptions = {}): Promise<void> {
+		const cmd = `AT+CPBW=${index}`;
+		checkResponse(cmd, await this.atc.sendCommandNoResponse(cmd, 0, options));
+	}
+
+	private parseEntry(line: string): AtPhonebookEntry {
+		const [index, number, type, text] = parseAtParams(line.substring("+CPBR:".length));
+		let phoneNumber = String(number ?? "");
+		// Some phones return international numbers without "+"
+		if (type == 145 && phoneNumber.length > 0 && !phoneNumber.startsWith("+"))
+			phoneNumber = `+${phoneNumber}`;
+		return {
+			index: Number(index),
+			number: phoneNumber,
+			type: Number(type ?? 129),
+			text: decodeText(String(text ?? ""), this.charset),
+		};
+	}
+
+	private async ensureCharset(options: AtCommandQueueOptions) {
+		if (!this.charsetSelected)
+			await this.setCharset(this.charset, options);
+	}
+}
+
+function checkResponse(cmd: string, response: AtCommandResponse): AtCommandResponse {
+	if (!response.success)
+		throw new AtCommandError(`${cmd} failed: ${response.status}`, response.status);
+	return response;
+}
+
+function encodeText(text: string, charset: AtPhonebookCharset): string {
+	if (charset == "UCS2")
+		return Buffer.from(text, "utf16le").swap16().toString("hex").toUpperCase();
+	if (charset == "GSM") {
+		const septets = encodeGsm7(text);
+		if (!septets)
+			throw new Error(`Text can't be encoded with the GSM 7-bit alphabet: ${text}`);
+		return escapeString(String.fromCharCode(...septets));
+	}
+	return escapeString(text);
+}
+
+function decodeText(text: string, charset: AtPhonebookCharset): string {
+	if (charset == "UCS2" && /^([0-9A-F]{4})*$/i.test(text))
+		return Buffer.from(text, "hex").swap16().toString("utf16le");
+	if (charset == "GSM")
+		return decodeGsm7([...unescapeString(text)].map((c) => c.charCodeAt(0) & 0x7F));
+	return unescapeString(text);
+}
+
+// Control characters, quotes and backslashes are sent as "\" and two hex digits: " - \22, \ - \5C (3GPP TS 27.007)
+function escapeString(value: string): string {
+	return value.replace(/[\x00-\x1F"\\\x7F]/g, (c) => "\\" + c.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0"));
+}
+
+function unescapeString(value: string): string {
+	return value.replace(/\\([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
@@ -0,0 +1,86 @@
+import { describe, expect, test } from 'vitest';
+import { createSerialPortPair } from './SerialPortPair.js';
+import { AtChannel } from './AtChannel.js';
+import { AtSms, joinSmsParts } from './AtSms.js';
+import { encodeSubmitPdu } from './pdu.js';
+
+async function createPhone(handler: (cmd: string) => string) {
+	const { host, device } = createSerialPortPair();
+	await host.open();
+	await device.open();
+
+	// Commands end with CR, the prompt data with CTRL+Z
+	let buffer = "";
+	device.on('data', (data: Buffer) => {
+		buffer += data.toString();
+		let m: RegExpMatchArray | null;
+		while ((m = buffer.match(/^([^\r\x1A]*)([\r\x1A])/))) {
+			buffer = buffer.substring(m[0].length);
+			void device.write(Buffer.from(handler(m[1] + (m[2] == "\x1A" ? "<CTRL+Z>" : ""))));
+		}
+	});
+
+	const atc = new AtChannel(host);
+	atc.start();
+	return { atc, host, device, sms: new AtSms(atc) };
+}
+
+describe('AtSms', () => {
+	test('should send concatenated message after the prompt', async () => {
+		const received: string[] = [];
+		let reference = 10;
+		const { atc, host, device, sms } = await createPhone((cmd) => {
+			received.push(cmd);
+			if (cmd.startsWith("AT+CMGS="))
+				return "\r\n> ";
+			if (cmd.endsWith("<CTRL+Z>"))
+				return `\r\n+CMGS: ${reference++}\r\n\r\nOK\r\n`;
+			return "\r\nOK\r\n";
+		});
+
+		const text = "x".repeat(200);
+		expect(await sms.send("+79001234567", text, { statusReport: true })).toEqual([10, 11]);
+		const parts = encodeSubmitPdu({ recipient: "+79001234567", text, statusReport: true, concatRef: 0 });
+		expect(received.map((cmd) => cmd.replace(/^00.*<CTRL\+Z>$/, "<PDU>"))).toEqual([
+			"AT+CMGF=0",
+			`AT+CMGS=${parts[0].length}`,
+			"<PDU>",
+			`AT+CMGS=${parts[1].length}`,
+			"<PDU>",
+		]);
+
+		atc.stop();
+		await host.close();
+		await device.close();
+	});
+
+	test('should list and join stored messages', async () => {
+		const parts = encodeSubmitPdu({ recipient: "+79001234567", text: "y".repeat(170), concatRef: 5 });
+		const { atc, host, device, sms } = await createPhone((cmd) => {
+			if (cmd == "AT+CMGL=4") {
+				return `\r\n+CMGL: 2,3,,${parts[1].length}\r\n${parts[1].pdu}\r\n` +
+					`+CMGL: 1,3,,${parts[0].length}\r\n${parts[0].pdu}\r\n` +
+					`+CMGL: 3,0,,1\r\nZZ\r\n\r\nOK\r\n`;
+			}
+			if (cmd == "AT+CMGR=4")
+				return "\r\n+CMGR: 0,,0\r\n\r\nOK\r\n";
+			if (cmd == "AT+CMGD=9")
+				return "\r\n+CMS ERROR: 321\r\n";
+			return "\r\nOK\r\n";
+		});
+
+		const messages = await sms.list();
+		expect(messages.map((message) => message.index)).toEqual([2, 1]);
+		const joined = joinSmsParts(messages);
+		expect(joined).toHaveLength(1);
+		expect(joined[0]).toMatchObject({ indexes: [1, 2], status: "sent", complete: true, pdu: { type: "submit", text: "y".repeat(170) } });
+		expect(joinSmsParts(messages.slice(0, 1))[0].complete).toBe(false);
+
+		expect(await sms.read(4)).toBeUndefined();
+		await expect(sms.delete(9)).rejects.toMatchObject({ status: "+CMS ERROR: 321" });
+
+		atc.stop();
+		await host.close();
+		await device.close();
+	});
+});
@@ -0,0 +1,177 @@
+import createDebug from 'debug';
+import { AtChannel, AtCommandQueueOptions, AtCommandResponse } from "./AtChannel.js";
+import { AtCommandError } from "./AtDevice.js";
+import { AtCmtiUrc, parseAtParams } from "./urc.js";
+import { decodePdu, encodeSubmitPdu, SmsDeliver, SmsPdu, SmsSubmit, SmsSubmitOptions } from "./pdu.js";
+
+const debug = createDebug('atc:sms');
+
+// <stat> of the stored message, PDU mode values are 0..3
+export type AtSmsStatus = "unread" | "read" | "unsent" | "sent";
+
+export type AtSmsMessage = {
+	index: number;
+	status: AtSmsStatus;
+	pdu: SmsPdu;
+};
+
+// Message assembled from the concatenated parts
+export type AtSmsJoinedMessage = {
+	indexes: number[];
+	status: AtSmsStatus;
+	pdu: SmsPdu;
+	// false when some parts are not received yet
+	complete: boolean;
+};
+
+export type AtSmsSendOptions = AtCommandQueueOptions & Omit<SmsSubmitOptions, "recipient" | "text" | "concatRef"> & {
+	// Per part, the network can be slow
+	timeout?: number;
+};
+
+const SMS_STATUSES: AtSmsStatus[] = ["unread", "read", "unsent", "sent"];
+
+/**
+ * SMS in PDU mode over AtChannel (old Siemens phones don't support the text mode).
+ * Failed commands throw AtCommandError with the final result code (+CMS ERROR: 321, TIMEOUT, ...).
+ * */
+export class AtSms {
+	private readonly atc: AtChannel;
+	private pduMode = false;
+	private concatRef = Math.floor(Math.random() * 256);
+
+	constructor(atc: AtChannel) {
+		this.atc = atc;
+	}
+
+	getAtChannel(): AtChannel {
+		return this.atc;
+	}
+
+	// Called automatically before the first SMS command
+	async setPduMode(options: AtCommandQueueOptions = {}): Promise<void> {
+		checkResponse("AT+CMGF=0", await this.atc.sendCommandNoResponse("AT+CMGF=0", 0, options));
+		this.pduMode = true;
+	}
+
+	// Enables +CMTI notifications, see onNewMessage()
+	async setNewMessageIndication(enabled: boolean, options: AtCommandQueueOptions = {}): Promise<void> {
+		const cmd = enabled ? "AT+CNMI=1,1" : "AT+CNMI=0,0";
+		checkResponse(cmd, await this.atc.sendCommandNoResponse(cmd, 0, options));
+	}
+
+	// Returns the unsubscribe function
+	onNewMessage(callback: (message: AtCmtiUrc) => void): () => void {
+		return this.atc.onUnsolicited("+CMTI", (data) => callback(data));
+	}
+
+	/**
+	 * Lists the stored messages, PDUs which can't be decoded are skipped.
+	 * Reading unread messages marks them as read.
+	 * */
+	async list(status?: AtSmsStatus, options: AtCommandQueueOptions = {}): Promise<AtSmsMessage[]> {
+		await this.ensurePduMode(options);
+		const cmd = `AT+CMGL=${status ? SMS_STATUSES.indexOf(status) : 4}`;
+		const response = checkResponse(cmd, await this.atc.sendCommandMultiline(cmd, "+CMGL", 30 * 1000, options));
+		const messages: AtSmsMessage[] = [];
+		for (const line of response.lines) {
+			const [header, pdu] = line.split("\r\n");
+			const [index, stat] = parseAtParams(header.substring("+CMGL:".length));
+			try {
+				messages.push({ index: Number(index), status: SMS_STATUSES[Number(stat)] ?? "read", pdu: decodePdu(pdu ?? "") });
+			} catch (e) {
+				debug(`Invalid SMS #${index}: ${(e as Error).message}`);
+			}
+		}
+		return messages;
+	}
+
+	// Returns undefined for the empty slot
+	async read(index: number, options: AtCommandQueueOptions = {}): Promise<AtSmsMessage | undefined> {
+		await this.ensurePduMode(options);
+		const cmd = `AT+CMGR=${index}`;
+		const response = checkResponse(cmd, await this.atc.sendCommandMultiline(cmd, "+CMGR", 0, options));
+		if (!response.lines.length)
+			return undefined;
+		const [header, pdu] = response.lines[0].split("\r\n");
+		// Siemens phones answer "+CMGR: 0,,0" for the empty slot
+		if (!pdu)
+			return undefined;
+		const [stat] = parseAtParams(header.substring("+CMGR:".length));
+		return { index, status: SMS_STATUSES[Number(stat)] ?? "read", pdu: decodePdu(pdu) };
+	}
+
+	async delete(index: number, options: AtCommandQueueOptions = {}): Promise<void> {
+		const cmd = `AT+CMGD=${index}`;
+		checkResponse(cmd, await this.atc.sendCommandNoResponse(cmd, 0, options));
+	}
+
+	/**
+	 * Sends the message, long texts are sent as concatenated parts.
+	 * Returns the message references (TP-MR) of the parts, status reports refer to them.
+	 * */
+	async send(recipient: string, text: string, options: AtSmsSendOptions = {}): Promise<number[]> {
+		const { signal, priority, timeout, ...pduOptions } = options;
+		await this.ensurePduMode({ signal, priority });
+		const parts = encodeSubmitPdu({ ...pduOptions, recipient, text, concatRef: this.concatRef++ & 0xFF });
+		const references: number[] = [];
+		for (const part of parts) {
+			const cmd = `AT+CMGS=${part.length}`;
+			const response = await this.atc.sendCommandWithPrompt(cmd, part.pdu, "+CMGS", timeout ?? 60 * 1000, { signal, priority });
+			const [reference] = parseAtParams(getFirstLine(cmd, response).substring("+CMGS:".length));
+			references.push(Number(reference));
+		}
+		return references;
+	}
+
+	private async ensurePduMode(options: AtCommandQueueOptions) {
+		if (!this.pduMode)
+			await this.setPduMode(options);
+	}
+}
+
+function checkResponse(cmd: string, response: AtCommandResponse): AtCommandResponse {
+	if (!response.success)
+		throw new AtCommandError(`${cmd} failed: ${response.status}`, response.status);
+	return response;
+}
+
+function getFirstLine(cmd: string, response: AtCommandResponse): string {
+	checkResponse(cmd, response);
+	if (!response.lines.length)
+		throw new AtCommandError(`${cmd} returned empty response.`, response.status);
+	return response.lines[0];
+}
+
+/**
+ * Joins concatenated parts into messages, ordered by the index of the first part.
+ * Parts of incomplete messages are joined too, check the complete flag.
+ * */
+export function joinSmsParts(messages: AtSmsMessage[]): AtSmsJoinedMessage[] {
+	const result: AtSmsJoinedMessage[] = [];
+	const groups = new Map<string, { joined: AtSmsJoinedMessage, parts: { index: number, pdu: SmsDeliver | SmsSubmit }[] }>();
+	for (const { index, status, pdu } of [...messages].sort((a, b) => a.index - b.index)) {
+		if (pdu.type == "status-report" || !pdu.concat) {
+			result.push({ indexes: [index], status, pdu, complete: true });
+			continue;
+		}
+		const key = `${pdu.type}:${pdu.type == "deliver" ? pdu.sender : pdu.recipient}:${pdu.concat.ref}:${pdu.concat.total}`;
+		let group = groups.get(key);
+		if (!group) {
+			group = { joined: { indexes: [], status, pdu, complete: false }, parts: [] };
+			groups.set(key, group);
+			result.push(group.joined);
+		}
+		group.parts.push({ index, pdu });
+		if (status == "unread")
+			group.joined.status = "unread";
+	}
+
+	for (const { joined, parts } of groups.values()) {
+		parts.sort((a, b) => a.pdu.concat!.seq - b.pdu.concat!.seq);
+		joined.indexes = parts.map((part) => part.index);
+		joined.pdu = { ...parts[0].pdu, text: parts.map((part) => part.pdu.text).join("") };
+		joined.complete = new Set(parts.map((part) => part.pdu.concat!.seq)).size == parts[0].pdu.concat!.total;
+	}
+	return result;
+}
@@ -5,6 +5,8 @@ import { sprintf } from 'sprintf-js';
 import { decodeCString, usePromiseWithResolvers } from './utils.js';
 import { ioReadMemory, IoReadResult, IoReadWriteOptions } from "./io.js";
 import { BaseSerialProtocol } from "./BaseSerialProtocol.js";
+import { RingBuffer } from "./RingBuffer.js";
+import { SerialPortOwnershipError } from "./AsyncSerialPort.js";
 
 const debug = createDebug('bfc');
 const debugTrx = createDebug('bfc:trx');
@@ -120,15 +122,29 @@ export class BFC extends BaseSerialProtocol {
 	private mode = BfcTransportMode.NONE;
 	private authCache: Record<number, boolean> = {};
 	private frameReceivers: Record<number, BfcReceiver> = {};
-	private buffer = Buffer.alloc(0);
+	private readonly buffer = new RingBuffer();
+	private receivedBytes = 0;
 	private readonly handleSerialDataCallback = this.handleSerialData.bind(this);
-	private readonly handleSerialCloseCallback = this.handleSerialClose.bind(this);
+	private readonly handleSerialCloseCallback = () => {
+		this.handleLinkLost(new Error(`BFC connection closed.`));
+		this.handleSerialClose();
+	};
 	private readonly atc = new AtChannel(this.port);
 
+	/**
+	 * BFC and the internal AT channel share the port, the ownership is handed over explicitly:
+	 * NONE - port is released, AT - port is owned by the AT channel, BFC - port is owned by BFC.
+	 * */
 	private setTransportMode(mode: BfcTransportMode): void {
 		if (this.mode == mode)
 			return;
+
+		const owner = this.port.owner;
+		if (mode != BfcTransportMode.NONE && owner && owner !== this && owner !== this.atc)
+			throw new SerialPortOwnershipError(`Port is already used by ${owner.constructor.name}, can't use it from BFC.`);
+
 		this.mode = mode;
+		this.emit('modeChanged', BfcTransportMode[mode]);
 
 		switch (mode) {
 			case BfcTransportMode.NONE:
@@ -136,27 +152,31 @@ export class BFC extends BaseSerialProtocol {
 				this.port.off('data', this.handleSerialDataCallback);
 				this.port.off('close', this.handleSerialCloseCallback);
 				this.atc.stop();
-				this.buffer = Buffer.alloc(0);
+				this.port.release(this);
+				this.buffer.clear();
+				this.setConnected(false);
 			break;
 
 			case BfcTransportMode.AT:
 				debug(`Mode: AT`);
 				this.port.off('data', this.handleSerialDataCallback);
 				this.port.off('close', this.handleSerialCloseCallback);
+				this.port.release(this);
 				this.atc.start();
-				this.buffer = Buffer.alloc(0);
+				this.buffer.clear();
 			break;
 
 			case BfcTransportMode.BFC:
 				debug(`Mode: BFC`);
+				this.atc.stop();
+				this.port.acquire(this);
 				this.port.on('data', this.handleSerialDataCallback);
 				this.port.on('close', this.handleSerialCloseCallback);
-				this.atc.stop();
 			break;
 		}
 	}
 
-	private async findOpenedBfc(): Promise<number> {
+	private async findOpenedBfc(waitForReady = true): Promise<number> {
 		this.setTransportMode(BfcTransportMode.BFC);
 		for (const baudRate of SERIAL_BAUDRATES) {
 			debug(`Probing BFC at baudrate: ${baudRate}`);
@@ -165,7 +185,8 @@ export class BFC extends BaseSerialProtocol {
 			await this.sendFrame(DEFAULT_CHANNEL_ID, 0x02, BfcFrameTypes.STATUS, 0, [0x80, 0x11]);
 			await this.sendFrame(DEFAULT_CHANNEL_ID, 0x02, BfcFrameTypes.STATUS, 0, [0x80, 0x11]);
 			if (await this.ping(300)) {
-				await new Promise((resolve) => setTimeout(resolve, 2000)); // Wait for BFC is ready
+				if (waitForReady)
+					await new Promise((resolve) => setTimeout(resolve, 2000)); // Wait for BFC is ready
 				debug(`Phone is already in BFC mode!`);
 				return baudRate;
 			}
@@ -219,15 +240,26 @@ export class BFC extends BaseSerialProtocol {
 		if (!this.port?.isOpen)
 			throw new Error(`Serial port closed.`);
 
-		if (await this.trySwitchFromAtToBfc())
-			return;
-
-		if (await this.findOpenedBfc())
+		if (await this.trySwitchFromAtToBfc() || await this.findOpenedBfc()) {
+			this.setConnected(true);
 			return;
+		}
 
 		throw new Error(`Phone not found.`);
 	}
 
+	/**
+	 * Checks if the phone is already in the BFC mode without switching it from the AT mode.
+	 * Returns the working baudrate or 0.
+	 * */
+	async probe(): Promise<number> {
+		if (this.mode == BfcTransportMode.BFC)
+			throw new Error(`BFC already connected.`);
+		const baudRate = await this.findOpenedBfc(false);
+		this.setTransportMode(BfcTransportMode.NONE);
+		return baudRate;
+	}
+
 	async disconnect(): Promise<void> {
 		if (this.mode != BfcTransportMode.BFC)
 			return;
@@ -259,28 +291,24 @@ export class BFC extends BaseSerialProtocol {
 	}
 
 	private handleSerialData(data: Buffer): void {
-		this.buffer = Buffer.concat([this.buffer, data]);
+		this.receivedBytes += data.length;
+		this.buffer.write(data);
 
 		while (this.buffer.length >= 6) {
-			let pktStart = findPacketStartInBuffer(this.buffer);
+			const pktStart = findPacketStartInBuffer(this.buffer.peek());
 			if (pktStart == null) {
-				this.buffer = this.buffer.subarray(this.buffer.length - 5); // trim noise
+				this.buffer.skip(this.buffer.length - 5); // trim noise
 				continue;
 			}
 
-			if (pktStart > 0) { // trim noise
-				this.buffer = this.buffer.subarray(pktStart);
-				pktStart = 0;
-			}
+			if (pktStart > 0) // trim noise
+				this.buffer.skip(pktStart);
 
-			const pktLen = calcTotalPacketSize(this.buffer);
+			const pktLen = calcTotalPacketSize(this.buffer.peek(6));
 			if (this.buffer.length < pktLen)
 				break;
 
-			const pkt = this.buffer.subarray(0, pktLen);
-			this.buffer = this.buffer.subarray(pktLen);
-
-			void this.handleBfcPacket(pkt);
+			void this.handleBfcPacket(this.buffer.read(pktLen));
 		}
 	}
 
@@ -299,7 +327,9 @@ export class BFC extends BaseSerialProtocol {
 		if (debugTrx.enabled)
 			debugTrx(sprintf(`RX %02X >> %02X [CRC:%d, ACK:%d, TYPE:%02X] %s%s`, src, dst, crc, ack, frameType, payload.toString('hex'), ignored ? ` (ignored)` : ``));
 
+		this.stats.countRxFrame();
 		if ((frameFlags & BfcFrameFlags.CRC) && !checkPacketChecksum(pkt)) {
+			this.stats.countCrcError();
 			void this.handleReceiverResponse(src, dst, new Error(`Invalid CRC!`));
 			return;
 		}
@@ -331,6 +361,7 @@ export class BFC extends BaseSerialProtocol {
 		}
 
 		const timeoutId = setTimeout(() => {
+			this.stats.countTimeout();
 			this.handleReceiverResponse(src, dst, new Error(`BFC command ${src.toString(16)}:${dst.toString(16)} timeout.`));
 		}, timeout);
 
@@ -381,6 +412,7 @@ export class BFC extends BaseSerialProtocol {
 		if (validOptions.ack)
 			frameFlags |= BfcFrameFlags.ACK;
 
+		const start = performance.now();
 		try {
 			await this.sendFrame(src, dst, validOptions.type, frameFlags, payload);
 		} catch (err) {
@@ -391,7 +423,9 @@ export class BFC extends BaseSerialProtocol {
 			}
 		}
 
-		return (await promise) as T;
+		const response = (await promise) as T;
+		this.stats.addLatency(performance.now() - start);
+		return response;
 	}
 
 	async sendAuth(src: number, dst: number, timeout: number = 0): Promise<boolean> {
@@ -435,6 +469,7 @@ export class BFC extends BaseSerialProtocol {
 		if (debugTrx.enabled)
 			debugTrx(sprintf(`TX %02X >> %02X [CRC:%d, ACK:%d, TYPE:%02X] %s`, +src, +dst, crc, ack, frameType, payload.toString('hex')));
 
+		this.stats.countTxFrame();
 		await this.port.write(pkt);
 	}
 
@@ -470,8 +505,11 @@ export class BFC extends BaseSerialProtocol {
 		}
 
 		if (foundBestBaudrate) {
-			await new Promise((resolve) => setTimeout(resolve, 300));
+			// Wait until the phone stops talking at the old speed
+			await this.port.drain();
+			await this.waitForSilence(100);
 			await this.port.update({ baudRate: foundBestBaudrate });
+			this.buffer.clear();
 
 			for (let i = 0; i < 3; i++) {
 				debug(`ping...`);
@@ -482,7 +520,7 @@ export class BFC extends BaseSerialProtocol {
 			}
 
 			await this.port.update({ baudRate: prevBaudRate });
-			await new Promise((resolve) => setTimeout(resolve, 100));
+			await this.waitForSilence(100);
 
 			debug(`Failed to set new baudrate.`);
 			return false;
@@ -492,6 +530,20 @@ export class BFC extends BaseSerialProtocol {
 		}
 	}
 
+	/**
+	 * Drops the received data until the line is silent for the timeout.
+	 * Data goes to the 'data' listener, so port.discard() and port.flushInput() can't be used here.
+	 * */
+	private async waitForSilence(timeout: number, maxTime = 1000): Promise<void> {
+		const start = Date.now();
+		let received: number;
+		do {
+			received = this.receivedBytes;
+			await new Promise((resolve) => setTimeout(resolve, timeout));
+		} while (received != this.receivedBytes && Date.now() - start < maxTime);
+		this.buffer.clear();
+	}
+
 	async setPhoneBaudrate(baudRate: number): Promise<boolean> {
 		const payload = Buffer.concat([ Buffer.from([0x02]), Buffer.from(baudRate.toString()) ]);
 		const response = await this.exec(DEFAULT_CHANNEL_ID, 0x01, payload);
@@ -692,6 +744,7 @@ export class BFC extends BaseSerialProtocol {
 			align: 1,
 			maxRetries: 3,
 			read: this.readMemoryChunk.bind(this),
+			onRetry: () => this.stats.countRetry(),
 		}, address, length, options);
 	}
 
@@ -735,7 +788,7 @@ export class BFC extends BaseSerialProtocol {
 	}
 }
 
-function findPacketStartInBuffer(buffer: Buffer): number | undefined {
+export function findPacketStartInBuffer(buffer: Buffer): number | undefined {
 	let i = 0;
 	while (buffer.length - i >= 6) {
 		const chk = buffer[i] ^ buffer[i + 1] ^ buffer[i + 2] ^ buffer[i + 3] ^ buffer[i + 4];
@@ -746,14 +799,14 @@ function findPacketStartInBuffer(buffer: Buffer): number | undefined {
 	return undefined;
 }
 
-function checkPacketChecksum(pkt: Buffer): boolean {
+export function checkPacketChecksum(pkt: Buffer): boolean {
 	const payloadLen = pkt.readUInt16BE(2);
 	const pktCRC = pkt.readUInt16BE(6 + payloadLen);
 	const realCRC = crc16(pkt, 0, payloadLen + 6);
 	return pktCRC == realCRC;
 }
 
-function calcTotalPacketSize(pkt: Buffer): number {
+export function calcTotalPacketSize(pkt: Buffer): number {
 	let len = pkt.readUInt16BE(2) + 6;
 	if ((pkt[4] & BfcFrameFlags.CRC))
 		len += 2;
@@ -5,12 +5,12 @@ import { sprintf } from "sprintf-js";
 const IGNITION_ON_PERIOD = 50;
 const IGNITION_OFF_PERIOD = 150;
 
-const CPU_NAMES: Record<number, string> = {
+export const BSL_CPU_NAMES: Record<number, string> = {
 	0xB0:	'PMB8875 (SGold)',
 	0xC0:	'PMB8876 (SGold2)',
 };
 
-const CPU_TYPES: Record<number, string> = {
+export const BSL_CPU_TYPES: Record<number, string> = {
 	0xB0:	'sgold',
 	0xC0:	'sgold2',
 };
@@ -28,6 +28,8 @@ export enum BSLStatus {
 export type LoadBootCodeOptions = {
 	autoIgnition?: boolean;
 	autoIgnitionInvertPolarity?: boolean;
+	// Some service cables have ignition wired to RTS
+	ignitionSignal?: "dtr" | "rts";
 	signal?: AbortSignal | null;
 };
 
@@ -49,11 +51,13 @@ export async function loadBootCode(port: AsyncSerialPort, code: Buffer, options:
 	options = {
 		autoIgnition: true,
 		autoIgnitionInvertPolarity: false,
+		ignitionSignal: "dtr",
 		...options
 	};
 
 	await port.update({ baudRate: 115200 });
 
+	const ignitionSignal = options.ignitionSignal ?? "dtr";
 	let cpuType = 0;
 	let lastDtr = false;
 	let lastIgnition = 0;
@@ -67,9 +71,9 @@ export async function loadBootCode(port: AsyncSerialPort, code: Buffer, options:
 			if ((Date.now() - lastIgnition) >= ignitionTimeout) {
 				lastDtr = !lastDtr;
 				if (options.autoIgnitionInvertPolarity) {
-					await port.setSignals({ dtr: !lastDtr });
+					await port.setSignals({ [ignitionSignal]: !lastDtr });
 				} else {
-					await port.setSignals({ dtr: lastDtr });
+					await port.setSignals({ [ignitionSignal]: lastDtr });
 				}
 				lastIgnition = Date.now();
 			}
@@ -80,7 +84,7 @@ export async function loadBootCode(port: AsyncSerialPort, code: Buffer, options:
 		const response = await port.readByte(5);
 		if (response != -1 && (response == 0xB0 || response == 0xC0)) {
 			cpuType = response;
-			debug(`Detected CPU: ${CPU_NAMES[cpuType]}`);
+			debug(`Detected CPU: ${BSL_CPU_NAMES[cpuType]}`);
 			break;
 		}
 
@@ -88,9 +92,9 @@ export async function loadBootCode(port: AsyncSerialPort, code: Buffer, options:
 			debug(sprintf("Unexpected response: %02X", response));
 	}
 
-	await port.setSignals({ dtr: options.autoIgnitionInvertPolarity });
+	await port.setSignals({ [ignitionSignal]: options.autoIgnitionInvertPolarity });
 
-	const cpu = CPU_TYPES[cpuType];
+	const cpu = BSL_CPU_TYPES[cpuType];
 	let status: BSLStatus;
 	let error: string | undefined;
 
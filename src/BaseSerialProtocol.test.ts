@@ -0,0 +1,57 @@
+import { describe, expect, test } from 'vitest';
+import { createSerialPortPair } from './SerialPortPair.js';
+import { AtChannel } from './AtChannel.js';
+
+describe('BaseSerialProtocol events', () => {
+	test('should emit connection events', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+
+		const atc = new AtChannel(host);
+		const events: string[] = [];
+		atc.on('connected', () => events.push("connected"));
+		atc.on('disconnected', () => events.push("disconnected"));
+		atc.on('linkLost', (e) => events.push(`linkLost: ${e.message}`));
+
+		atc.start();
+		atc.stop();
+		expect(events).toEqual(["connected", "disconnected"]);
+
+		events.length = 0;
+		atc.start();
+		await host.close();
+		expect(events).toEqual(["connected", "linkLost: Serial port closed.", "disconnected"]);
+		expect(host.owner).toBeUndefined();
+
+		await device.close();
+	});
+});
+
+describe('BaseSerialProtocol stats', () => {
+	test('should count session traffic', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+		device.on('data', (data: Buffer) => {
+			if (data.toString().endsWith("AT\r"))
+				void device.write(Buffer.from("\r\nOK\r\n"));
+		});
+
+		await host.write("noise");
+		const atc = new AtChannel(host);
+		atc.start();
+		expect((await atc.sendCommandNoResponse("AT", 100)).success).toBe(true);
+		expect((await atc.sendCommandNoResponse("ATI", 20)).status).toBe("TIMEOUT");
+
+		const stats = atc.getStats();
+		expect(stats).toMatchObject({ txBytes: 7, rxBytes: 6, txFrames: 2, rxFrames: 1, timeouts: 1, crcErrors: 0, retries: 0 });
+		expect(stats.latency.count).toBe(1);
+		expect(stats.latency.histogram.reduce((sum, bucket) => sum + bucket.count, 0)).toBe(1);
+		expect(stats.latency.histogram.at(-1)?.le).toBe(Infinity);
+
+		atc.stop();
+		await host.close();
+		await device.close();
+	});
+});
@@ -1,13 +1,69 @@
-import { AsyncSerialPort } from "./AsyncSerialPort.js";
+import { EventEmitter } from "node:events";
+import { AsyncSerialPort, WriteCoalescingOptions } from "./AsyncSerialPort.js";
+import { LinkStats, LinkStatsSnapshot } from "./LinkStats.js";
 
-export class BaseSerialProtocol {
+export type SerialProtocolEvents = {
+	connected: [];
+	disconnected: [];
+	// Transport mode of the protocol, e.g. BFC: NONE, AT, BFC
+	modeChanged: [mode: string];
+	// Connection is lost without disconnect(), "disconnected" is emitted after it
+	linkLost: [error: Error];
+};
+
+export class BaseSerialProtocol extends EventEmitter<SerialProtocolEvents> {
 	protected readonly port: AsyncSerialPort;
+	protected readonly stats: LinkStats;
+	private connected = false;
+	private writeCoalescing: WriteCoalescingOptions | false = false;
+	private readonly handlePortCloseCallback = () => this.handleLinkLost(new Error("Serial port closed."));
 
 	constructor(port: AsyncSerialPort) {
+		super();
 		this.port = port;
+		this.stats = new LinkStats(port);
 	}
 
 	getSerialPort() {
 		return this.port;
 	}
+
+	// Link quality counters since the last connect
+	getStats(): LinkStatsSnapshot {
+		return this.stats.getStats();
+	}
+
+	// Opt-in batching of small writes while the protocol is connected, see AsyncSerialPort.setWriteCoalescing()
+	setWriteCoalescing(options: WriteCoalescingOptions | false): void {
+		this.writeCoalescing = options;
+		if (this.connected)
+			this.port.setWriteCoalescing(options);
+	}
+
+	protected setConnected(connected: boolean): void {
+		if (this.connected == connected)
+			return;
+		this.connected = connected;
+		if (connected) {
+			this.stats.reset();
+			this.port.on('close', this.handlePortCloseCallback);
+			if (this.writeCoalescing)
+				this.port.setWriteCoalescing(this.writeCoalescing);
+			this.emit('connected');
+		} else {
+			this.port.off('close', this.handlePortCloseCallback);
+			if (this.writeCoalescing)
+				this.port.setWriteCoalescing(false);
+			this.emit('disconnected');
+		}
+	}
+
+	protected handleLinkLost(error: Error): void {
+		if (!this.connected)
+			return;
+		this.emit('linkLost', error);
+		this.setConnected(false);
+		// The session is gone, the port can be used by other protocols
+		this.port.release(this);
+	}
 }
@@ -1,5 +1,6 @@
 import createDebug from 'debug';
-import { AtChannel, AtCommandResponse } from "./AtChannel.js";
+import { AtChannel } from "./AtChannel.js";
+import { AtDevice } from "./AtDevice.js";
 import { sprintf } from 'sprintf-js';
 import { retryAsync } from "./utils.js";
 import { ioReadMemory, IoReadResult, IoReadWriteOptions, ioWriteMemory, IoWriteResult } from "./io.js";
@@ -7,7 +8,10 @@ import { BaseSerialProtocol } from "./BaseSerialProtocol.js";
 
 const debug = createDebug('cgsn');
 
-const SERIAL_BAUD_RATES = [115200, 460800, 921600];
+export const CGSN_BAUD_RATES = [115200, 460800, 921600];
+
+// CGSN patch writes "CJKT" signature to this address
+const CGSN_PATCH_SIGNATURE_ADDR = 0xA000003C;
 
 /*
  * AT+CGSN:A0000000,00000008
@@ -69,6 +73,7 @@ export type CgsnGetMemoryRegionsResponse = CgsnBaseResponse<{
 
 export class CGSN extends BaseSerialProtocol {
 	private readonly atc: AtChannel = new AtChannel(this.port);
+	private readonly device = new AtDevice(this.atc);
 	private connectionType: string = "";
 	private isConnected = false;
 
@@ -77,7 +82,26 @@ export class CGSN extends BaseSerialProtocol {
 			await this.disconnect();
 
 		this.atc.start();
-		testBaudRates ||= SERIAL_BAUD_RATES;
+		try {
+			if (await this.findCgsn(testBaudRates || CGSN_BAUD_RATES)) {
+				this.setConnected(true);
+				return true;
+			}
+		} catch (e) {
+			this.atc.stop();
+			throw e;
+		}
+		// Don't hold the port when the phone is not found
+		this.atc.stop();
+		return false;
+	}
+
+	protected override handleLinkLost(error: Error): void {
+		this.isConnected = false;
+		super.handleLinkLost(error);
+	}
+
+	private async findCgsn(testBaudRates: number[]) {
 		for (const baudRate of testBaudRates) {
 			await this.port.update({ baudRate: baudRate });
 			if (await this.tryHandshake()) {
@@ -116,9 +140,7 @@ export class CGSN extends BaseSerialProtocol {
 	}
 
 	private async checkCgsnPatch() {
-		const response = await this.readMemory(0xA000003C, 4);
-		return response.success && response.buffer.equals(Buffer.from("CJKT"));
-
+		return await isCgsnPatchPresent(this.atc);
 	}
 
 	private async tryHandshake() {
@@ -143,23 +165,15 @@ export class CGSN extends BaseSerialProtocol {
 	}
 
 	private async getAvailableBaudRate(): Promise<number[]> {
-		const response = await retryAsync(async () => await this.atc.sendCommand("AT+IPR=?", "+IPR"), {
-			max: 3,
-			until: (response) => !response.success
-		});
-		if (response.success) {
-			if (!response.success) {
-				debug(`Can't get available baudrates: ${response.status}`);
-				return [];
-			}
-			const m = response.lines[0].match(/\(([0-9,]+)\)/);
-			if (!m) {
-				debug(`Invalid baudrates list: ${response.lines[0]}`);
-				return [];
+		let lastError: unknown;
+		for (let i = 0; i < 3; i++) {
+			try {
+				return await this.device.getSupportedBaudRates();
+			} catch (e) {
+				lastError = e;
 			}
-			return  m[1].split(/\s*,\s*/).map((v) => parseInt(v));
 		}
-		debug(`Can't get available baudrates: ${response.status}`);
+		debug(`Can't get available baudrates: ${lastError instanceof Error ? lastError.message : lastError}`);
 		return [];
 	}
 
@@ -281,6 +295,7 @@ export class CGSN extends BaseSerialProtocol {
 				pageSize: 512,
 				maxRetries: 3,
 				read: this.readMemoryChunk.bind(this),
+				onRetry: () => this.stats.countRetry(),
 			}, address, length, options);
 			return { success: true, ...result };
 		} catch (e) {
@@ -295,7 +310,8 @@ export class CGSN extends BaseSerialProtocol {
 				align: 4,
 				pageSize: 128,
 				maxRetries: 3,
-				write: this.writeMemoryChunk.bind(this)
+				write: this.writeMemoryChunk.bind(this),
+				onRetry: () => this.stats.countRetry(),
 			}, address, buffer, options);
 			return { success: true, ...result };
 		} catch (e) {
@@ -332,30 +348,32 @@ export class CGSN extends BaseSerialProtocol {
 	}
 
 	async getMemoryRegions(): Promise<CgsnGetMemoryRegionsResponse> {
-		const atc = this.getAtChannel();
-
-		let response: AtCommandResponse;
 		let model: string;
 		let vendor: string;
-		let svn: string;
+		let revision: string;
 
-		response = await atc.sendCommand("AT+CGMI");
-		if (!response.success)
+		try {
+			vendor = await this.device.getManufacturer();
+		} catch (e) {
 			return { success: false, error: `Can't get phone vendor.` };
-		vendor = response.lines[0];
+		}
 
-		response = await atc.sendCommand("AT+CGMM");
-		if (!response.success)
+		try {
+			model = await this.device.getModel();
+		} catch (e) {
 			return { success: false, error: `Can't get phone model.` };
-		model = response.lines[0];
+		}
 
-		response = await atc.sendCommand("AT+CGMR");
-		if (!response.success)
+		try {
+			revision = await this.device.getRevision();
+		} catch (e) {
 			return { success: false, error: `Can't get phone sw version.` };
-		const match = response.lines[0].match(/^\s*(\d+)/);
+		}
+
+		const match = revision.match(/^(\d+)/);
 		if (!match)
-			return { success: false, error: `Invalid phone sw version (${response.lines[0]}).` };
-		svn = match[0];
+			return { success: false, error: `Invalid phone sw version (${revision}).` };
+		const svn = match[1];
 
 		debug(`Detected phone ${vendor} ${model}v${svn}`);
 
@@ -426,5 +444,15 @@ export class CGSN extends BaseSerialProtocol {
 			await this.setBaudRate(115200);
 		this.atc.stop();
 		this.isConnected = false;
+		this.setConnected(false);
 	}
 }
+
+export async function isCgsnPatchPresent(atc: AtChannel, tries = 3): Promise<boolean> {
+	const cmd = sprintf("AT+CGSN:%08X,%08X", CGSN_PATCH_SIGNATURE_ADDR, 4);
+	const response = await retryAsync(async () => await atc.sendCommandBinaryResponse(cmd, 5, 1000), {
+		max: tries,
+		until: (response) => !response.success
+	});
+	return response.success && response.binary![0] == 0xA1 && response.binary!.subarray(1).equals(Buffer.from("CJKT"));
+}
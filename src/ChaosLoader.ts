@@ -22,7 +22,7 @@ const WRITE_PAGE_SIZE_MIN				= 0x80; // 128
 const WRITE_PAGE_SIZE_TRY_COUNT			= 5;
 const WRITE_BIG_PAGE_SIZE_TRY_COUNT		= 2;
 
-enum RESPONSES {
+export enum ChaosResponse {
 	HELLO					= 0xA5,
 	PONG					= 0x52,
 	BAUDRATE_WAIT_FOR_ACK	= 0x68,
@@ -31,7 +31,7 @@ enum RESPONSES {
 	CHECKSUM_ERROR			= 0xBBBB,
 }
 
-enum CMD {
+export enum ChaosCommand {
 	PING				= 0x41, // A
 	SET_BAUDRATE		= 0x48, // H
 	SET_BAUDRATE_ACK	= 0x41, // A
@@ -45,7 +45,7 @@ enum CMD {
 	HEARTBEAT			= 0x2E, // .
 }
 
-const BAUDRATES: Record<number, number> = {
+export const CHAOS_BAUDRATES: Record<number, number> = {
 	57600:		0,
 	115200:		1,
 	230400:		2,
@@ -89,10 +89,22 @@ export class ChaosLoader extends BaseSerialProtocol {
 	private pageReadWriteStart: number = 0;
 
 	static getSupportedBaudrates(): number[] {
-		return Object.keys(BAUDRATES).map(parseInt);
+		return Object.keys(CHAOS_BAUDRATES).map(parseInt);
 	}
 
 	async connect(options: LoadBootCodeOptions = {}): Promise<void> {
+		this.port.acquire(this);
+		try {
+			await this.boot(options);
+		} catch (e) {
+			this.port.release(this);
+			throw e;
+		}
+		this.setConnected(true);
+		this.startHeartbeatTimer();
+	}
+
+	private async boot(options: LoadBootCodeOptions): Promise<void> {
 		const bootStatus = await loadBootCode(this.port, CHAOS_BOOT_CODE, options);
 		if (!bootStatus.success)
 			throw new ChaosLoaderError(bootStatus.error);
@@ -102,12 +114,11 @@ export class ChaosLoader extends BaseSerialProtocol {
 		const ack = await this.port.readByte(1000);
 		if (ack == -1) {
 			throw new ChaosLoaderError("Timeout, chaos is not responding.");
-		} else if (ack != RESPONSES.HELLO) {
+		} else if (ack != ChaosResponse.HELLO) {
 			throw new ChaosLoaderError(sprintf("Invalid chaos ACK: %02X", ack));
 		}
 
 		debug("Chaos loader is OK");
-		this.startHeartbeatTimer();
 	}
 
 	private startHeartbeatTimer(): void {
@@ -123,14 +134,14 @@ export class ChaosLoader extends BaseSerialProtocol {
 	}
 
 	private async heartbeat(): Promise<void> {
-		await this.port.write(Buffer.from([CMD.HEARTBEAT]));
+		await this.port.write(Buffer.from([ChaosCommand.HEARTBEAT]));
 	}
 
 	async activate(): Promise<void> {
 		if (!await this.ping())
 			throw new ChaosLoaderError(`ERROR: Can't activate chaos loader!`);
 
-		await this.port.write(Buffer.from([CMD.GET_INFO]));
+		await this.port.write(Buffer.from([ChaosCommand.GET_INFO]));
 
 		const response = await this.port.read(128, 1000);
 		if (!response)
@@ -209,30 +220,32 @@ export class ChaosLoader extends BaseSerialProtocol {
 
 		this.stopHeartbeatTimer();
 
-		if (!(baudRate in BAUDRATES))
+		if (!(baudRate in CHAOS_BAUDRATES))
 			throw new ChaosLoaderError(`Baudrate ${baudRate} is not supported!`);
 
 		debug(`Setting new baudrate: ${baudRate}`);
-		const baudrateIndex = BAUDRATES[baudRate];
+		const baudrateIndex = CHAOS_BAUDRATES[baudRate];
 
 		// Request new baudrate
-		await this.port.write(Buffer.from([CMD.SET_BAUDRATE, baudrateIndex]));
+		await this.port.flushInput();
+		await this.port.write(Buffer.from([ChaosCommand.SET_BAUDRATE, baudrateIndex]));
 		response = await this.port.readByte(100);
 		if (response == -1) {
 			throw new ChaosLoaderError(`setSpeed(${baudRate}): response timeout! (old speed)`);
-		} else if (response != RESPONSES.BAUDRATE_WAIT_FOR_ACK) {
+		} else if (response != ChaosResponse.BAUDRATE_WAIT_FOR_ACK) {
 			throw new ChaosLoaderError(`setSpeed(${baudRate}): invalid ACK 0x${response.toString(16)}`);
 		}
 
 		// Change port baudrate
+		await this.port.flushInput();
 		await this.port.update({ baudRate: baudRate });
 
 		// Check if new baudrate is working
-		await this.port.write(Buffer.from([CMD.SET_BAUDRATE_ACK, baudrateIndex]));
+		await this.port.write(Buffer.from([ChaosCommand.SET_BAUDRATE_ACK, baudrateIndex]));
 		response = await this.port.readByte(100);
 		if (response == -1) {
 			throw new ChaosLoaderError(`setSpeed(${baudRate}): response timeout! (new speed)`);
-		} else if (response != RESPONSES.BAUDRATE_CHANGED) {
+		} else if (response != ChaosResponse.BAUDRATE_CHANGED) {
 			throw new ChaosLoaderError(`setSpeed(${baudRate}): invalid ACK 0x${response.toString(16)}`);
 		}
 
@@ -249,7 +262,7 @@ export class ChaosLoader extends BaseSerialProtocol {
 			throw new ChaosLoaderError(`Size ${sprintf("%08X", size)} is not aligned by 8.`);
 
 		const cmd = Buffer.alloc(9);
-		cmd.writeUInt8(CMD.TEST);
+		cmd.writeUInt8(ChaosCommand.TEST);
 		cmd.writeUInt32BE(addr, 1);
 		cmd.writeUInt32BE(size, 5);
 		await this.port.write(cmd);
@@ -277,6 +290,7 @@ export class ChaosLoader extends BaseSerialProtocol {
 			maxRetries: 0xFFFFFFFF,
 			write: this.writeMemoryPage.bind(this),
 			onError: this.onReadWriteError.bind(this),
+			onRetry: () => this.stats.countRetry(),
 			align: 1,
 			pageSize: WRITE_PAGE_SIZE_START,
 			adaptivePageSize: {
@@ -302,25 +316,31 @@ export class ChaosLoader extends BaseSerialProtocol {
 			chk ^= buffer[i];
 
 		const cmd = Buffer.alloc(buffer.length + 10);
-		cmd.writeUInt8(CMD.WRITE_RAM, 0);
+		cmd.writeUInt8(ChaosCommand.WRITE_RAM, 0);
 		cmd.writeUInt32BE(addr, 1);
 		cmd.writeUInt32BE(buffer.length, 5);
 		buffer.copy(cmd, 9);
 		cmd.writeUInt8(chk, cmd.length - 1);
 
+		this.stats.countTxFrame();
 		await this.port.write(cmd);
 
 		const response = await this.port.read(2, WRITE_PAGE_TIMEOUT);
 		if (!response) {
+			this.stats.countTimeout();
 			throw new ChaosLoaderError(`Memory write timeout!`);
 		} else if (response.length != 2) {
 			throw new ChaosLoaderError(`Received unexpected bytes count (expected: 2, received: ${response.length})`);
 		}
 
+		this.stats.countRxFrame();
+		this.stats.addLatency(Date.now() - this.pageReadWriteStart);
+
 		const status = response.readUInt16LE(0);
-		if (status == RESPONSES.CHECKSUM_ERROR) {
+		if (status == ChaosResponse.CHECKSUM_ERROR) {
+			this.stats.countCrcError();
 			throw new ChaosLoaderError(`Written data is corrupted`);
-		} else if (status != RESPONSES.OK) {
+		} else if (status != ChaosResponse.OK) {
 			throw new ChaosLoaderError(sprintf(`Invalid response: %04X`, status));
 		}
 	}
@@ -336,6 +356,7 @@ export class ChaosLoader extends BaseSerialProtocol {
 			maxRetries: 0xFFFFFFFF,
 			read: this.readMemoryPage.bind(this),
 			onError: this.onReadWriteError.bind(this),
+			onRetry: () => this.stats.countRetry(),
 			align: 1,
 			pageSize: READ_PAGE_SIZE_START,
 			adaptivePageSize: {
@@ -357,22 +378,27 @@ export class ChaosLoader extends BaseSerialProtocol {
 		this.pageReadWriteStart = Date.now();
 
 		const cmd = Buffer.alloc(9);
-		cmd.writeUInt8(CMD.READ_FLASH, 0);
+		cmd.writeUInt8(ChaosCommand.READ_FLASH, 0);
 		cmd.writeUInt32BE(addr, 1);
 		cmd.writeUInt32BE(size, 5);
+		this.stats.countTxFrame();
 		await this.port.write(cmd);
 
 		const response = await this.port.read(size + 4, READ_PAGE_TIMEOUT);
 		if (!response) {
+			this.stats.countTimeout();
 			throw new ChaosLoaderError(`Flash read timeout!`);
 		} else if (response.length != size + 4) {
 			throw new ChaosLoaderError(`Received unexpected bytes count (expected: ${size + 5}, received: ${response.length})`);
 		}
 
+		this.stats.countRxFrame();
+		this.stats.addLatency(Date.now() - this.pageReadWriteStart);
+
 		const status = response.readUInt16LE(size);
 		const receivedChk = response.readUInt16LE(size + 2);
 
-		if (status != RESPONSES.OK)
+		if (status != ChaosResponse.OK)
 			throw new ChaosLoaderError(sprintf(`Invalid response: %04X`, status));
 
 		let chk = 0;
@@ -380,6 +406,7 @@ export class ChaosLoader extends BaseSerialProtocol {
 			chk ^= response[i];
 
 		if (chk != receivedChk) {
+			this.stats.countCrcError();
 			throw new ChaosLoaderError(sprintf(`Received data is corrupted (CHK %04X != %04X)`, receivedChk, chk));
 		}
 
@@ -401,8 +428,11 @@ export class ChaosLoader extends BaseSerialProtocol {
 
 		this.stopHeartbeatTimer();
 
-		if (!phoneIsAlive)
-			throw new ChaosLoaderError("Phone connection is lost!");
+		if (!phoneIsAlive) {
+			const error = new ChaosLoaderError("Phone connection is lost!");
+			this.handleLinkLost(error);
+			throw error;
+		}
 	}
 
 	getPhoneInfo(): ChaosPhoneInfo {
@@ -413,12 +443,13 @@ export class ChaosLoader extends BaseSerialProtocol {
 
 	async ping(): Promise<boolean> {
 		this.stopHeartbeatTimer();
-		await this.port.write(Buffer.from([CMD.PING]));
+		await this.port.write(Buffer.from([ChaosCommand.PING]));
 		const pingResponse = await this.port.readByte(100);
-		if (pingResponse == RESPONSES.PONG) {
+		if (pingResponse == ChaosResponse.PONG) {
 			this.startHeartbeatTimer();
 			return true;
 		} else if (pingResponse == -1) {
+			this.stats.countTimeout();
 			debug("ERROR: ping response timeout.");
 		} else {
 			debug(sprintf(`ERROR: invalid ping response: %02X`, pingResponse));
@@ -429,6 +460,11 @@ export class ChaosLoader extends BaseSerialProtocol {
 
 	async disconnect(): Promise<void> {
 		this.stopHeartbeatTimer();
-		await this.port.write(Buffer.from([CMD.QUIT]));
+		try {
+			await this.port.write(Buffer.from([ChaosCommand.QUIT]));
+		} finally {
+			this.port.release(this);
+			this.setConnected(false);
+		}
 	}
 }
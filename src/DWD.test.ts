@@ -1,5 +1,6 @@
 import { describe, expect, test } from 'vitest';
-import { encapsulateDWDtoAT } from "./DWD.js";
+import { decapsulateATtoDWD, DWD, encapsulateDWDtoAT } from "./DWD.js";
+import { createSerialPortPair } from './SerialPortPair.js';
 
 describe('escapeBytes', () => {
 	test('should correctly escape provided examples', () => {
@@ -36,3 +37,80 @@ describe('escapeBytes', () => {
 		});
 	});
 });
+
+describe('decapsulateATtoDWD', () => {
+	test('should restore escaped bytes', () => {
+		const inputs = [
+			"76 00 1E 00 0D 0C 00 A0",
+			"76 00 1E 00 0C 0C 0D A0",
+			"76 00 1E 00 0D 0D 0C A0",
+			"54 00",
+		];
+		inputs.forEach((input) => {
+			const inputBuffer = Buffer.from(input.replace(/\s+/g, ""), "hex");
+			const encapsulated = encapsulateDWDtoAT(inputBuffer);
+			expect(decapsulateATtoDWD(Buffer.concat([encapsulated, Buffer.from("AT")]))).toEqual({
+				frame: inputBuffer,
+				size: encapsulated.length
+			});
+		});
+	});
+
+	test('should return undefined for incomplete or foreign data', () => {
+		expect(decapsulateATtoDWD(Buffer.from("41542301127600", "hex"))).toBeUndefined();
+		expect(decapsulateATtoDWD(Buffer.from("ATZ\r"))).toBeUndefined();
+	});
+});
+
+describe('DWD port ownership', () => {
+	test('should release the port after bruteforce', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+
+		// Phone doesn't answer
+		const dwd = new DWD(host);
+		expect(await dwd.bruteforceKey2({ from: 0, to: 0, timeout: 5 })).toEqual([]);
+		expect(host.owner).toBeUndefined();
+		await expect(dwd.bruteforceKey1(0x1234)).rejects.toThrow();
+		expect(host.owner).toBeUndefined();
+
+		await host.close();
+		await device.close();
+	});
+
+	test('should release the port on link loss', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+
+		// Answers the handshake with keyRotate=0 for the zero keys
+		device.on('data', async (data: Buffer) => {
+			const frame = decapsulateATtoDWD(data)?.frame;
+			if (!frame || frame.length < 2)
+				return;
+			const frameId = frame.readUInt16LE(0);
+			if (frameId == 0x58) { // CONNECT1_REQ
+				const rand1 = frame.readUInt16LE(2);
+				const rand2 = frame.readUInt16LE(6);
+				const response = Buffer.alloc(10);
+				response.writeUInt16LE(0x57, 0); // CONNECT1_RESP
+				response.writeUInt16LE((rand1 * 8 - rand2 ^ 0xD427) & 0xFFFF, 4);
+				response.writeUInt16LE(rand2, 6);
+				response.writeUInt16LE(0x7F39, 8);
+				await device.write(response);
+			} else if (frameId == 0x59) { // CONNECT2_REQ
+				await device.write(Buffer.from([0x56, 0x00, 0x00, 0x00])); // CONNECT2_RESP without body
+			}
+		});
+
+		const dwd = new DWD(host);
+		dwd.setKeys({ key1: Buffer.alloc(16), key2: 0, key3: Buffer.alloc(16), key4: 0 });
+		await dwd.connect();
+		expect(host.owner).toBe(dwd);
+		await host.close();
+		expect(host.owner).toBeUndefined();
+
+		await device.close();
+	});
+});
@@ -135,6 +135,17 @@ export class DWD extends BaseSerialProtocol {
 	}
 
 	async connect() {
+		this.port.acquire(this);
+		try {
+			await this.handshake();
+		} catch (e) {
+			this.port.release(this);
+			throw e;
+		}
+		this.setConnected(true);
+	}
+
+	private async handshake() {
 		if (this.keys === DWD_KEYS["auto"]) {
 			let lastError: unknown | undefined;
 			for (const keyName in DWD_KEYS) {
@@ -143,7 +154,7 @@ export class DWD extends BaseSerialProtocol {
 				debug(`Trying key: ${keyName}`);
 				try {
 					this.setKeys(keyName);
-					await this.connect();
+					await this.handshake();
 					debug(`Key found: ${keyName}`);
 					return;
 				} catch (e) {
@@ -167,7 +178,12 @@ export class DWD extends BaseSerialProtocol {
 
 	async disconnect() {
 		debug("Disabling V24 mode");
-		await this.setV24(false);
+		try {
+			await this.setV24(false);
+		} finally {
+			this.port.release(this);
+			this.setConnected(false);
+		}
 	}
 
 	async getSWVersion() {
@@ -259,7 +275,8 @@ export class DWD extends BaseSerialProtocol {
 			pageSize: MAX_MEMORY_READ_CHUNK,
 			align: 1,
 			maxRetries: 3,
-			read: this.readMemoryChunk.bind(this)
+			read: this.readMemoryChunk.bind(this),
+			onRetry: () => this.stats.countRetry(),
 		}, address, length, options)
 	}
 
@@ -269,7 +286,8 @@ export class DWD extends BaseSerialProtocol {
 			align: 1,
 			pageSize: MAX_MEMORY_WRITE_CHUNK,
 			maxRetries: 3,
-			write: this.writeMemoryChunk.bind(this)
+			write: this.writeMemoryChunk.bind(this),
+			onRetry: () => this.stats.countRetry(),
 		}, address, buffer, options);
 	}
 
@@ -307,109 +325,125 @@ export class DWD extends BaseSerialProtocol {
 	}
 
 	async bruteforceKey2(options: BruteforceKey2Options = {}): Promise<number[]> {
-		await this.setV24(true);
-
-		const validOptions = {
-			progressInterval: 100,
-			timeout: 10,
-			from: 0x0000,
-			to: 0xFFFF,
-			...options
-		};
+		return this.withPortOwnership(async () => {
+			await this.setV24(true);
+
+			const validOptions = {
+				progressInterval: 100,
+				timeout: 10,
+				from: 0x0000,
+				to: 0xFFFF,
+				...options
+			};
+
+			const dummyKeys = {
+				key1: Buffer.from("00000000000000000000000000000000", "hex"),
+				key2: 0x0000,
+				key3: Buffer.from("00000000000000000000000000000000", "hex"),
+				key4: 0x0000,
+			};
+
+			const progress = ioProgressTracker({
+				progressInterval: validOptions.progressInterval,
+				onProgress: validOptions.onProgress,
+				total: 0xFFFF
+			});
+
+			const possibleKeys: number[] = [];
+			for (let key2 = validOptions.from; key2 <= validOptions.to; key2++) {
+				if (validOptions.signal?.aborted) {
+					debug("Bruteforce canceled by user.");
+					break;
+				}
 
-		const dummyKeys = {
-			key1: Buffer.from("00000000000000000000000000000000", "hex"),
-			key2: 0x0000,
-			key3: Buffer.from("00000000000000000000000000000000", "hex"),
-			key4: 0x0000,
-		};
+				progress.report(key2);
 
-		const progress = ioProgressTracker({
-			progressInterval: validOptions.progressInterval,
-			onProgress: validOptions.onProgress,
-			total: 0xFFFF
-		});
-
-		const possibleKeys: number[] = [];
-		for (let key2 = validOptions.from; key2 <= validOptions.to; key2++) {
-			if (validOptions.signal?.aborted) {
-				debug("Bruteforce canceled by user.");
-				break;
+				dummyKeys.key2 = key2;
+				debug.enabled && debug(sprintf("Trying key2=%04X...", dummyKeys.key2));
+				try {
+					await this.connect1(dummyKeys, validOptions.timeout, false);
+					debug.enabled && debug(sprintf("Key2 found: %04X", key2));
+					options.onKeyFound && options.onKeyFound(key2);
+					possibleKeys.push(key2);
+				} catch (e) { }
 			}
 
-			progress.report(key2);
-
-			dummyKeys.key2 = key2;
-			debug.enabled && debug(sprintf("Trying key2=%04X...", dummyKeys.key2));
-			try {
-				await this.connect1(dummyKeys, validOptions.timeout, false);
-				debug.enabled && debug(sprintf("Key2 found: %04X", key2));
-				options.onKeyFound && options.onKeyFound(key2);
-				possibleKeys.push(key2);
-			} catch (e) { }
-		}
-
-		progress.stop();
+			progress.stop();
 
-		return possibleKeys;
+			return possibleKeys;
+		});
 	}
 
 	async bruteforceKey1(key2: number, options: BruteforceKey1Options = {}): Promise<DWDKeys | undefined> {
-		await this.setV24(true);
-
-		const validOptions = {
-			progressInterval: 100,
-			...options
-		};
+		return this.withPortOwnership(async () => {
+			await this.setV24(true);
+
+			const validOptions = {
+				progressInterval: 100,
+				...options
+			};
+
+			const dummyKeys = {
+				key1: Buffer.from("00000000000000000000000000000000", "hex"),
+				key2,
+				key3: Buffer.from("00000000000000000000000000000000", "hex"),
+				key4: 0x0000,
+			};
+			const foundOffsets: Record<number, boolean> = {};
+
+			const progress = ioProgressTracker({
+				progressInterval: validOptions.progressInterval,
+				onProgress: validOptions.onProgress,
+				total: 16
+			});
+
+			while (Object.keys(foundOffsets).length < 16) {
+				if (validOptions.signal?.aborted) {
+					debug("Bruteforce canceled by user.");
+					return undefined;
+				}
 
-		const dummyKeys = {
-			key1: Buffer.from("00000000000000000000000000000000", "hex"),
-			key2,
-			key3: Buffer.from("00000000000000000000000000000000", "hex"),
-			key4: 0x0000,
-		};
-		const foundOffsets: Record<number, boolean> = {};
+				const { keyRotate, chk2 } = await this.connect1(dummyKeys, 300, false);
+				if (foundOffsets[keyRotate])
+					continue;
 
-		const progress = ioProgressTracker({
-			progressInterval: validOptions.progressInterval,
-			onProgress: validOptions.onProgress,
-			total: 16
-		});
+				const key3 = 0;
+				for (let key1 = 0; key1 <= 0xFF; key1++) {
+					const newChk2 = ((key1 << 4) ^ ((key3 << 3) ^ 0x7F39)) & 0xFFFF;
+					if (chk2 == newChk2) {
+						dummyKeys.key1[keyRotate] = key1;
+						foundOffsets[keyRotate] = true;
+						debug(sprintf("Found key1[%d] = %02X", keyRotate, key1));
+						break;
+					}
+				}
 
-		while (Object.keys(foundOffsets).length < 16) {
-			if (validOptions.signal?.aborted) {
-				debug("Bruteforce canceled by user.");
-				return undefined;
-			}
+				progress.report(Object.keys(foundOffsets).length);
 
-			const { keyRotate, chk2 } = await this.connect1(dummyKeys, 300, false);
-			if (foundOffsets[keyRotate])
-				continue;
-
-			const key3 = 0;
-			for (let key1 = 0; key1 <= 0xFF; key1++) {
-				const newChk2 = ((key1 << 4) ^ ((key3 << 3) ^ 0x7F39)) & 0xFFFF;
-				if (chk2 == newChk2) {
-					dummyKeys.key1[keyRotate] = key1;
-					foundOffsets[keyRotate] = true;
-					debug(sprintf("Found key1[%d] = %02X", keyRotate, key1));
-					break;
+				if (!foundOffsets[keyRotate]) {
+					debug("Invalid key2.");
+					return undefined;
 				}
 			}
 
-			progress.report(Object.keys(foundOffsets).length);
+			progress.stop();
 
-			if (!foundOffsets[keyRotate]) {
-				debug("Invalid key2.");
-				return undefined;
-			}
-		}
+			debug(sprintf("Found key1=%s, key2=%04X", dummyKeys.key1.toString("hex"), dummyKeys.key2));
 
-		progress.stop();
-
-		debug(sprintf("Found key1=%s, key2=%04X", dummyKeys.key1.toString("hex"), dummyKeys.key2));
+			return dummyKeys;
+		});
+	}
 
-		return dummyKeys;
+	// The port is taken for the bruteforce and given back, unless the connected session already owns it
+	private async withPortOwnership<T>(callback: () => Promise<T>): Promise<T> {
+		const owned = this.port.owner === this;
+		this.port.acquire(this);
+		try {
+			return await callback();
+		} finally {
+			if (!owned)
+				this.port.release(this);
+		}
 	}
 
 	async setV24(flag: boolean): Promise<void> {
@@ -419,7 +453,7 @@ export class DWD extends BaseSerialProtocol {
 		]);
 		debug.enabled && debug(sprintf(`[TX] %s`, hexdump(cmd)));
 		await this.port.write(cmd);
-		await this.port.read(32, 20);
+		await this.port.discard(20);
 	}
 
 	private async connect1(keys: DWDKeys, timeout: number = 100, enableChk2: boolean = true): Promise<{ keyRotate: number, chk1: number, chk2: number }> {
@@ -472,14 +506,18 @@ export class DWD extends BaseSerialProtocol {
 
 		debugTrx.enabled && debugTrx(sprintf(`[TX] %s`, hexdump(request)));
 
+		const start = performance.now();
+		this.stats.countTxFrame();
 		await this.port.write(encapsulateDWDtoAT(request));
 		const expectedResponseLength = FRAME_SIZE[responseFrameId];
 		if (expectedResponseLength == -1) {
 			return Buffer.alloc(0);
 		} else if (expectedResponseLength == 0) {
 			const frameHeader = await this.port.read(4, timeout);
-			if (!frameHeader)
+			if (!frameHeader) {
+				this.stats.countTimeout();
 				throw new DWDTimeoutError("DWD command timeout! (header)");
+			}
 
 			const receivedResponseFrameId = frameHeader.readUInt16LE(0);
 			if (receivedResponseFrameId != responseFrameId) {
@@ -490,10 +528,14 @@ export class DWD extends BaseSerialProtocol {
 
 			const expectedResponseLength = frameHeader.readUInt16LE(2);
 			const frameBody = await this.port.read(expectedResponseLength, timeout);
-			if (!frameBody)
+			if (!frameBody) {
+				this.stats.countTimeout();
 				throw new DWDTimeoutError("DWD command (%04X) timeout! (body)", requestFrameId);
+			}
 
 			debugTrx.enabled && debugTrx(sprintf(`[RX] %s %s`, hexdump(frameHeader), hexdump(frameBody)));
+			this.stats.countRxFrame();
+			this.stats.addLatency(performance.now() - start);
 			if (frameBody.length != expectedResponseLength) {
 				throw new DWDError(sprintf("Invalid DWD command (%04X) response frame (%04X) length! (expected: %d, received: %d)",
 					requestFrameId, responseFrameId, expectedResponseLength, frameBody.length));
@@ -502,9 +544,13 @@ export class DWD extends BaseSerialProtocol {
 			return Buffer.concat([frameHeader, frameBody]);
 		} else {
 			const response = await this.port.read(expectedResponseLength, timeout);
-			if (!response)
+			if (!response) {
+				this.stats.countTimeout();
 				throw new DWDTimeoutError("DWD command (%04X) timeout! (body)", requestFrameId);
+			}
 			debugTrx.enabled && debugTrx(sprintf(`[RX] %s`, hexdump(response)));
+			this.stats.countRxFrame();
+			this.stats.addLatency(performance.now() - start);
 
 			const receivedResponseFrameId = response.readUInt16LE(0);
 			if (receivedResponseFrameId != responseFrameId) {
@@ -538,3 +584,25 @@ export function encapsulateDWDtoAT(input: Buffer): Buffer {
 		Buffer.from("\r"),
 	]);
 }
+
+export function decapsulateATtoDWD(input: Buffer): { frame: Buffer, size: number } | undefined {
+	if (input.length < 4 || input[0] != 0x41 || input[1] != 0x54 || input[2] != 0x23)
+		return undefined;
+	const dataStart = 4 + input[3];
+	const dataEnd = input.indexOf(0x0D, dataStart);
+	if (dataEnd < 0)
+		return undefined;
+	const frame = Buffer.from(input.subarray(dataStart, dataEnd));
+	for (const position of input.subarray(4, dataStart)) {
+		const index = position - 14;
+		if (index >= 0 && index < frame.length)
+			frame[index] = 0x0D;
+	}
+	return { frame, size: dataEnd + 1 };
+}
+
+export function getDWDFrameInfo(frameId: number): { name: string, size: number } | undefined {
+	if (frameId == FrameType.NO_RESP || !(frameId in FRAME_SIZE))
+		return undefined;
+	return { name: FrameType[frameId], size: FRAME_SIZE[frameId as FrameType] };
+}
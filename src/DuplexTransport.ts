@@ -0,0 +1,103 @@
+import { EventEmitter } from "node:events";
+import type { Duplex } from "node:stream";
+import type { SerialInputSignals } from "./AsyncSerialPort.js";
+import type { SerialTransport, SerialTransportEvents, SerialTransportSettings } from "./SerialTransport.js";
+
+/**
+ * Transport for plain Node duplex streams (sockets, child process stdio, in-memory pairs).
+ * There are no control lines and baudrate changes are only recorded.
+ * The stream can't be reopened after close().
+ * */
+export class DuplexTransport extends EventEmitter<SerialTransportEvents> implements SerialTransport {
+	readonly stream: Duplex;
+	readonly settings: SerialTransportSettings;
+	private opened = false;
+	private closing = false;
+	private paused = false;
+
+	constructor(stream: Duplex, settings: Partial<SerialTransportSettings> = {}) {
+		super();
+		this.stream = stream;
+		this.settings = { path: "duplex", baudRate: 115200, ...settings };
+		this.stream.on("data", (data: Buffer) => this.emit("data", data));
+		this.stream.on("end", () => this.emit("end"));
+		this.stream.on("error", (err: Error) => this.emit("error", err));
+		this.stream.on("close", () => {
+			if (!this.opened)
+				return;
+			this.opened = false;
+			this.emit("close", this.closing ? undefined : new Error("Stream is closed."));
+		});
+		// Keep data until open()
+		this.stream.pause();
+	}
+
+	get isOpen(): boolean {
+		return this.opened;
+	}
+
+	async open(): Promise<void> {
+		if (this.opened)
+			return;
+		if (this.stream.destroyed)
+			throw new Error("Stream is closed, it can't be reopened.");
+		this.opened = true;
+		if (!this.paused)
+			this.stream.resume();
+		this.emit("open");
+	}
+
+	async close(): Promise<void> {
+		if (!this.opened)
+			return;
+		this.closing = true;
+		try {
+			await new Promise<void>((resolve) => {
+				this.stream.once("close", () => resolve());
+				this.stream.end(() => this.stream.destroy());
+			});
+		} finally {
+			this.closing = false;
+		}
+	}
+
+	write(data: Buffer): Promise<void> {
+		return new Promise((resolve, reject) => this.stream.write(data, (err) => err ? reject(err) : resolve()));
+	}
+
+	drain(): Promise<void> {
+		// The callback is called when all previous writes are flushed
+		return this.write(Buffer.alloc(0));
+	}
+
+	async flush(): Promise<void> {
+		// No OS buffers
+	}
+
+	async update(settings: { baudRate: number }): Promise<void> {
+		this.settings.baudRate = settings.baudRate;
+	}
+
+	async setSignals(): Promise<void> {
+		// No control lines
+	}
+
+	async getSignals(): Promise<SerialInputSignals | undefined> {
+		return undefined;
+	}
+
+	pause(): void {
+		this.paused = true;
+		this.stream.pause();
+	}
+
+	resume(): void {
+		this.paused = false;
+		if (this.opened)
+			this.stream.resume();
+	}
+
+	isPaused(): boolean {
+		return this.paused;
+	}
+}
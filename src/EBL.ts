@@ -6,7 +6,7 @@ import { BaseSerialProtocol } from "./BaseSerialProtocol.js";
 
 const debug = createDebug('ebl');
 
-enum CMD {
+export enum EBLCommand {
 	SET_EBU_CONFIG	= 0x801,
 	SET_BAUDRATE	= 0x82,
 	CFI_STAGE1		= 0x84,
@@ -51,6 +51,17 @@ export class EBL extends BaseSerialProtocol {
 	}
 
 	async connect(options: LoadBootCodeOptions = {}): Promise<void> {
+		this.port.acquire(this);
+		try {
+			await this.boot(options);
+		} catch (e) {
+			this.port.release(this);
+			throw e;
+		}
+		this.setConnected(true);
+	}
+
+	private async boot(options: LoadBootCodeOptions): Promise<void> {
 		const bootStatus = await loadBootCode(this.port, Buffer.from([0x00F020E3, 0xFDFFFFEA]), options);
 		if (!bootStatus.success)
 			throw new EBLError(bootStatus.error);
@@ -90,10 +101,10 @@ export class EBL extends BaseSerialProtocol {
 			offset = cmd.writeUInt32LE(flashConfig[i].busap, offset);
 		}
 
-		await this.sendCommand(CMD.SET_EBU_CONFIG, cmd);
+		await this.sendCommand(EBLCommand.SET_EBU_CONFIG, cmd);
 
 		let flashInfo: EBUFLashInfo[] = [];
-		let responseCFI1 = await this.sendCommand(CMD.CFI_STAGE1, Buffer.from([0, 0]));
+		let responseCFI1 = await this.sendCommand(EBLCommand.CFI_STAGE1, Buffer.from([0, 0]));
 		for (let i = 0; i < 4; i++) {
 			const cfiOffset = i * 64;
 			const cfi = responseCFI1.subarray(cfiOffset, cfiOffset + 64);
@@ -109,9 +120,10 @@ export class EBL extends BaseSerialProtocol {
 	async setBaudrate(baudrate: number): Promise<boolean> {
 		const cmd = Buffer.alloc(4);
 		cmd.writeUInt32LE(baudrate);
-		const response = await this.sendCommand(CMD.SET_BAUDRATE, cmd);
+		const response = await this.sendCommand(EBLCommand.SET_BAUDRATE, cmd);
 		const receivedBaudrate = response.readUInt32LE(0);
 		if (receivedBaudrate == baudrate) {
+			await this.port.flushInput();
 			await this.port.update({ baudRate: baudrate });
 			return true;
 		}
@@ -119,8 +131,11 @@ export class EBL extends BaseSerialProtocol {
 	}
 
 	private async sendCommand(cmd: number, payload?: Buffer) {
+		const start = performance.now();
 		await this.sendPacket(cmd, payload);
-		return await this.recvPacket(cmd);
+		const response = await this.recvPacket(cmd);
+		this.stats.addLatency(performance.now() - start);
+		return response;
 	}
 
 	private async sendPacket(cmd: number, payload?: Buffer): Promise<void> {
@@ -136,13 +151,16 @@ export class EBL extends BaseSerialProtocol {
 
 		debug.enabled && debug(sprintf("[TX] %s", hexdump(pkt)));
 
+		this.stats.countTxFrame();
 		await this.port.write(pkt);
 	}
 
 	private async recvPacket(fromCmd: number): Promise<Buffer> {
 		const header = await this.port.read(6, 1000);
-		if (!header)
+		if (!header) {
+			this.stats.countTimeout();
 			throw new EBLError("No response from EBL! (pkt header)");
+		}
 		const pktStartToken = header.readUInt16LE(0);
 		const cmd = header.readUInt16LE(2);
 		const size = header.readUInt16LE(4);
@@ -154,8 +172,11 @@ export class EBL extends BaseSerialProtocol {
 			throw new EBLError("Invalid packet, pktStartToken=%02X", pktStartToken);
 
 		const body = await this.port.read(size + 4, 1000);
-		if (!body)
+		if (!body) {
+			this.stats.countTimeout();
 			throw new EBLError("No response from EBL! (pkt body)");
+		}
+		this.stats.countRxFrame();
 
 		const chk = body.readUInt16LE(size);
 		const pktEndToken = body.readUInt16LE(size + 2);
@@ -164,8 +185,10 @@ export class EBL extends BaseSerialProtocol {
 			throw new EBLError("Invalid packet, pktEndToken=%02X", pktEndToken);
 
 		const realChk = EBL.checksum(cmd, body.subarray(0, size));
-		if (chk != realChk)
+		if (chk != realChk) {
+			this.stats.countCrcError();
 			throw new EBLError("Invalid packet, data corrupted (received=%02X, real=%02X)", chk, realChk);
+		}
 
 		debug.enabled && debug(sprintf("[RX] %s %s", hexdump(header), hexdump(body)));
 
@@ -174,9 +197,11 @@ export class EBL extends BaseSerialProtocol {
 
 	async disconnect(): Promise<void> {
 		// TODO
+		this.port.release(this);
+		this.setConnected(false);
 	}
 
-	private static checksum(cmd: number, data: Buffer) {
+	static checksum(cmd: number, data: Buffer) {
 		let chk = (cmd + data.length) & 0xFFFF;
 		for (let i = 0; i < data.length; i++)
 			chk = (chk + data[i]) & 0xFFFF;
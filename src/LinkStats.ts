@@ -0,0 +1,132 @@
+import type { AsyncSerialPort } from "./AsyncSerialPort.js";
+
+// Upper bounds of the round-trip latency buckets in ms, the last bucket is for everything slower
+const LATENCY_BUCKETS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000];
+
+export type LatencyHistogramBucket = {
+	// Upper bound in ms, Infinity for the last bucket
+	le: number;
+	count: number;
+};
+
+export type LinkLatencyStats = {
+	count: number;
+	min: number;
+	max: number;
+	avg: number;
+	histogram: LatencyHistogramBucket[];
+};
+
+export type LinkStatsSnapshot = {
+	// Session duration in ms
+	elapsed: number;
+	txBytes: number;
+	rxBytes: number;
+	txFrames: number;
+	rxFrames: number;
+	crcErrors: number;
+	timeouts: number;
+	retries: number;
+	latency: LinkLatencyStats;
+	// Effective throughput in bytes/s
+	txSpeed: number;
+	rxSpeed: number;
+};
+
+/**
+ * Link quality counters of one protocol session.
+ * Byte counters come from the port, frames and errors are counted by the protocol.
+ * */
+export class LinkStats {
+	private readonly port: AsyncSerialPort;
+	private startTime = 0;
+	private startTxBytes = 0;
+	private startRxBytes = 0;
+	private txFrames = 0;
+	private rxFrames = 0;
+	private crcErrors = 0;
+	private timeouts = 0;
+	private retries = 0;
+	private latencySum = 0;
+	private latencyMin = Infinity;
+	private latencyMax = 0;
+	private readonly latencyHistogram = new Array<number>(LATENCY_BUCKETS.length + 1).fill(0);
+
+	constructor(port: AsyncSerialPort) {
+		this.port = port;
+		this.reset();
+	}
+
+	// Starts a new session
+	reset(): void {
+		const portStats = this.port.getStats();
+		this.startTime = Date.now();
+		this.startTxBytes = portStats.txBytes;
+		this.startRxBytes = portStats.rxBytes;
+		this.txFrames = 0;
+		this.rxFrames = 0;
+		this.crcErrors = 0;
+		this.timeouts = 0;
+		this.retries = 0;
+		this.latencySum = 0;
+		this.latencyMin = Infinity;
+		this.latencyMax = 0;
+		this.latencyHistogram.fill(0);
+	}
+
+	countTxFrame(): void {
+		this.txFrames++;
+	}
+
+	countRxFrame(): void {
+		this.rxFrames++;
+	}
+
+	countCrcError(): void {
+		this.crcErrors++;
+	}
+
+	countTimeout(): void {
+		this.timeouts++;
+	}
+
+	countRetry(): void {
+		this.retries++;
+	}
+
+	// Round-trip time of one request in ms
+	addLatency(latency: number): void {
+		this.latencySum += latency;
+		this.latencyMin = Math.min(this.latencyMin, latency);
+		this.latencyMax = Math.max(this.latencyMax, latency);
+		const bucket = LATENCY_BUCKETS.findIndex((le) => latency <= le);
+		this.latencyHistogram[bucket >= 0 ? bucket : LATENCY_BUCKETS.length]++;
+	}
+
+	getStats(): LinkStatsSnapshot {
+		const portStats = this.port.getStats();
+		const elapsed = Date.now() - this.startTime;
+		const txBytes = portStats.txBytes - this.startTxBytes;
+		const rxBytes = portStats.rxBytes - this.startRxBytes;
+		const latencyCount = this.latencyHistogram.reduce((sum, count) => sum + count, 0);
+		return {
+			elapsed,
+			txBytes,
+			rxBytes,
+			txFrames: this.txFrames,
+			rxFrames: this.rxFrames,
+			crcErrors: this.crcErrors,
+			timeouts: this.timeouts,
+			retries: this.retries,
+			latency: {
+				count: latencyCount,
+				min: latencyCount > 0 ? this.latencyMin : 0,
+				max: this.latencyMax,
+				avg: latencyCount > 0 ? this.latencySum / latencyCount : 0,
+				histogram: this.latencyHistogram.map((count, i) => ({ le: LATENCY_BUCKETS[i] ?? Infinity, count })),
+			},
+			txSpeed: elapsed > 0 ? txBytes * 1000 / elapsed : 0,
+			rxSpeed: elapsed > 0 ? rxBytes * 1000 / elapsed : 0,
+		};
+	}
+}
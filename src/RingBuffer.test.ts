@@ -0,0 +1,31 @@
+import { describe, expect, test } from 'vitest';
+import { RingBuffer } from './RingBuffer.js';
+
+describe('RingBuffer', () => {
+	test('should read data across the wrap boundary', () => {
+		const ring = new RingBuffer(8);
+		ring.write(Buffer.from("ABCDEF"));
+		expect(ring.read(4)).toEqual(Buffer.from("ABCD"));
+		ring.write(Buffer.from("GHIJ"));
+		expect(ring.length).toBe(6);
+		expect(ring.capacity).toBe(8);
+		expect(ring.at(0)).toBe(0x45);
+		expect(ring.readUInt16BE(2)).toBe(0x4748);
+		expect(ring.indexOf(0x49)).toBe(4);
+		expect(ring.peek(3)).toEqual(Buffer.from("EFG"));
+		expect(ring.read()).toEqual(Buffer.from("EFGHIJ"));
+		expect(ring.length).toBe(0);
+		expect(ring.at(0)).toBe(-1);
+	});
+
+	test('should grow and keep the order', () => {
+		const ring = new RingBuffer(4);
+		ring.write(Buffer.from("123"));
+		ring.skip(2);
+		ring.write(Buffer.from("456789"));
+		expect(ring.capacity).toBe(8);
+		expect(ring.peek()).toEqual(Buffer.from("3456789"));
+		ring.clear();
+		expect(ring.length).toBe(0);
+	});
+});
@@ -0,0 +1,106 @@
+/**
+ * Growable FIFO byte buffer for the receive path.
+ * Incoming chunks are copied once into the ring, consumers read exactly the requested size
+ * without concatenating the whole backlog on every chunk.
+ * */
+export class RingBuffer {
+	private buffer: Buffer;
+	private head = 0;
+	private size = 0;
+
+	constructor(capacity = 64 * 1024) {
+		this.buffer = Buffer.allocUnsafe(capacity);
+	}
+
+	get length(): number {
+		return this.size;
+	}
+
+	get capacity(): number {
+		return this.buffer.length;
+	}
+
+	write(data: Buffer): void {
+		if (data.length == 0)
+			return;
+		if (this.size + data.length > this.buffer.length)
+			this.grow(this.size + data.length);
+
+		const tail = (this.head + this.size) % this.buffer.length;
+		const firstPart = Math.min(data.length, this.buffer.length - tail);
+		data.copy(this.buffer, tail, 0, firstPart);
+		if (firstPart < data.length)
+			data.copy(this.buffer, 0, firstPart);
+		this.size += data.length;
+	}
+
+	// Returns byte at the offset from the start of the data or -1
+	at(offset: number): number {
+		if (offset < 0 || offset >= this.size)
+			return -1;
+		return this.buffer[(this.head + offset) % this.buffer.length];
+	}
+
+	readUInt16BE(offset: number): number {
+		return (this.at(offset) << 8) | this.at(offset + 1);
+	}
+
+	/**
+	 * Returns a view of the first N bytes without consuming them.
+	 * The view is valid only until the next write(), copy it if you need to keep the data.
+	 * */
+	peek(size = this.size): Buffer {
+		size = Math.min(size, this.size);
+		if (this.head + size > this.buffer.length)
+			this.linearize();
+		return this.buffer.subarray(this.head, this.head + size);
+	}
+
+	// Consumes and returns a copy of the first N bytes
+	read(size = this.size): Buffer {
+		size = Math.min(size, this.size);
+		const result = Buffer.allocUnsafe(size);
+		const firstPart = Math.min(size, this.buffer.length - this.head);
+		this.buffer.copy(result, 0, this.head, this.head + firstPart);
+		if (firstPart < size)
+			this.buffer.copy(result, firstPart, 0, size - firstPart);
+		this.skip(size);
+		return result;
+	}
+
+	skip(size: number): void {
+		size = Math.min(size, this.size);
+		this.size -= size;
+		// Keep the data at the start of the buffer while possible, so peek() rarely needs to linearize
+		this.head = this.size > 0 ? (this.head + size) % this.buffer.length : 0;
+	}
+
+	indexOf(value: number | Buffer, fromOffset = 0): number {
+		if (this.size == 0)
+			return -1;
+		return this.peek().indexOf(value, fromOffset);
+	}
+
+	clear(): void {
+		this.head = 0;
+		this.size = 0;
+	}
+
+	private linearize(): void {
+		const data = this.read();
+		data.copy(this.buffer, 0);
+		this.head = 0;
+		this.size = data.length;
+	}
+
+	private grow(minCapacity: number): void {
+		let capacity = Math.max(this.buffer.length * 2, 1);
+		while (capacity < minCapacity)
+			capacity *= 2;
+		const data = this.read();
+		this.buffer = Buffer.allocUnsafe(capacity);
+		data.copy(this.buffer, 0);
+		this.head = 0;
+		this.size = data.length;
+	}
+}
@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'vitest';
+import { createSerialPortPair } from './SerialPortPair.js';
+
+describe('createSerialPortPair', () => {
+	test('should transfer bytes in both directions', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+
+		await host.write(Buffer.from("AT\r"));
+		expect(await device.read(3, 100)).toEqual(Buffer.from("AT\r"));
+
+		await device.write(Buffer.from("\r\nOK\r\n"));
+		expect(await host.read(6, 100)).toEqual(Buffer.from("\r\nOK\r\n"));
+
+		await host.close();
+		await device.close();
+	});
+
+	test('should return partial data on timeout', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+
+		await device.write(Buffer.from([0xB0]));
+		expect(await host.read(2, 50)).toEqual(Buffer.from([0xB0]));
+		expect(await host.readByte(20)).toBe(-1);
+
+		await host.close();
+		await device.close();
+	});
+
+	test('should drop bytes when other side is closed', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+
+		await host.write(Buffer.from("lost"));
+		await device.open();
+		await host.write(Buffer.from("ok"));
+		expect(await device.read(2, 100)).toEqual(Buffer.from("ok"));
+		expect(await device.readByte(20)).toBe(-1);
+
+		await host.close();
+		await device.close();
+	});
+
+	test('should wire DTR/RTS to DSR/CTS of the other side', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+
+		await host.setSignals({ dtr: true, rts: false });
+		expect(await device.getSignals()).toEqual({ cts: false, dsr: true, dcd: true });
+
+		await host.setSignals({ dtr: false, rts: true });
+		expect(await device.getSignals()).toEqual({ cts: true, dsr: false, dcd: false });
+
+		await host.close();
+		expect(await device.getSignals()).toEqual({ cts: false, dsr: false, dcd: false });
+		await device.close();
+	});
+
+	test('should change baudrate', async () => {
+		const { host, device } = createSerialPortPair({ baudRate: 115200 });
+		await host.open();
+		await device.open();
+
+		await host.update({ baudRate: 921600 });
+		expect(host.baudRate).toBe(921600);
+		expect(device.baudRate).toBe(115200);
+
+		await host.close();
+		await device.close();
+		await expect(host.update({ baudRate: 115200 })).rejects.toThrow(/not open/);
+	});
+});
@@ -0,0 +1,233 @@
+import { SerialPortStream } from "@serialport/stream";
+import {
+	BindingInterface,
+	BindingPortInterface,
+	BindingsErrorInterface,
+	OpenOptions,
+	PortStatus,
+	SetOptions,
+	UpdateOptions
+} from "@serialport/bindings-interface";
+import { AsyncSerialPort } from "./AsyncSerialPort.js";
+
+export type SerialPortPairOptions = {
+	baudRate?: number;
+	hostPath?: string;
+	devicePath?: string;
+};
+
+export type SerialPortPair = {
+	host: AsyncSerialPort<PipeBindingInterface>;
+	device: AsyncSerialPort<PipeBindingInterface>;
+};
+
+export type PipeBindingInterface = BindingInterface<PipePortBinding>;
+
+type PipeLine = {
+	isOpen: boolean;
+	signals: Required<SetOptions>;
+	peer?: PipeLine;
+	port?: PipePortBinding;
+};
+
+const DEFAULT_SIGNALS: Required<SetOptions> = {
+	brk: false,
+	cts: false,
+	dsr: false,
+	dtr: false,
+	rts: false,
+};
+
+/*
+ * In-memory null-modem cable:
+ *   TX  -> RX
+ *   DTR -> DSR, DCD
+ *   RTS -> CTS
+ * Like a pty pair, both ends share the line speed: OS reported baudrate (getBaudRate) is the last one set by any side.
+ * */
+export class PipePortBinding implements BindingPortInterface {
+	readonly openOptions: Required<OpenOptions>;
+	isOpen = true;
+	private readonly line: PipeLine;
+	private readonly shared: { baudRate: number };
+	private chunks: Buffer[] = [];
+	private pendingRead?: {
+		buffer: Buffer;
+		offset: number;
+		length: number;
+		resolve: (result: { buffer: Buffer, bytesRead: number }) => void;
+		reject: (e: BindingsErrorInterface) => void;
+	};
+
+	constructor(line: PipeLine, shared: { baudRate: number }, openOptions: Required<OpenOptions>) {
+		this.line = line;
+		this.shared = shared;
+		this.openOptions = openOptions;
+	}
+
+	receive(data: Buffer): void {
+		if (!this.isOpen || !data.length)
+			return;
+		this.chunks.push(Buffer.from(data));
+		this.resolvePendingRead();
+	}
+
+	private resolvePendingRead(): void {
+		const req = this.pendingRead;
+		if (!req || !this.chunks.length)
+			return;
+		this.pendingRead = undefined;
+
+		let bytesRead = 0;
+		while (this.chunks.length > 0 && bytesRead < req.length) {
+			const chunk = this.chunks[0];
+			const chunkSize = Math.min(chunk.length, req.length - bytesRead);
+			chunk.copy(req.buffer, req.offset + bytesRead, 0, chunkSize);
+			bytesRead += chunkSize;
+			if (chunkSize == chunk.length) {
+				this.chunks.shift();
+			} else {
+				this.chunks[0] = chunk.subarray(chunkSize);
+			}
+		}
+		req.resolve({ buffer: req.buffer, bytesRead });
+	}
+
+	async close(): Promise<void> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		this.isOpen = false;
+		this.line.isOpen = false;
+		this.line.port = undefined;
+		this.line.signals = { ...DEFAULT_SIGNALS };
+		this.chunks = [];
+		if (this.pendingRead) {
+			const error: BindingsErrorInterface = new Error("Port is closed");
+			error.canceled = true;
+			this.pendingRead.reject(error);
+			this.pendingRead = undefined;
+		}
+	}
+
+	async read(buffer: Buffer, offset: number, length: number): Promise<{ buffer: Buffer; bytesRead: number }> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		if (this.pendingRead)
+			throw new Error("Read is already pending");
+		return new Promise((resolve, reject) => {
+			this.pendingRead = { buffer, offset, length, resolve, reject };
+			this.resolvePendingRead();
+		});
+	}
+
+	async write(buffer: Buffer): Promise<void> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		this.line.peer?.port?.receive(buffer);
+	}
+
+	async update(options: UpdateOptions): Promise<void> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		if (!(options.baudRate > 0))
+			throw new Error(`Invalid baudrate: ${options.baudRate}`);
+		this.shared.baudRate = options.baudRate;
+	}
+
+	async set(options: SetOptions): Promise<void> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		this.line.signals = { ...this.line.signals, ...options };
+	}
+
+	async get(): Promise<PortStatus> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		const peer = this.line.peer;
+		const peerSignals = peer?.isOpen ? peer.signals : DEFAULT_SIGNALS;
+		return {
+			cts: peerSignals.rts,
+			dsr: peerSignals.dtr,
+			dcd: peerSignals.dtr,
+		};
+	}
+
+	async getBaudRate(): Promise<{ baudRate: number }> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		return { baudRate: this.shared.baudRate };
+	}
+
+	async flush(): Promise<void> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		this.chunks = [];
+	}
+
+	async drain(): Promise<void> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+	}
+}
+
+function createPipeBinding(line: PipeLine, shared: { baudRate: number }): PipeBindingInterface {
+	return {
+		async open(options) {
+			if (line.isOpen)
+				throw new Error(`Port ${options.path} is already open`);
+			const openOptions: Required<OpenOptions> = {
+				dataBits: 8,
+				lock: true,
+				stopBits: 1,
+				parity: 'none',
+				rtscts: false,
+				xon: false,
+				xoff: false,
+				xany: false,
+				hupcl: true,
+				...options
+			};
+			line.isOpen = true;
+			// DTR and RTS are asserted after opening, as on the real tty
+			line.signals = { ...DEFAULT_SIGNALS, dtr: true, rts: true };
+			line.port = new PipePortBinding(line, shared, openOptions);
+			shared.baudRate = openOptions.baudRate;
+			return line.port;
+		},
+		async list() {
+			return [];
+		},
+	};
+}
+
+/**
+ * Creates two linked ports without any hardware: bytes written to the one side are received by the other side.
+ * Both ports are created closed, call open() as for the real port.
+ * */
+export function createSerialPortPair(options: SerialPortPairOptions = {}): SerialPortPair {
+	const validOptions = {
+		baudRate: 115200,
+		hostPath: "pipe:host",
+		devicePath: "pipe:device",
+		...options
+	};
+	const shared = { baudRate: validOptions.baudRate };
+	const hostLine: PipeLine = { isOpen: false, signals: { ...DEFAULT_SIGNALS } };
+	const deviceLine: PipeLine = { isOpen: false, signals: { ...DEFAULT_SIGNALS } };
+	hostLine.peer = deviceLine;
+	deviceLine.peer = hostLine;
+
+	const host = new AsyncSerialPort(new SerialPortStream<PipeBindingInterface>({
+		binding: createPipeBinding(hostLine, shared),
+		path: validOptions.hostPath,
+		baudRate: validOptions.baudRate,
+		autoOpen: false
+	}));
+	const device = new AsyncSerialPort(new SerialPortStream<PipeBindingInterface>({
+		binding: createPipeBinding(deviceLine, shared),
+		path: validOptions.devicePath,
+		baudRate: validOptions.baudRate,
+		autoOpen: false
+	}));
+	return { host, device };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'vitest';
+import { createSerialPortPair } from './SerialPortPair.js';
+import { SerialProxy } from './SerialProxy.js';
+import { DissectedFrame } from './dissector.js';
+
+async function createProxySetup() {
+	const hostPair = createSerialPortPair({ hostPath: "tool", devicePath: "proxy-host" });
+	const devicePair = createSerialPortPair({ hostPath: "proxy-device", devicePath: "phone" });
+	const tool = hostPair.host;
+	const phone = devicePair.device;
+	for (const port of [tool, phone, hostPair.device, devicePair.host])
+		await port.open();
+	return { tool, phone, proxyHost: hostPair.device, proxyDevice: devicePair.host };
+}
+
+describe('SerialProxy', () => {
+	test('should forward and decode traffic in both directions', async () => {
+		const { tool, phone, proxyHost, proxyDevice } = await createProxySetup();
+		const frames: DissectedFrame[] = [];
+		const proxy = new SerialProxy(proxyHost, proxyDevice, { protocol: "at", onFrame: (frame) => frames.push(frame) });
+		await proxy.start();
+
+		await tool.write(Buffer.from("ATI\r"));
+		expect((await phone.read(4, 100))?.toString()).toBe("ATI\r");
+
+		await phone.write(Buffer.from("\r\nOK\r\n"));
+		expect((await tool.read(6, 100))?.toString()).toBe("\r\nOK\r\n");
+
+		await proxy.stop();
+		expect(frames.map((f) => f.protocol == "at" && `${f.direction} ${f.line}`)).toEqual(["tx ATI", "rx OK"]);
+	});
+
+	test('should mirror baudrate and control lines', async () => {
+		const { tool, phone, proxyHost, proxyDevice } = await createProxySetup();
+		const proxy = new SerialProxy(proxyHost, proxyDevice, { pollInterval: 5 });
+		await proxy.start();
+
+		await tool.update({ baudRate: 921600 });
+		await tool.setSignals({ dtr: false, rts: true });
+		await new Promise((resolve) => setTimeout(resolve, 50));
+
+		expect(proxyDevice.baudRate).toBe(921600);
+		expect(await phone.getBaudRate()).toBe(921600);
+		expect(await phone.getSignals()).toMatchObject({ dsr: false, cts: true });
+
+		await proxy.stop();
+	});
+});
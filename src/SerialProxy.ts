@@ -0,0 +1,204 @@
+import createDebug from "debug";
+import { AsyncSerialPort } from "./AsyncSerialPort.js";
+import {
+	createDissector,
+	DissectedFrame,
+	DissectorDirection,
+	DissectorOptions,
+	DissectorProtocol,
+	formatDissectedFrame,
+	SerialDissector
+} from "./dissector.js";
+import { hexdump } from "./utils.js";
+
+const debug = createDebug("proxy");
+const debugTrx = createDebug("proxy:trx");
+
+export type SerialProxySignals = {
+	dtr: boolean;
+	rts: boolean;
+};
+
+export type SerialProxyOptions = {
+	// Protocol for the live decoding, frames are reported to onFrame()
+	protocol?: DissectorProtocol;
+	dissectorOptions?: DissectorOptions;
+	mirrorBaudRate?: boolean;
+	mirrorSignals?: boolean;
+	// Interval for polling baudrate and control lines changes
+	pollInterval?: number;
+	onData?: (direction: DissectorDirection, data: Buffer) => void;
+	onFrame?: (frame: DissectedFrame) => void;
+	onBaudRate?: (baudRate: number) => void;
+	onSignals?: (direction: DissectorDirection, signals: SerialProxySignals) => void;
+	onError?: (error: Error) => void;
+};
+
+/**
+ * Transparent proxy between the host (port of the vendor tool, for example a virtual COM port of the VM)
+ * and the device (real phone cable).
+ *
+ * Directions are named from the host point of view:
+ *   tx - host -> device
+ *   rx - device -> host
+ * */
+export class SerialProxy {
+	private readonly host: AsyncSerialPort;
+	private readonly device: AsyncSerialPort;
+	private readonly options: Required<Pick<SerialProxyOptions, "mirrorBaudRate" | "mirrorSignals" | "pollInterval">> & SerialProxyOptions;
+	private dissector?: SerialDissector;
+	private pollTimer?: NodeJS.Timeout;
+	private polling = false;
+	private running = false;
+	private baudRate?: number;
+	private signals: Partial<Record<DissectorDirection, SerialProxySignals>> = {};
+
+	constructor(host: AsyncSerialPort, device: AsyncSerialPort, options: SerialProxyOptions = {}) {
+		this.host = host;
+		this.device = device;
+		this.options = {
+			mirrorBaudRate: true,
+			mirrorSignals: true,
+			pollInterval: 50,
+			...options
+		};
+	}
+
+	get isRunning(): boolean {
+		return this.running;
+	}
+
+	async start(): Promise<void> {
+		if (this.running)
+			return;
+		if (!this.host.isOpen || !this.device.isOpen)
+			throw new Error("Port is not open");
+
+		this.host.acquire(this);
+		try {
+			this.device.acquire(this);
+		} catch (e) {
+			this.host.release(this);
+			throw e;
+		}
+
+		this.running = true;
+		this.baudRate = undefined;
+		this.signals = {};
+		if (this.options.protocol)
+			this.dissector = createDissector(this.options.protocol, this.options.dissectorOptions);
+
+		this.host.on('data', this.handleHostData);
+		this.device.on('data', this.handleDeviceData);
+
+		await this.poll();
+		this.schedulePoll();
+	}
+
+	async stop(): Promise<void> {
+		if (!this.running)
+			return;
+
+		this.running = false;
+		this.host.off('data', this.handleHostData);
+		this.device.off('data', this.handleDeviceData);
+		this.host.release(this);
+		this.device.release(this);
+
+		if (this.pollTimer) {
+			clearTimeout(this.pollTimer);
+			this.pollTimer = undefined;
+		}
+
+		if (this.dissector) {
+			for (const frame of this.dissector.flush())
+				this.handleFrame(frame);
+			this.dissector = undefined;
+		}
+	}
+
+	private handleHostData = (data: Buffer) => this.forward("tx", data);
+
+	private handleDeviceData = (data: Buffer) => this.forward("rx", data);
+
+	private forward(direction: DissectorDirection, data: Buffer): void {
+		debugTrx.enabled && debugTrx(`[${direction.toUpperCase()}] ${hexdump(data)}`);
+
+		const target = direction == "tx" ? this.device : this.host;
+		target.write(data).catch((e) => this.handleError(e));
+
+		this.options.onData && this.options.onData(direction, data);
+
+		if (this.dissector) {
+			for (const frame of this.dissector.feed(direction, data))
+				this.handleFrame(frame);
+		}
+	}
+
+	private handleFrame(frame: DissectedFrame): void {
+		debug.enabled && debug(formatDissectedFrame(frame));
+		this.options.onFrame && this.options.onFrame(frame);
+	}
+
+	private handleError(error: Error): void {
+		debug(`Error: ${error.message}`);
+		this.options.onError && this.options.onError(error);
+	}
+
+	private schedulePoll(): void {
+		if (!this.running)
+			return;
+		this.pollTimer = setTimeout(async () => {
+			this.pollTimer = undefined;
+			await this.poll();
+			this.schedulePoll();
+		}, this.options.pollInterval);
+	}
+
+	private async poll(): Promise<void> {
+		if (this.polling || !this.running)
+			return;
+		this.polling = true;
+		try {
+			if (this.options.mirrorBaudRate)
+				await this.syncBaudRate();
+			if (this.options.mirrorSignals) {
+				await this.syncSignals("tx");
+				await this.syncSignals("rx");
+			}
+		} catch (e) {
+			this.handleError(e as Error);
+		} finally {
+			this.polling = false;
+		}
+	}
+
+	private async syncBaudRate(): Promise<void> {
+		const baudRate = await this.host.getBaudRate();
+		if (baudRate == this.baudRate)
+			return;
+		this.baudRate = baudRate;
+		debug(`Baudrate changed: ${baudRate}`);
+		if (this.device.baudRate != baudRate)
+			await this.device.update({ baudRate });
+		this.options.onBaudRate && this.options.onBaudRate(baudRate);
+	}
+
+	// Null-modem: DTR of the one side is DSR of the other side, RTS is CTS
+	private async syncSignals(direction: DissectorDirection): Promise<void> {
+		const [source, target] = direction == "tx" ? [this.host, this.device] : [this.device, this.host];
+		const status = await source.getSignals();
+		if (!status)
+			return;
+
+		const signals = { dtr: status.dsr, rts: status.cts };
+		const prevSignals = this.signals[direction];
+		if (prevSignals && prevSignals.dtr == signals.dtr && prevSignals.rts == signals.rts)
+			return;
+
+		this.signals[direction] = signals;
+		debug(`Signals changed (${direction}): DTR=${+signals.dtr} RTS=${+signals.rts}`);
+		await target.setSignals(signals);
+		this.options.onSignals && this.options.onSignals(direction, signals);
+	}
+}
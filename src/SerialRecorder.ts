@@ -0,0 +1,154 @@
+import fs from "node:fs";
+import { BindingInterface, BindingPortInterface, SetOptions } from "@serialport/bindings-interface";
+import { AsyncSerialPort } from "./AsyncSerialPort.js";
+import {
+	captureSignalsFromSetOptions,
+	captureTimestamp,
+	encodeJsonlEvent,
+	encodePcapngEvent,
+	encodePcapngHeader,
+	getCaptureFormatFromPath,
+	SerialCaptureEvent,
+	SerialCaptureFormat
+} from "./capture.js";
+
+export type SerialRecorderOptions = {
+	path?: string;
+	format?: SerialCaptureFormat;
+	onEvent?: (event: SerialCaptureEvent) => void;
+	// Keep events for getEvents(), by default only when not writing to the path
+	keepEvents?: boolean;
+};
+
+/**
+ * Records all RX/TX chunks, baudrate and DTR/RTS changes of the port.
+ * Recording is done on the binding level, so it doesn't interfere with the protocols which are using the port.
+ * */
+export class SerialRecorder {
+	private readonly port: AsyncSerialPort;
+	private readonly options: SerialRecorderOptions;
+	private events: SerialCaptureEvent[] = [];
+	private file?: fs.WriteStream;
+	private originalBinding?: BindingInterface;
+	private originalBindingPort?: BindingPortInterface;
+	private wrappedBindingPort?: BindingPortInterface;
+
+	constructor(port: AsyncSerialPort, options: SerialRecorderOptions = {}) {
+		this.port = port;
+		this.options = options;
+	}
+
+	get isRecording(): boolean {
+		return this.originalBinding != null;
+	}
+
+	start(): void {
+		if (this.isRecording)
+			return;
+
+		if (this.options.path) {
+			const format = this.options.format ?? getCaptureFormatFromPath(this.options.path);
+			this.file = fs.createWriteStream(this.options.path);
+			if (format == "pcapng")
+				this.file.write(encodePcapngHeader());
+		}
+
+		const stream = this.port.getParentPort();
+		this.originalBinding = stream.settings.binding;
+		stream.settings.binding = {
+			list: () => this.originalBinding!.list(),
+			open: async (options) => {
+				const bindingPort = await this.originalBinding!.open(options);
+				this.addEvent({ type: "baudRate", time: captureTimestamp(), baudRate: options.baudRate });
+				return this.wrapBindingPort(bindingPort);
+			},
+		};
+
+		if (stream.port) {
+			this.originalBindingPort = stream.port;
+			stream.port = this.wrapBindingPort(stream.port);
+			this.addEvent({ type: "baudRate", time: captureTimestamp(), baudRate: stream.baudRate });
+		}
+	}
+
+	async stop(): Promise<void> {
+		if (!this.isRecording)
+			return;
+
+		const stream = this.port.getParentPort();
+		stream.settings.binding = this.originalBinding!;
+		if (this.originalBindingPort && stream.port === this.wrappedBindingPort)
+			stream.port = this.originalBindingPort;
+
+		this.originalBinding = undefined;
+		this.originalBindingPort = undefined;
+		this.wrappedBindingPort = undefined;
+
+		if (this.file) {
+			const file = this.file;
+			this.file = undefined;
+			await new Promise<void>((resolve, reject) => file.end((err?: Error | null) => err ? reject(err) : resolve()));
+		}
+	}
+
+	getEvents(): SerialCaptureEvent[] {
+		return this.events;
+	}
+
+	clear(): void {
+		this.events = [];
+	}
+
+	private addEvent(event: SerialCaptureEvent): void {
+		if (this.options.keepEvents ?? !this.options.path)
+			this.events.push(event);
+		this.writeEvent(event);
+		this.options.onEvent && this.options.onEvent(event);
+	}
+
+	private writeEvent(event: SerialCaptureEvent): void {
+		if (!this.file)
+			return;
+		const format = this.options.format ?? getCaptureFormatFromPath(this.options.path!);
+		this.file.write(format == "jsonl" ? encodeJsonlEvent(event) : encodePcapngEvent(event));
+	}
+
+	private wrapBindingPort(bindingPort: BindingPortInterface): BindingPortInterface {
+		const wrapped: BindingPortInterface = {
+			get openOptions() {
+				return bindingPort.openOptions;
+			},
+			get isOpen() {
+				return bindingPort.isOpen;
+			},
+			read: async (buffer, offset, length) => {
+				const result = await bindingPort.read(buffer, offset, length);
+				if (result.bytesRead > 0 && this.isRecording)
+					this.addEvent({ type: "rx", time: captureTimestamp(), data: Buffer.from(buffer.subarray(offset, offset + result.bytesRead)) });
+				return result;
+			},
+			write: async (buffer) => {
+				if (this.isRecording)
+					this.addEvent({ type: "tx", time: captureTimestamp(), data: Buffer.from(buffer) });
+				return bindingPort.write(buffer);
+			},
+			update: async (options) => {
+				await bindingPort.update(options);
+				if (this.isRecording)
+					this.addEvent({ type: "baudRate", time: captureTimestamp(), baudRate: options.baudRate });
+			},
+			set: async (options: SetOptions) => {
+				await bindingPort.set(options);
+				if (this.isRecording)
+					this.addEvent({ type: "signals", time: captureTimestamp(), signals: captureSignalsFromSetOptions(options) });
+			},
+			close: () => bindingPort.close(),
+			get: () => bindingPort.get(),
+			getBaudRate: () => bindingPort.getBaudRate(),
+			flush: () => bindingPort.flush(),
+			drain: () => bindingPort.drain(),
+		};
+		this.wrappedBindingPort = wrapped;
+		return wrapped;
+	}
+}
@@ -0,0 +1,252 @@
+import createDebug from "debug";
+import { SerialPortStream } from "@serialport/stream";
+import {
+	BindingInterface,
+	BindingPortInterface,
+	BindingsErrorInterface,
+	OpenOptions,
+	PortStatus,
+	SetOptions,
+	UpdateOptions
+} from "@serialport/bindings-interface";
+import { AsyncSerialPort } from "./AsyncSerialPort.js";
+import type { SerialCaptureEvent } from "./capture.js";
+import { hexdump } from "./utils.js";
+
+const debug = createDebug("replay");
+
+export type SerialReplayOptions = {
+	path?: string;
+	baudRate?: number;
+	// Throw an error when the written data doesn't match the captured TX
+	strict?: boolean;
+	// Reproduce delays between the captured RX chunks
+	realtime?: boolean;
+	onMismatch?: (expected: Buffer, received: Buffer) => void;
+};
+
+export type ReplayBindingInterface = BindingInterface<ReplayPortBinding>;
+
+/*
+ * Replays the captured session:
+ * - captured RX chunks are sent to the reader
+ * - RX chunks which were received after TX are held until the same number of bytes is written to the port
+ * - baudrate and signal changes are skipped, update() and set() don't validate them
+ * */
+export class ReplayPortBinding implements BindingPortInterface {
+	readonly openOptions: Required<OpenOptions>;
+	isOpen = true;
+	private readonly events: SerialCaptureEvent[];
+	private readonly options: SerialReplayOptions;
+	private cursor = 0;
+	private txOffset = 0;
+	private lastEventTime = 0;
+	private delayTimer?: NodeJS.Timeout;
+	private rxChunks: Buffer[] = [];
+	private pendingRead?: {
+		buffer: Buffer;
+		offset: number;
+		length: number;
+		resolve: (result: { buffer: Buffer, bytesRead: number }) => void;
+		reject: (e: BindingsErrorInterface) => void;
+	};
+
+	constructor(events: SerialCaptureEvent[], options: SerialReplayOptions, openOptions: Required<OpenOptions>) {
+		this.events = events;
+		this.options = options;
+		this.openOptions = openOptions;
+		this.pump();
+	}
+
+	get isFinished(): boolean {
+		return this.cursor >= this.events.length;
+	}
+
+	getPosition(): number {
+		return this.cursor;
+	}
+
+	private pump(): void {
+		while (!this.delayTimer && this.cursor < this.events.length) {
+			const event = this.events[this.cursor];
+			if (event.type == "tx")
+				break; // waiting for the writer
+
+			if (event.type == "rx") {
+				if (this.options.realtime && this.lastEventTime) {
+					const delay = event.time - this.lastEventTime;
+					if (delay > 0) {
+						this.lastEventTime = 0;
+						this.delayTimer = setTimeout(() => {
+							this.delayTimer = undefined;
+							this.pump();
+						}, delay);
+						break;
+					}
+				}
+				this.lastEventTime = event.time;
+				this.rxChunks.push(event.data);
+			}
+			this.cursor++;
+		}
+		this.resolvePendingRead();
+	}
+
+	private resolvePendingRead(): void {
+		const req = this.pendingRead;
+		if (!req || !this.rxChunks.length)
+			return;
+		this.pendingRead = undefined;
+
+		let bytesRead = 0;
+		while (this.rxChunks.length > 0 && bytesRead < req.length) {
+			const chunk = this.rxChunks[0];
+			const chunkSize = Math.min(chunk.length, req.length - bytesRead);
+			chunk.copy(req.buffer, req.offset + bytesRead, 0, chunkSize);
+			bytesRead += chunkSize;
+			if (chunkSize == chunk.length) {
+				this.rxChunks.shift();
+			} else {
+				this.rxChunks[0] = chunk.subarray(chunkSize);
+			}
+		}
+		req.resolve({ buffer: req.buffer, bytesRead });
+	}
+
+	private mismatch(message: string, expected: Buffer, received: Buffer): void {
+		debug(`${message}: expected ${hexdump(expected)}, received ${hexdump(received)}`);
+		this.options.onMismatch && this.options.onMismatch(expected, received);
+		if (this.options.strict)
+			throw new Error(`Replay mismatch at event #${this.cursor}: ${message}`);
+	}
+
+	async close(): Promise<void> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		this.isOpen = false;
+		if (this.delayTimer) {
+			clearTimeout(this.delayTimer);
+			this.delayTimer = undefined;
+		}
+		if (this.pendingRead) {
+			const error: BindingsErrorInterface = new Error("Port is closed");
+			error.canceled = true;
+			this.pendingRead.reject(error);
+			this.pendingRead = undefined;
+		}
+	}
+
+	async read(buffer: Buffer, offset: number, length: number): Promise<{ buffer: Buffer; bytesRead: number }> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		return new Promise((resolve, reject) => {
+			this.pendingRead = { buffer, offset, length, resolve, reject };
+			this.resolvePendingRead();
+		});
+	}
+
+	async write(buffer: Buffer): Promise<void> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+
+		let offset = 0;
+		while (offset < buffer.length) {
+			const event = this.events[this.cursor];
+			if (!event) {
+				this.mismatch("unexpected TX after the end of capture", Buffer.alloc(0), buffer.subarray(offset));
+				return;
+			}
+
+			if (event.type != "tx") {
+				this.mismatch(`unexpected TX, but capture expects ${event.type}`, Buffer.alloc(0), buffer.subarray(offset));
+				return;
+			}
+
+			const chunkSize = Math.min(event.data.length - this.txOffset, buffer.length - offset);
+			const expected = event.data.subarray(this.txOffset, this.txOffset + chunkSize);
+			const received = buffer.subarray(offset, offset + chunkSize);
+			if (!expected.equals(received))
+				this.mismatch("TX data is not equal", expected, received);
+
+			offset += chunkSize;
+			this.txOffset += chunkSize;
+			if (this.txOffset == event.data.length) {
+				this.txOffset = 0;
+				this.lastEventTime = event.time;
+				this.cursor++;
+				this.pump();
+			}
+		}
+	}
+
+	async update(options: UpdateOptions): Promise<void> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		debug(`baudRate=${options.baudRate}`);
+	}
+
+	async set(options: SetOptions): Promise<void> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		debug(`signals=${JSON.stringify(options)}`);
+	}
+
+	async get(): Promise<PortStatus> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		return { cts: true, dsr: true, dcd: true };
+	}
+
+	async getBaudRate(): Promise<{ baudRate: number }> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		return { baudRate: this.openOptions.baudRate };
+	}
+
+	async flush(): Promise<void> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		this.rxChunks = [];
+	}
+
+	async drain(): Promise<void> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+	}
+}
+
+export function createReplayBinding(events: SerialCaptureEvent[], options: SerialReplayOptions = {}): ReplayBindingInterface {
+	return {
+		async open(openOptions) {
+			return new ReplayPortBinding(events, options, {
+				dataBits: 8,
+				lock: true,
+				stopBits: 1,
+				parity: 'none',
+				rtscts: false,
+				xon: false,
+				xoff: false,
+				xany: false,
+				hupcl: true,
+				...openOptions
+			});
+		},
+		async list() {
+			return [];
+		},
+	};
+}
+
+/**
+ * Creates a port which feeds the captured session back to the protocol classes.
+ * The port is created closed, call open() as for the real port.
+ * */
+export function createReplayPort(events: SerialCaptureEvent[], options: SerialReplayOptions = {}): AsyncSerialPort<ReplayBindingInterface> {
+	const firstBaudRate = events.find((e) => e.type == "baudRate");
+	return new AsyncSerialPort(new SerialPortStream<ReplayBindingInterface>({
+		binding: createReplayBinding(events, options),
+		path: options.path ?? "replay",
+		baudRate: options.baudRate ?? (firstBaudRate?.type == "baudRate" ? firstBaudRate.baudRate : 115200),
+		autoOpen: false
+	}));
+}
@@ -0,0 +1,147 @@
+import net from 'node:net';
+import { describe, expect, test } from 'vitest';
+import { SerialPortStream } from '@serialport/stream';
+import { SocketBinding } from 'serialport-bindings-socket';
+import { createSerialPortPair } from './SerialPortPair.js';
+import { SerialServer } from './SerialServer.js';
+import { AsyncSerialPort } from './AsyncSerialPort.js';
+import {
+	COM_PORT_SERVER_OFFSET,
+	ComPortCommand,
+	ComPortControl,
+	encodeComPortCommand,
+	Rfc2217Binding,
+	TelnetCommand,
+	TelnetDecoder,
+	TelnetOption
+} from './rfc2217.js';
+
+async function createServer(url: string) {
+	const { host, device: phone } = createSerialPortPair();
+	await host.open();
+	await phone.open();
+	const server = new SerialServer(host, url, { pollInterval: 5 });
+	await server.listen();
+	const { port } = server.getAddress() as net.AddressInfo;
+	return { server, host, phone, port };
+}
+
+describe('TelnetDecoder', () => {
+	test('should decode data, negotiations and subnegotiations split across chunks', () => {
+		const decoder = new TelnetDecoder();
+		const events = [
+			...decoder.decode(Buffer.from([0x41, 0xFF, 0xFF, 0x42, 0xFF, TelnetCommand.DO])),
+			...decoder.decode(Buffer.from([TelnetOption.COM_PORT, 0xFF, TelnetCommand.SB, 44, 101, 0xFF])),
+			...decoder.decode(Buffer.from([0xFF, 0x00, 0x01, 0xFF, TelnetCommand.SE, 0x43])),
+		];
+		expect(events).toEqual([
+			{ type: "data", data: Buffer.from([0x41, 0xFF, 0x42]) },
+			{ type: "negotiation", command: TelnetCommand.DO, option: TelnetOption.COM_PORT },
+			{ type: "subnegotiation", option: 44, payload: Buffer.from([101, 0xFF, 0x00, 0x01]) },
+			{ type: "data", data: Buffer.from([0x43]) },
+		]);
+	});
+});
+
+describe('SerialServer', () => {
+	test('should share port with SocketBinding client', async () => {
+		const { server, phone, port } = await createServer("tcp://127.0.0.1:0");
+		const client = new AsyncSerialPort(new SerialPortStream({
+			binding: SocketBinding,
+			path: `tcp://127.0.0.1:${port}`,
+			baudRate: 115200,
+			autoOpen: false
+		}));
+		await client.open();
+
+		await client.write(Buffer.from("AT\r"));
+		expect((await phone.read(3, 500))?.toString()).toBe("AT\r");
+		await phone.write(Buffer.from("OK"));
+		expect((await client.read(2, 500))?.toString()).toBe("OK");
+
+		await client.close();
+		await server.close();
+	});
+
+	test('should forward baudrate and control lines over rfc2217', async () => {
+		const { server, phone, port } = await createServer("rfc2217://127.0.0.1:0");
+		const client = new AsyncSerialPort(new SerialPortStream({
+			binding: Rfc2217Binding,
+			path: `rfc2217://127.0.0.1:${port}`,
+			baudRate: 115200,
+			autoOpen: false
+		}));
+		await client.open();
+
+		const binary = Buffer.from([0x00, 0xFF, 0xFF, 0x0D, 0xF0]);
+		await client.write(binary);
+		expect(await phone.read(binary.length, 500)).toEqual(binary);
+		await phone.write(binary);
+		expect(await client.read(binary.length, 500)).toEqual(binary);
+
+		await client.update({ baudRate: 921600 });
+		expect(await phone.getBaudRate()).toBe(921600);
+		expect(await client.getBaudRate()).toBe(921600);
+
+		await client.setSignals({ dtr: false, rts: true });
+		expect(await phone.getSignals()).toMatchObject({ dsr: false, cts: true });
+
+		const changes: string[][] = [];
+		const unwatch = client.watchSignals((_, changed) => changes.push(changed));
+		await phone.setSignals({ dtr: true, rts: false });
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		expect(await client.getSignals()).toMatchObject({ dsr: true, cts: false });
+		expect(changes).toContainEqual(["cts"]);
+		unwatch();
+
+		await client.close();
+		await server.close();
+	});
+
+	test('should report control lines set before the client is connected', async () => {
+		const { server, host, port } = await createServer("rfc2217://127.0.0.1:0");
+		await host.setSignals({ dtr: false });
+
+		const socket = net.connect(port, "127.0.0.1");
+		const decoder = new TelnetDecoder();
+		const responses: Buffer[] = [];
+		socket.on('data', (data) => {
+			for (const event of decoder.decode(data)) {
+				if (event.type == "subnegotiation")
+					responses.push(event.payload);
+			}
+		});
+		socket.write(Buffer.concat([
+			encodeComPortCommand(ComPortCommand.SET_CONTROL, [ComPortControl.DTR_REQUEST]),
+			encodeComPortCommand(ComPortCommand.SET_CONTROL, [ComPortControl.RTS_REQUEST]),
+		]));
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		expect(responses).toEqual([
+			Buffer.from([ComPortCommand.SET_CONTROL + COM_PORT_SERVER_OFFSET, ComPortControl.DTR_OFF]),
+			Buffer.from([ComPortCommand.SET_CONTROL + COM_PORT_SERVER_OFFSET, ComPortControl.RTS_ON]),
+		]);
+
+		socket.destroy();
+		await server.close();
+	});
+
+	test('should purge port buffers on request', async () => {
+		const { server, host, port } = await createServer("rfc2217://127.0.0.1:0");
+		const purged: string[] = [];
+		host.flushInput = async () => void purged.push("input");
+		host.flushOutput = async () => void purged.push("output");
+		const client = new AsyncSerialPort(new SerialPortStream({
+			binding: Rfc2217Binding,
+			path: `rfc2217://127.0.0.1:${port}`,
+			baudRate: 115200,
+			autoOpen: false
+		}));
+		await client.open();
+
+		await client.flushInput();
+		expect(purged).toEqual(["input"]);
+
+		await client.close();
+		await server.close();
+	});
+});
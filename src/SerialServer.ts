@@ -0,0 +1,322 @@
+import fs from "node:fs";
+import net from "node:net";
+import createDebug from "debug";
+import { AsyncSerialPort } from "./AsyncSerialPort.js";
+import {
+	COM_PORT_SERVER_OFFSET,
+	ComPortCommand,
+	ComPortControl,
+	encodeComPortCommand,
+	encodeTelnetNegotiation,
+	modemStateFromPortStatus,
+	TelnetCommand,
+	TelnetDecoder,
+	telnetEscape,
+	TelnetOption
+} from "./rfc2217.js";
+
+const debug = createDebug("server");
+
+export type SerialServerProtocol = "raw" | "rfc2217";
+
+export type SerialServerOptions = {
+	// raw - plain bytes, compatible with serialport-bindings-socket (tcp://, unix://)
+	// rfc2217 - telnet com port control, baudrate and DTR/RTS are forwarded (rfc2217://)
+	protocol?: SerialServerProtocol;
+	// Interval for polling CTS/DSR/DCD changes (rfc2217 only)
+	pollInterval?: number;
+	onConnect?: (address: string) => void;
+	onDisconnect?: (address: string) => void;
+};
+
+type SerialServerClient = {
+	socket: net.Socket;
+	address: string;
+	decoder?: TelnetDecoder;
+	negotiated: Set<string>;
+	modemStateMask: number;
+	modemState?: number;
+	pollTimer?: NodeJS.Timeout;
+	queue: Promise<void>;
+};
+
+/**
+ * Shares the local port over TCP or unix socket.
+ * Listen URLs: tcp://0.0.0.0:1234, unix:///tmp/phone.sock, rfc2217://0.0.0.0:1234
+ *
+ * Only one client can use the port, other connections are rejected while the port is busy.
+ * In the raw mode baudrate and DTR/RTS can't be changed by the client (serialport-bindings-socket doesn't send them),
+ * use rfc2217 when the client needs BSL ignition or baudrate switching.
+ * */
+export class SerialServer {
+	private readonly port: AsyncSerialPort;
+	private readonly url: URL;
+	private readonly options: Required<Pick<SerialServerOptions, "protocol" | "pollInterval">> & SerialServerOptions;
+	private server?: net.Server;
+	private client?: SerialServerClient;
+	private readonly handleSerialDataCallback = this.handleSerialData.bind(this);
+
+	constructor(port: AsyncSerialPort, url: string, options: SerialServerOptions = {}) {
+		this.port = port;
+		this.url = new URL(url);
+		this.options = {
+			protocol: this.url.protocol == "rfc2217:" ? "rfc2217" : "raw",
+			pollInterval: 100,
+			...options
+		};
+	}
+
+	get isListening(): boolean {
+		return this.server?.listening ?? false;
+	}
+
+	async listen(): Promise<void> {
+		if (this.server)
+			throw new Error(`Server already started.`);
+
+		this.port.acquire(this);
+		const server = net.createServer((socket) => this.handleConnection(socket));
+		await new Promise<void>((resolve, reject) => {
+			server.once('error', reject);
+			const onListening = () => {
+				server.off('error', reject);
+				resolve();
+			};
+			if (this.url.protocol == "unix:") {
+				if (fs.existsSync(this.url.pathname))
+					fs.unlinkSync(this.url.pathname);
+				server.listen(this.url.pathname, onListening);
+			} else if (this.url.protocol == "tcp:" || this.url.protocol == "rfc2217:") {
+				server.listen(parseInt(this.url.port), this.url.hostname, onListening);
+			} else {
+				reject(new Error(`Unsupported protocol: ${this.url.protocol}`));
+			}
+		}).catch((e) => {
+			this.port.release(this);
+			throw e;
+		});
+		server.on('error', (e) => debug(`Server error: ${e.message}`));
+		this.server = server;
+		debug(`Listening on ${this.url} (${this.options.protocol})`);
+	}
+
+	getAddress(): net.AddressInfo | string | null {
+		return this.server?.address() ?? null;
+	}
+
+	async close(): Promise<void> {
+		if (this.client)
+			this.client.socket.destroy();
+		const server = this.server;
+		this.server = undefined;
+		if (server) {
+			await new Promise<void>((resolve) => server.close(() => resolve()));
+			this.port.release(this);
+		}
+	}
+
+	private handleConnection(socket: net.Socket): void {
+		const address = socket.remoteAddress ? `${socket.remoteAddress}:${socket.remotePort}` : "unix";
+		if (this.client) {
+			debug(`Rejecting ${address}, port is busy`);
+			socket.destroy();
+			return;
+		}
+
+		debug(`Client connected: ${address}`);
+		const client: SerialServerClient = {
+			socket,
+			address,
+			negotiated: new Set(),
+			modemStateMask: 0,
+			queue: Promise.resolve(),
+		};
+		this.client = client;
+		socket.setNoDelay?.(true);
+
+		if (this.options.protocol == "rfc2217") {
+			client.decoder = new TelnetDecoder();
+			socket.write(Buffer.concat([
+				encodeTelnetNegotiation(TelnetCommand.DO, TelnetOption.COM_PORT),
+				encodeTelnetNegotiation(TelnetCommand.WILL, TelnetOption.BINARY),
+				encodeTelnetNegotiation(TelnetCommand.DO, TelnetOption.BINARY),
+			]));
+		}
+
+		socket.on('data', (data) => {
+			// Keep the order of writes and port settings changes
+			client.queue = client.queue
+				.then(() => this.handleClientData(client, data))
+				.catch((e) => debug(`Client error: ${e.message}`));
+		});
+		socket.on('error', (e) => debug(`Socket error: ${e.message}`));
+		socket.on('close', () => this.handleDisconnect(client));
+		this.port.on('data', this.handleSerialDataCallback);
+		this.options.onConnect && this.options.onConnect(address);
+	}
+
+	private handleDisconnect(client: SerialServerClient): void {
+		if (this.client !== client)
+			return;
+		debug(`Client disconnected: ${client.address}`);
+		if (client.pollTimer)
+			clearTimeout(client.pollTimer);
+		this.port.off('data', this.handleSerialDataCallback);
+		this.client = undefined;
+		this.options.onDisconnect && this.options.onDisconnect(client.address);
+	}
+
+	private handleSerialData(data: Buffer): void {
+		const client = this.client;
+		if (!client)
+			return;
+		client.socket.write(client.decoder ? telnetEscape(data) : data);
+	}
+
+	private async handleClientData(client: SerialServerClient, data: Buffer): Promise<void> {
+		if (!client.decoder) {
+			await this.port.write(data);
+			return;
+		}
+
+		for (const event of client.decoder.decode(data)) {
+			if (event.type == "data") {
+				await this.port.write(event.data);
+			} else if (event.type == "negotiation") {
+				this.handleNegotiation(client, event.command, event.option);
+			} else if (event.option == TelnetOption.COM_PORT && event.payload.length > 0) {
+				await this.handleComPortCommand(client, event.payload[0], event.payload.subarray(1));
+			}
+		}
+	}
+
+	private handleNegotiation(client: SerialServerClient, command: TelnetCommand, option: number): void {
+		const key = `${command}:${option}`;
+		if (client.negotiated.has(key))
+			return;
+		client.negotiated.add(key);
+		const supported = option == TelnetOption.BINARY || option == TelnetOption.COM_PORT || option == TelnetOption.SGA;
+		if (command == TelnetCommand.DO) {
+			if (!supported)
+				client.socket.write(encodeTelnetNegotiation(TelnetCommand.WONT, option));
+			else if (option == TelnetOption.SGA)
+				client.socket.write(encodeTelnetNegotiation(TelnetCommand.WILL, option));
+		} else if (command == TelnetCommand.WILL && !supported) {
+			client.socket.write(encodeTelnetNegotiation(TelnetCommand.DONT, option));
+		}
+	}
+
+	private sendComPortResponse(client: SerialServerClient, command: ComPortCommand, payload: Buffer | number[]): void {
+		client.socket.write(encodeComPortCommand(command + COM_PORT_SERVER_OFFSET, payload));
+	}
+
+	private async handleComPortCommand(client: SerialServerClient, command: ComPortCommand, payload: Buffer): Promise<void> {
+		switch (command) {
+			case ComPortCommand.SIGNATURE:
+				this.sendComPortResponse(client, command, Buffer.from("@sie-js/serial"));
+			break;
+
+			case ComPortCommand.SET_BAUDRATE: {
+				const baudRate = payload.length >= 4 ? payload.readUInt32BE(0) : 0;
+				if (baudRate > 0 && baudRate != this.port.baudRate) {
+					debug(`Baudrate: ${baudRate}`);
+					await this.port.update({ baudRate });
+				}
+				const response = Buffer.alloc(4);
+				response.writeUInt32BE(this.port.baudRate);
+				this.sendComPortResponse(client, command, response);
+			break;
+			}
+
+			// Only 8N1 is supported
+			case ComPortCommand.SET_DATASIZE:
+				this.sendComPortResponse(client, command, [8]);
+			break;
+			case ComPortCommand.SET_PARITY:
+				this.sendComPortResponse(client, command, [1]);
+			break;
+			case ComPortCommand.SET_STOPSIZE:
+				this.sendComPortResponse(client, command, [1]);
+			break;
+
+			case ComPortCommand.SET_CONTROL:
+				this.sendComPortResponse(client, command, [await this.handleControl(payload[0])]);
+			break;
+
+			case ComPortCommand.SET_MODEMSTATE_MASK:
+				client.modemStateMask = payload[0] ?? 0;
+				client.modemState = undefined;
+				this.sendComPortResponse(client, command, [client.modemStateMask]);
+				this.scheduleModemStatePoll(client, 0);
+			break;
+
+			case ComPortCommand.SET_LINESTATE_MASK:
+				this.sendComPortResponse(client, command, [payload[0] ?? 0]);
+			break;
+
+			// 1 - data received from the phone, 2 - data sent to the phone, 3 - both
+			case ComPortCommand.PURGE_DATA: {
+				const purge = payload[0] ?? 0;
+				if (purge == 1) {
+					await this.port.flushInput();
+				} else if (purge == 2 || purge == 3) {
+					await this.port.flushOutput();
+				}
+				this.sendComPortResponse(client, command, [purge]);
+			break;
+			}
+
+			default:
+				debug(`Unsupported COM-PORT command: ${command}`);
+			break;
+		}
+	}
+
+	private async handleControl(control: ComPortControl): Promise<number> {
+		// Lines may be changed before the client is connected, so the state is taken from the port
+		const signals = this.port.getOutputSignals();
+		switch (control) {
+			case ComPortControl.DTR_ON:
+			case ComPortControl.DTR_OFF:
+				await this.port.setSignals({ dtr: control == ComPortControl.DTR_ON });
+				return control;
+			case ComPortControl.RTS_ON:
+			case ComPortControl.RTS_OFF:
+				await this.port.setSignals({ rts: control == ComPortControl.RTS_ON });
+				return control;
+			case ComPortControl.BREAK_ON:
+			case ComPortControl.BREAK_OFF:
+				await this.port.setSignals({ brk: control == ComPortControl.BREAK_ON });
+				return control;
+			case ComPortControl.DTR_REQUEST:
+				return signals.dtr ? ComPortControl.DTR_ON : ComPortControl.DTR_OFF;
+			case ComPortControl.RTS_REQUEST:
+				return signals.rts ? ComPortControl.RTS_ON : ComPortControl.RTS_OFF;
+			case ComPortControl.BREAK_REQUEST:
+				return signals.brk ? ComPortControl.BREAK_ON : ComPortControl.BREAK_OFF;
+			default:
+				return ComPortControl.FLOW_NONE;
+		}
+	}
+
+	private scheduleModemStatePoll(client: SerialServerClient, delay: number): void {
+		if (client.pollTimer)
+			clearTimeout(client.pollTimer);
+		if (!client.modemStateMask || this.client !== client)
+			return;
+		client.pollTimer = setTimeout(async () => {
+			client.pollTimer = undefined;
+			try {
+				const status = await this.port.getSignals();
+				const modemState = status ? modemStateFromPortStatus(status) & client.modemStateMask : 0;
+				if (modemState !== client.modemState) {
+					client.modemState = modemState;
+					this.sendComPortResponse(client, ComPortCommand.NOTIFY_MODEMSTATE, [modemState]);
+				}
+			} catch (e) {
+				debug(`Can't get signals: ${e instanceof Error ? e.message : e}`);
+			}
+			this.scheduleModemStatePoll(client, this.options.pollInterval);
+		}, delay);
+	}
+}
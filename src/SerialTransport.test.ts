@@ -0,0 +1,90 @@
+import { describe, expect, test } from 'vitest';
+import { Duplex, PassThrough } from 'node:stream';
+import { AsyncSerialPort } from './AsyncSerialPort.js';
+import { AtChannel } from './AtChannel.js';
+import { WebStreamTransport } from './WebStreamTransport.js';
+import { DuplexTransport } from './DuplexTransport.js';
+
+// In-memory Web Serial port, the device side gets the other ends of the streams
+function createWebStreamPair() {
+	const hostToDevice = new TransformStream<Uint8Array, Uint8Array>();
+	const deviceToHost = new TransformStream<Uint8Array, Uint8Array>();
+	return {
+		port: { readable: deviceToHost.readable, writable: hostToDevice.writable },
+		deviceReader: hostToDevice.readable.getReader(),
+		deviceWriter: deviceToHost.writable.getWriter(),
+	};
+}
+
+describe('WebStreamTransport', () => {
+	test('should read and write through web streams', async () => {
+		const { port, deviceReader, deviceWriter } = createWebStreamPair();
+		const host = new AsyncSerialPort(new WebStreamTransport(port));
+		await host.open();
+
+		// Writes to TransformStream are resolved only when the other side reads them
+		const received = deviceReader.read();
+		await host.write(Buffer.from("AT\r"));
+		expect(Buffer.from((await received).value!).toString()).toBe("AT\r");
+
+		await deviceWriter.write(Buffer.from("\r\nOK\r\n"));
+		expect((await host.readUntil("OK\r\n", { timeout: 100 }))?.toString()).toBe("\r\nOK\r\n");
+
+		await host.update({ baudRate: 921600 });
+		expect(host.baudRate).toBe(921600);
+		expect(await host.getSignals()).toBeUndefined();
+
+		await host.close();
+		expect(host.isOpen).toBe(false);
+	});
+
+	test('should close the port when the device is gone', async () => {
+		const { port, deviceWriter } = createWebStreamPair();
+		const host = new AsyncSerialPort(new WebStreamTransport(port));
+		await host.open();
+
+		const closed = new Promise((resolve) => host.on('close', resolve));
+		await deviceWriter.close();
+		expect(await closed).toBeInstanceOf(Error);
+		expect(host.isOpen).toBe(false);
+	});
+
+	test('should continue reading after recoverable errors', async () => {
+		const { port, deviceWriter } = createWebStreamPair();
+		const webPort = { readable: port.readable as ReadableStream<Uint8Array> | null, writable: port.writable };
+		const host = new AsyncSerialPort(new WebStreamTransport(webPort));
+		await host.open();
+
+		// Parity error: the current stream is errored, Web Serial creates a new one
+		const deviceToHost = new TransformStream<Uint8Array, Uint8Array>();
+		webPort.readable = deviceToHost.readable;
+		await deviceWriter.abort(new Error("Parity error"));
+		await deviceToHost.writable.getWriter().write(Buffer.from("OK"));
+		expect((await host.read(2, 100))?.toString()).toBe("OK");
+		expect(host.isOpen).toBe(true);
+
+		await host.close();
+	});
+});
+
+describe('DuplexTransport', () => {
+	test('should run protocols over duplex streams', async () => {
+		const hostToDevice = new PassThrough();
+		const deviceToHost = new PassThrough();
+		const host = new AsyncSerialPort(new DuplexTransport(Duplex.from({ readable: deviceToHost, writable: hostToDevice })));
+		hostToDevice.on('data', (data: Buffer) => {
+			if (data.toString() == "ATQ0 V1 E0\r")
+				deviceToHost.write("\r\nOK\r\n");
+		});
+		await host.open();
+
+		const atc = new AtChannel(host);
+		atc.start();
+		expect(await atc.handshake()).toBe(true);
+		atc.stop();
+
+		await host.close();
+		expect(host.isOpen).toBe(false);
+		await expect(host.open()).rejects.toThrow(/can't be reopened/);
+	});
+});
@@ -0,0 +1,139 @@
+import { EventEmitter } from "node:events";
+import type { SerialPortStream } from "@serialport/stream";
+import type { BindingInterface } from "@serialport/bindings-interface";
+import type { SerialInputSignals, SerialLineSettings, SerialOutputSignals, SignalsNotifyingBindingPort } from "./AsyncSerialPort.js";
+
+export type SerialTransportEvents = {
+	data: [data: Buffer];
+	open: [];
+	// error is set when the transport is closed by the disconnect
+	close: [error?: Error];
+	// No more data will be received
+	end: [];
+	error: [error: Error];
+};
+
+// Line settings are applied on the next open(), except the baudrate which is changed with update()
+// Parity is any string, like in node-serialport open options
+export type SerialTransportSettings = Omit<SerialLineSettings, "parity"> & {
+	path: string;
+	baudRate: number;
+	parity?: string;
+};
+
+/**
+ * Byte stream with serial line controls, AsyncSerialPort is built on top of it.
+ * Received data is emitted with 'data' events, pause() must stop the events until resume().
+ * */
+export interface SerialTransport {
+	readonly isOpen: boolean;
+	readonly settings: SerialTransportSettings;
+
+	open(): Promise<void>;
+	close(): Promise<void>;
+	write(data: Buffer): Promise<void>;
+	// Waits until all written data is transmitted
+	drain(): Promise<void>;
+	// Discards data in the OS buffers
+	flush(): Promise<void>;
+	update(settings: { baudRate: number }): Promise<void>;
+	setSignals(signals: SerialOutputSignals): Promise<void>;
+	// undefined when the transport has no control lines
+	getSignals(): Promise<SerialInputSignals | undefined>;
+
+	pause(): void;
+	resume(): void;
+	isPaused(): boolean;
+
+	on<K extends keyof SerialTransportEvents>(event: K, listener: (...args: SerialTransportEvents[K]) => void): unknown;
+
+	// Current source of CTS/DSR/DCD notifications, can change after reopening
+	getSignalsNotifier?(): SignalsNotifyingBindingPort | undefined;
+	// Baudrate which is currently set in the OS
+	getBaudRate?(): Promise<number>;
+}
+
+export function isSerialTransport(port: unknown): port is SerialTransport {
+	return typeof (port as Partial<SerialTransport>).setSignals == "function" && typeof (port as Partial<SerialTransport>).getSignals == "function";
+}
+
+/**
+ * Transport for node-serialport streams (native ports, sockets, RFC 2217, SerialPortPair).
+ * */
+export class SerialPortStreamTransport<T extends BindingInterface = BindingInterface> extends EventEmitter<SerialTransportEvents> implements SerialTransport {
+	readonly stream: SerialPortStream<T>;
+
+	constructor(stream: SerialPortStream<T>) {
+		super();
+		this.stream = stream;
+		this.stream.on("data", (data: Buffer) => this.emit("data", data));
+		this.stream.on("open", () => this.emit("open"));
+		this.stream.on("close", (err?: Error) => this.emit("close", err ?? undefined));
+		this.stream.on("end", () => this.emit("end"));
+		this.stream.on("error", (err: Error) => this.emit("error", err));
+	}
+
+	get isOpen(): boolean {
+		return this.stream.isOpen;
+	}
+
+	get settings(): SerialTransportSettings {
+		return this.stream.settings;
+	}
+
+	open(): Promise<void> {
+		return new Promise((resolve, reject) => this.stream.open((err) => err ? reject(err) : resolve()));
+	}
+
+	close(): Promise<void> {
+		return new Promise((resolve, reject) => this.stream.close((err) => err ? reject(err) : resolve()));
+	}
+
+	write(data: Buffer): Promise<void> {
+		return new Promise((resolve, reject) => this.stream.write(data, (err) => err ? reject(err) : resolve()));
+	}
+
+	drain(): Promise<void> {
+		return new Promise((resolve, reject) => this.stream.drain((err) => err ? reject(err) : resolve()));
+	}
+
+	flush(): Promise<void> {
+		return new Promise((resolve, reject) => this.stream.flush((err) => err ? reject(err) : resolve()));
+	}
+
+	update(settings: { baudRate: number }): Promise<void> {
+		return new Promise((resolve, reject) => this.stream.update(settings, (err) => err ? reject(err) : resolve()));
+	}
+
+	setSignals(signals: SerialOutputSignals): Promise<void> {
+		return new Promise((resolve, reject) => this.stream.set(signals, (err) => err ? reject(err) : resolve()));
+	}
+
+	getSignals(): Promise<SerialInputSignals | undefined> {
+		return new Promise((resolve, reject) => this.stream.get((err, signals) => err ? reject(err) : resolve(signals)));
+	}
+
+	pause(): void {
+		this.stream.pause();
+	}
+
+	resume(): void {
+		this.stream.resume();
+	}
+
+	isPaused(): boolean {
+		return this.stream.isPaused();
+	}
+
+	getSignalsNotifier(): SignalsNotifyingBindingPort | undefined {
+		const bindingPort = this.stream.port as Partial<SignalsNotifyingBindingPort> | undefined;
+		return typeof bindingPort?.watchSignals == "function" ? bindingPort as SignalsNotifyingBindingPort : undefined;
+	}
+
+	async getBaudRate(): Promise<number> {
+		if (!this.stream.port)
+			throw new Error("Port is not open");
+		const { baudRate } = await this.stream.port.getBaudRate();
+		return baudRate;
+	}
+}
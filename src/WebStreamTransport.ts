@@ -0,0 +1,198 @@
+import { EventEmitter } from "node:events";
+import createDebug from "debug";
+import type { SerialInputSignals, SerialOutputSignals } from "./AsyncSerialPort.js";
+import type { SerialTransport, SerialTransportEvents, SerialTransportSettings } from "./SerialTransport.js";
+
+const debug = createDebug("webstream");
+
+export type WebSerialOpenOptions = {
+	baudRate: number;
+	dataBits?: number;
+	stopBits?: number;
+	parity?: string;
+	flowControl?: "none" | "hardware";
+};
+
+/**
+ * Subset of the Web Serial API SerialPort.
+ * A plain { readable, writable } pair is enough, then open/close and control lines are no-op.
+ * */
+export interface WebSerialPortLike {
+	readonly readable: ReadableStream<Uint8Array> | null;
+	readonly writable: WritableStream<Uint8Array> | null;
+	open?(options: WebSerialOpenOptions): Promise<void>;
+	close?(): Promise<void>;
+	setSignals?(signals: { dataTerminalReady?: boolean; requestToSend?: boolean; break?: boolean }): Promise<void>;
+	getSignals?(): Promise<{ clearToSend: boolean; dataSetReady: boolean; dataCarrierDetect: boolean; ringIndicator: boolean }>;
+}
+
+/**
+ * Transport for Web Streams, e.g. navigator.serial ports in the browser or Electron.
+ * Web Serial can't change the baudrate of the open port, so update() silently reopens it.
+ * */
+export class WebStreamTransport extends EventEmitter<SerialTransportEvents> implements SerialTransport {
+	readonly port: WebSerialPortLike;
+	readonly settings: SerialTransportSettings;
+	private reader?: ReadableStreamDefaultReader<Uint8Array>;
+	private writer?: WritableStreamDefaultWriter<Uint8Array>;
+	private readLoop?: Promise<void>;
+	private lastWrite: Promise<void> = Promise.resolve();
+	private stopping = false;
+	private paused = false;
+	private resumeCallback?: () => void;
+
+	constructor(port: WebSerialPortLike, settings: Partial<SerialTransportSettings> = {}) {
+		super();
+		this.port = port;
+		this.settings = { path: "webserial", baudRate: 115200, ...settings };
+	}
+
+	get isOpen(): boolean {
+		return this.reader != null;
+	}
+
+	async open(): Promise<void> {
+		if (this.isOpen)
+			return;
+		await this.start();
+		this.emit("open");
+	}
+
+	async close(): Promise<void> {
+		if (!this.isOpen)
+			return;
+		await this.stop();
+		this.emit("close");
+	}
+
+	private async start(): Promise<void> {
+		await this.port.open?.({
+			baudRate: this.settings.baudRate,
+			dataBits: this.settings.dataBits,
+			stopBits: this.settings.stopBits,
+			parity: this.settings.parity,
+			flowControl: this.settings.rtscts ? "hardware" : "none",
+		});
+		if (!this.port.readable || !this.port.writable)
+			throw new Error("Port streams are not available.");
+		this.writer = this.port.writable.getWriter();
+		this.reader = this.port.readable.getReader();
+		this.readLoop = this.readAll(this.reader);
+	}
+
+	private async stop(): Promise<void> {
+		const reader = this.reader!;
+		const writer = this.writer!;
+		this.stopping = true;
+		this.resumeCallback?.();
+		try {
+			await this.lastWrite.catch(() => undefined);
+			await reader.cancel().catch(() => undefined);
+			await this.readLoop;
+			reader.releaseLock();
+			writer.releaseLock();
+			await this.port.close?.();
+		} finally {
+			this.reader = undefined;
+			this.writer = undefined;
+			this.stopping = false;
+		}
+	}
+
+	private async readAll(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<void> {
+		let readable = this.port.readable;
+		let error: Error | undefined;
+		while (true) {
+			error = undefined;
+			try {
+				while (!this.stopping) {
+					while (this.paused && !this.stopping)
+						await new Promise<void>((resolve) => this.resumeCallback = resolve);
+					const { value, done } = await reader.read();
+					if (done)
+						break;
+					if (value.length > 0)
+						this.emit("data", Buffer.from(value.buffer, value.byteOffset, value.byteLength));
+				}
+			} catch (e) {
+				error = e instanceof Error ? e : new Error(String(e));
+			}
+
+			if (this.stopping || !error)
+				break;
+
+			// Web Serial reports framing, parity and overrun errors this way, then the port gets a new readable stream
+			const nextReadable = this.port.readable;
+			if (!nextReadable || nextReadable === readable)
+				break;
+			debug(`Read error: ${error.message}, continue with the new stream`);
+			reader.releaseLock();
+			readable = nextReadable;
+			reader = this.reader = nextReadable.getReader();
+		}
+
+		if (this.stopping)
+			return;
+
+		// The other side closed the stream or the device is unplugged
+		debug(`Stream is closed: ${error?.message ?? "EOF"}`);
+		this.emit("end");
+		const writer = this.writer;
+		this.reader = undefined;
+		this.writer = undefined;
+		reader.releaseLock();
+		writer?.releaseLock();
+		await this.port.close?.().catch(() => undefined);
+		this.emit("close", error ?? new Error("Stream is closed."));
+	}
+
+	async write(data: Buffer): Promise<void> {
+		if (!this.writer)
+			throw new Error("Port is not open");
+		this.lastWrite = this.writer.write(data);
+		await this.lastWrite;
+	}
+
+	async drain(): Promise<void> {
+		await this.lastWrite;
+	}
+
+	async flush(): Promise<void> {
+		// Web Serial has no API for discarding OS buffers
+	}
+
+	async update(settings: { baudRate: number }): Promise<void> {
+		if (settings.baudRate == this.settings.baudRate)
+			return;
+		this.settings.baudRate = settings.baudRate;
+		if (this.port.open) {
+			await this.stop();
+			await this.start();
+		}
+	}
+
+	async setSignals(signals: SerialOutputSignals): Promise<void> {
+		await this.port.setSignals?.({ dataTerminalReady: signals.dtr, requestToSend: signals.rts, break: signals.brk });
+	}
+
+	async getSignals(): Promise<SerialInputSignals | undefined> {
+		if (!this.port.getSignals)
+			return undefined;
+		const signals = await this.port.getSignals();
+		return { cts: signals.clearToSend, dsr: signals.dataSetReady, dcd: signals.dataCarrierDetect };
+	}
+
+	pause(): void {
+		this.paused = true;
+	}
+
+	resume(): void {
+		this.paused = false;
+		this.resumeCallback?.();
+		this.resumeCallback = undefined;
+	}
+
+	isPaused(): boolean {
+		return this.paused;
+	}
+}
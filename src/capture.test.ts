@@ -0,0 +1,106 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, test } from 'vitest';
+import {
+	decodeCaptureJsonl,
+	decodeCapturePcapng,
+	encodeCaptureJsonl,
+	encodeCapturePcapng,
+	SerialCaptureEvent
+} from './capture.js';
+import { createSerialPortPair } from './SerialPortPair.js';
+import { SerialRecorder } from './SerialRecorder.js';
+import { createReplayPort } from './SerialReplay.js';
+import { AtChannel } from './AtChannel.js';
+
+const EVENTS: SerialCaptureEvent[] = [
+	{ type: "baudRate", time: 1700000000000.001, baudRate: 115200 },
+	{ type: "signals", time: 1700000000000.002, signals: { dtr: true, rts: false, brk: false } },
+	{ type: "tx", time: 1700000000000.500, data: Buffer.from("AT\r") },
+	{ type: "rx", time: 1700000000001.250, data: Buffer.from("\r\nOK\r\n") },
+];
+
+describe('capture formats', () => {
+	test('should encode and decode pcapng', () => {
+		const pcapng = encodeCapturePcapng(EVENTS);
+		expect(pcapng.readUInt32LE(0)).toBe(0x0A0D0D0A);
+		const decoded = decodeCapturePcapng(pcapng);
+		expect(decoded).toHaveLength(EVENTS.length);
+		decoded.forEach((event, i) => {
+			expect({ ...event, time: 0 }).toEqual({ ...EVENTS[i], time: 0 });
+			expect(event.time).toBeCloseTo(EVENTS[i].time, 3);
+		});
+	});
+
+	test('should encode and decode jsonl', () => {
+		const jsonl = encodeCaptureJsonl(EVENTS);
+		expect(jsonl.trim().split("\n")).toHaveLength(EVENTS.length);
+		expect(decodeCaptureJsonl(jsonl)).toEqual(EVENTS);
+	});
+
+	test('should reject invalid pcapng', () => {
+		expect(() => decodeCapturePcapng(Buffer.from("not a pcapng file"))).toThrow(/Invalid pcapng/);
+	});
+});
+
+describe('SerialRecorder', () => {
+	test('should record traffic and replay it', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+
+		device.on('data', (data: Buffer) => {
+			if (data.toString().includes("\r"))
+				void device.write(Buffer.from("\r\nOK\r\n"));
+		});
+
+		const recorder = new SerialRecorder(host);
+		recorder.start();
+
+		const atc = new AtChannel(host);
+		atc.start();
+		await host.setSignals({ dtr: false });
+		expect(await atc.handshake()).toBe(true);
+		atc.stop();
+		await recorder.stop();
+
+		const events = recorder.getEvents();
+		expect(events.map((e) => e.type)).toEqual(["baudRate", "signals", "tx", "rx"]);
+
+		await host.close();
+		await device.close();
+
+		const replayPort = createReplayPort(events, { strict: true });
+		await replayPort.open();
+		const replayAtc = new AtChannel(replayPort);
+		replayAtc.start();
+		expect(await replayAtc.handshake()).toBe(true);
+		replayAtc.stop();
+		await replayPort.close();
+	});
+
+	test('should not keep events in memory when writing to a file', async () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), "sie-serial-capture-"));
+		try {
+			const { host, device } = createSerialPortPair();
+			await host.open();
+			await device.open();
+
+			const capturePath = path.join(directory, "capture.jsonl");
+			const recorder = new SerialRecorder(host, { path: capturePath });
+			recorder.start();
+			await host.write(Buffer.from("AT\r"));
+			await recorder.stop();
+
+			expect(recorder.getEvents()).toEqual([]);
+			const events = decodeCaptureJsonl(fs.readFileSync(capturePath, "utf-8"));
+			expect(events.map((e) => e.type)).toEqual(["baudRate", "tx"]);
+
+			await host.close();
+			await device.close();
+		} finally {
+			fs.rmSync(directory, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,276 @@
+import fs from "node:fs";
+import { SetOptions } from "@serialport/bindings-interface";
+
+/*
+ * Capture file formats.
+ *
+ * PCAPNG: one interface with LINKTYPE_USER0 (147), every packet starts with a 1-byte event type:
+ *   0x00 RX			[data...]
+ *   0x01 TX			[data...]
+ *   0x02 BAUDRATE	[u32le baudrate]
+ *   0x03 SIGNALS		[u8 flags: DTR=1, RTS=2, BRK=4]
+ *
+ * JSONL: one event per line, for example:
+ *   {"time":1700000000000.123,"type":"tx","data":"41540d"}
+ *   {"time":1700000000000.456,"type":"baudRate","baudRate":921600}
+ *   {"time":1700000000000.789,"type":"signals","signals":{"dtr":true,"rts":true,"brk":false}}
+ * */
+
+export const CAPTURE_LINKTYPE = 147; // LINKTYPE_USER0
+
+const PCAPNG_SHB = 0x0A0D0D0A;
+const PCAPNG_IDB = 0x00000001;
+const PCAPNG_EPB = 0x00000006;
+const PCAPNG_BOM = 0x1A2B3C4D;
+
+enum CaptureEventId {
+	RX			= 0x00,
+	TX			= 0x01,
+	BAUDRATE	= 0x02,
+	SIGNALS		= 0x03,
+}
+
+export type SerialCaptureFormat = "pcapng" | "jsonl";
+
+export type SerialCaptureSignals = {
+	dtr: boolean;
+	rts: boolean;
+	brk: boolean;
+};
+
+export type SerialCaptureDataEvent = {
+	type: "rx" | "tx";
+	time: number;
+	data: Buffer;
+};
+
+export type SerialCaptureBaudRateEvent = {
+	type: "baudRate";
+	time: number;
+	baudRate: number;
+};
+
+export type SerialCaptureSignalsEvent = {
+	type: "signals";
+	time: number;
+	signals: SerialCaptureSignals;
+};
+
+export type SerialCaptureEvent = SerialCaptureDataEvent | SerialCaptureBaudRateEvent | SerialCaptureSignalsEvent;
+
+export function captureTimestamp(): number {
+	return performance.timeOrigin + performance.now();
+}
+
+export function captureSignalsFromSetOptions(options: SetOptions): SerialCaptureSignals {
+	return { dtr: !!options.dtr, rts: !!options.rts, brk: !!options.brk };
+}
+
+export function getCaptureFormatFromPath(path: string): SerialCaptureFormat {
+	return path.match(/\.jsonl?$/i) ? "jsonl" : "pcapng";
+}
+
+function padBlock(length: number): number {
+	return (length + 3) & ~3;
+}
+
+function encodeCapturePayload(event: SerialCaptureEvent): Buffer {
+	switch (event.type) {
+		case "rx":
+		case "tx":
+			return Buffer.concat([ Buffer.from([event.type == "rx" ? CaptureEventId.RX : CaptureEventId.TX]), event.data ]);
+
+		case "baudRate": {
+			const payload = Buffer.alloc(5);
+			payload.writeUInt8(CaptureEventId.BAUDRATE, 0);
+			payload.writeUInt32LE(event.baudRate, 1);
+			return payload;
+		}
+
+		case "signals": {
+			const flags = (event.signals.dtr ? 1 : 0) | (event.signals.rts ? 2 : 0) | (event.signals.brk ? 4 : 0);
+			return Buffer.from([CaptureEventId.SIGNALS, flags]);
+		}
+	}
+}
+
+function decodeCapturePayload(time: number, payload: Buffer): SerialCaptureEvent | undefined {
+	if (payload.length < 1)
+		return undefined;
+	switch (payload[0]) {
+		case CaptureEventId.RX:
+			return { type: "rx", time, data: Buffer.from(payload.subarray(1)) };
+		case CaptureEventId.TX:
+			return { type: "tx", time, data: Buffer.from(payload.subarray(1)) };
+		case CaptureEventId.BAUDRATE:
+			if (payload.length < 5)
+				return undefined;
+			return { type: "baudRate", time, baudRate: payload.readUInt32LE(1) };
+		case CaptureEventId.SIGNALS:
+			if (payload.length < 2)
+				return undefined;
+			return { type: "signals", time, signals: { dtr: (payload[1] & 1) != 0, rts: (payload[1] & 2) != 0, brk: (payload[1] & 4) != 0 } };
+	}
+	return undefined;
+}
+
+function encodePcapngBlock(blockType: number, body: Buffer): Buffer {
+	const blockLength = 12 + padBlock(body.length);
+	const block = Buffer.alloc(blockLength);
+	block.writeUInt32LE(blockType, 0);
+	block.writeUInt32LE(blockLength, 4);
+	body.copy(block, 8);
+	block.writeUInt32LE(blockLength, blockLength - 4);
+	return block;
+}
+
+export function encodePcapngHeader(): Buffer {
+	const shb = Buffer.alloc(16);
+	shb.writeUInt32LE(PCAPNG_BOM, 0);
+	shb.writeUInt16LE(1, 4); // major
+	shb.writeUInt16LE(0, 6); // minor
+	shb.writeBigInt64LE(-1n, 8); // section length is unknown
+
+	const idb = Buffer.alloc(8);
+	idb.writeUInt16LE(CAPTURE_LINKTYPE, 0);
+	idb.writeUInt32LE(0, 4); // snaplen
+
+	return Buffer.concat([ encodePcapngBlock(PCAPNG_SHB, shb), encodePcapngBlock(PCAPNG_IDB, idb) ]);
+}
+
+export function encodePcapngEvent(event: SerialCaptureEvent): Buffer {
+	const payload = encodeCapturePayload(event);
+	const timestamp = BigInt(Math.round(event.time * 1000)); // us
+	const epb = Buffer.alloc(20 + padBlock(payload.length));
+	epb.writeUInt32LE(0, 0); // interface id
+	epb.writeUInt32LE(Number(timestamp >> 32n), 4);
+	epb.writeUInt32LE(Number(timestamp & 0xFFFFFFFFn), 8);
+	epb.writeUInt32LE(payload.length, 12);
+	epb.writeUInt32LE(payload.length, 16);
+	payload.copy(epb, 20);
+	return encodePcapngBlock(PCAPNG_EPB, epb);
+}
+
+export function encodeCapturePcapng(events: SerialCaptureEvent[]): Buffer {
+	return Buffer.concat([ encodePcapngHeader(), ...events.map(encodePcapngEvent) ]);
+}
+
+export function decodeCapturePcapng(buffer: Buffer): SerialCaptureEvent[] {
+	const events: SerialCaptureEvent[] = [];
+	const interfaces: { linkType: number, msPerTick: number }[] = [];
+	let littleEndian = true;
+	let offset = 0;
+
+	const u16 = (pos: number) => littleEndian ? buffer.readUInt16LE(pos) : buffer.readUInt16BE(pos);
+	const u32 = (pos: number) => littleEndian ? buffer.readUInt32LE(pos) : buffer.readUInt32BE(pos);
+
+	while (offset + 12 <= buffer.length) {
+		const blockType = buffer.readUInt32LE(offset);
+		if (blockType == PCAPNG_SHB) {
+			const bom = buffer.readUInt32LE(offset + 8);
+			if (bom == PCAPNG_BOM) {
+				littleEndian = true;
+			} else if (bom == 0x4D3C2B1A) {
+				littleEndian = false;
+			} else {
+				throw new Error(`Invalid pcapng byte-order magic: ${bom.toString(16)}`);
+			}
+			interfaces.length = 0;
+		} else if (offset == 0) {
+			throw new Error(`Invalid pcapng file.`);
+		}
+
+		const blockLength = u32(offset + 4);
+		if (blockLength < 12 || offset + blockLength > buffer.length)
+			throw new Error(`Invalid pcapng block length at offset ${offset}.`);
+
+		const body = offset + 8;
+		const bodyEnd = offset + blockLength - 4;
+
+		if (u32(offset) == PCAPNG_IDB) {
+			let msPerTick = 0.001; // default resolution is 1us
+			let optOffset = body + 8;
+			while (optOffset + 4 <= bodyEnd) {
+				const optCode = u16(optOffset);
+				const optLength = u16(optOffset + 2);
+				if (optCode == 0)
+					break;
+				if (optCode == 9 && optLength == 1) { // if_tsresol
+					const tsresol = buffer[optOffset + 4];
+					msPerTick = ((tsresol & 0x80) ? Math.pow(2, -(tsresol & 0x7F)) : Math.pow(10, -tsresol)) * 1000;
+				}
+				optOffset += 4 + padBlock(optLength);
+			}
+			interfaces.push({ linkType: u16(body), msPerTick });
+		} else if (u32(offset) == PCAPNG_EPB) {
+			const iface = interfaces[u32(body)];
+			if (iface && iface.linkType == CAPTURE_LINKTYPE) {
+				const timestamp = Number((BigInt(u32(body + 4)) << 32n) | BigInt(u32(body + 8)));
+				const capturedLength = u32(body + 12);
+				const payload = buffer.subarray(body + 20, body + 20 + capturedLength);
+				const event = decodeCapturePayload(timestamp * iface.msPerTick, payload);
+				if (event)
+					events.push(event);
+			}
+		}
+
+		offset += blockLength;
+	}
+
+	return events;
+}
+
+export function encodeJsonlEvent(event: SerialCaptureEvent): string {
+	if (event.type == "rx" || event.type == "tx")
+		return JSON.stringify({ time: event.time, type: event.type, data: event.data.toString("hex") }) + "\n";
+	return JSON.stringify(event) + "\n";
+}
+
+export function encodeCaptureJsonl(events: SerialCaptureEvent[]): string {
+	return events.map(encodeJsonlEvent).join("");
+}
+
+export function decodeCaptureJsonl(text: string): SerialCaptureEvent[] {
+	const events: SerialCaptureEvent[] = [];
+	let lineNumber = 0;
+	for (const line of text.split(/\r?\n/)) {
+		lineNumber++;
+		if (!line.trim().length)
+			continue;
+		const json = JSON.parse(line);
+		switch (json.type) {
+			case "rx":
+			case "tx":
+				events.push({ type: json.type, time: +json.time, data: Buffer.from(json.data, "hex") });
+			break;
+
+			case "baudRate":
+				events.push({ type: "baudRate", time: +json.time, baudRate: +json.baudRate });
+			break;
+
+			case "signals":
+				events.push({ type: "signals", time: +json.time, signals: captureSignalsFromSetOptions(json.signals) });
+			break;
+
+			default:
+				throw new Error(`Unknown capture event at line ${lineNumber}: ${json.type}`);
+		}
+	}
+	return events;
+}
+
+export function readCaptureFile(path: string, format?: SerialCaptureFormat): SerialCaptureEvent[] {
+	format ??= getCaptureFormatFromPath(path);
+	if (format == "jsonl")
+		return decodeCaptureJsonl(fs.readFileSync(path, "utf-8"));
+	return decodeCapturePcapng(fs.readFileSync(path));
+}
+
+export function writeCaptureFile(path: string, events: SerialCaptureEvent[], format?: SerialCaptureFormat): void {
+	format ??= getCaptureFormatFromPath(path);
+	if (format == "jsonl") {
+		fs.writeFileSync(path, encodeCaptureJsonl(events));
+	} else {
+		fs.writeFileSync(path, encodeCapturePcapng(events));
+	}
+}
@@ -0,0 +1,123 @@
+import { describe, expect, test, vi } from 'vitest';
+import { createSerialPortPair } from './SerialPortPair.js';
+import { detectPhoneState } from './detect.js';
+import { AsyncSerialPort } from './AsyncSerialPort.js';
+import { BFC, BfcFrameTypes } from './BFC.js';
+import { decapsulateATtoDWD } from './DWD.js';
+
+function emulateAtPhone(device: AsyncSerialPort, { baudRate, cgsn }: { baudRate: number, cgsn: boolean }) {
+	let buffer = "";
+	device.on('data', async (data: Buffer) => {
+		buffer += data.toString("latin1");
+		let lineEnd: number;
+		while ((lineEnd = buffer.indexOf("\r")) >= 0) {
+			const cmd = buffer.substring(0, lineEnd);
+			buffer = buffer.substring(lineEnd + 1);
+			if (await device.getBaudRate() != baudRate)
+				continue;
+			if (cmd == "ATQ0 V1 E0") {
+				await device.write("\r\nOK\r\n");
+			} else if (cmd == "AT+CGSN:A000003C,00000004") {
+				await device.write(cgsn ? Buffer.from("\r\n\xA1CJKT\r\nOK\r\n", "latin1") : "\r\nERROR\r\n");
+			}
+		}
+	});
+}
+
+// Phone in the BFC mode, answers only the STATUS (ping) frames
+function emulateBfcPhone(device: AsyncSerialPort, { baudRate }: { baudRate: number }) {
+	device.on('data', async (data: Buffer) => {
+		if (await device.getBaudRate() != baudRate)
+			return;
+		// Several frames can be received in one chunk
+		for (let offset = 0; offset + 8 <= data.length; offset += 8) {
+			const frame = data.subarray(offset, offset + 8);
+			if ((frame[4] & 0x0F) != BfcFrameTypes.STATUS || frame[6] != 0x80 || frame[7] != 0x11)
+				continue;
+			// Response from the destination channel: src and dst are swapped
+			const response = Buffer.from([frame[1], frame[0], 0x00, 0x02, BfcFrameTypes.STATUS, 0x00, 0x43, 0x11]);
+			response[5] = response[0] ^ response[1] ^ response[2] ^ response[3] ^ response[4];
+			await device.write(response);
+		}
+	});
+}
+
+// APOXI phone, answers the DWD handshake with keyRotate=0 for the zero keys
+function emulateDwdPhone(device: AsyncSerialPort) {
+	device.on('data', async (data: Buffer) => {
+		const frame = decapsulateATtoDWD(data)?.frame;
+		if (!frame || frame.length < 2)
+			return;
+		const frameId = frame.readUInt16LE(0);
+		if (frameId == 0x58) { // CONNECT1_REQ
+			const rand1 = frame.readUInt16LE(2);
+			const rand2 = frame.readUInt16LE(6);
+			const response = Buffer.alloc(10);
+			response.writeUInt16LE(0x57, 0); // CONNECT1_RESP
+			response.writeUInt16LE((rand1 * 8 - rand2 ^ 0xD427) & 0xFFFF, 4);
+			response.writeUInt16LE(rand2, 6);
+			response.writeUInt16LE(0x7F39, 8);
+			await device.write(response);
+		} else if (frameId == 0x59) { // CONNECT2_REQ
+			await device.write(Buffer.from([0x56, 0x00, 0x00, 0x00])); // CONNECT2_RESP without body
+		}
+	});
+}
+
+describe('detectPhoneState', () => {
+	test('should detect AT mode and baudrate', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+		emulateAtPhone(device, { baudRate: 460800, cgsn: false });
+		expect(await detectPhoneState(host, { bfc: false, dwd: false })).toEqual({ state: "AT", baudRate: 460800 });
+	});
+
+	test('should detect CGSN patch', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+		emulateAtPhone(device, { baudRate: 115200, cgsn: true });
+		expect(await detectPhoneState(host, { bfc: false, dwd: false })).toEqual({ state: "CGSN", baudRate: 115200 });
+	});
+
+	test('should restore baudrate when nothing answers', async () => {
+		const { host, device } = createSerialPortPair({ baudRate: 57600 });
+		await host.open();
+		await device.open();
+		expect(await detectPhoneState(host, { baudRates: [115200], bfc: false, dwd: false })).toEqual({ state: "NONE" });
+		expect(host.baudRate).toBe(57600);
+	});
+
+	test('should restore baudrate when probe throws', async () => {
+		const { host, device } = createSerialPortPair({ baudRate: 57600 });
+		await host.open();
+		await device.open();
+		const probe = vi.spyOn(BFC.prototype, "probe").mockRejectedValue(new Error("probe failed"));
+		try {
+			await expect(detectPhoneState(host, { baudRates: [115200], dwd: false })).rejects.toThrow("probe failed");
+			expect(host.baudRate).toBe(57600);
+		} finally {
+			probe.mockRestore();
+		}
+	});
+
+	test('should detect phone which is already in the BFC mode', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+		emulateBfcPhone(device, { baudRate: 230400 });
+		expect(await detectPhoneState(host, { baudRates: [115200], dwd: false })).toEqual({ state: "BFC", baudRate: 230400 });
+		expect(host.owner).toBeUndefined();
+	});
+
+	test('should fall back to DWD', async () => {
+		const { host, device } = createSerialPortPair();
+		await host.open();
+		await device.open();
+		emulateDwdPhone(device);
+		const dwdKeys = { key1: Buffer.alloc(16), key2: 0, key3: Buffer.alloc(16), key4: 0 };
+		expect(await detectPhoneState(host, { baudRates: [115200], dwdKeys })).toEqual({ state: "DWD", baudRate: 115200 });
+		expect(host.owner).toBeUndefined();
+	});
+});
@@ -0,0 +1,97 @@
+import createDebug from "debug";
+import { AsyncSerialPort } from "./AsyncSerialPort.js";
+import { AtChannel } from "./AtChannel.js";
+import { CGSN_BAUD_RATES, isCgsnPatchPresent } from "./CGSN.js";
+import { BFC } from "./BFC.js";
+import { DWD, DWDKeys } from "./DWD.js";
+
+const debug = createDebug("detect");
+
+export type PhoneState = "AT" | "CGSN" | "BFC" | "DWD" | "NONE";
+
+export type DetectPhoneStateOptions = {
+	// Baudrates for the AT probing
+	baudRates?: number[];
+	bfc?: boolean;
+	dwd?: boolean;
+	dwdKeys?: DWDKeys | string;
+};
+
+export type DetectPhoneStateResult = {
+	state: PhoneState;
+	baudRate?: number;
+};
+
+/**
+ * Detects in which mode the phone is. Probes are ordered from the most harmless:
+ * 1. AT handshake (+ CGSN patch signature check)
+ * 2. BFC ping (phone is already in the BFC mode)
+ * 3. DWD handshake (APOXI phones)
+ * The port is left with the working baudrate, or with the original baudrate when nothing answers.
+ * */
+export async function detectPhoneState(port: AsyncSerialPort, options: DetectPhoneStateOptions = {}): Promise<DetectPhoneStateResult> {
+	const validOptions = {
+		baudRates: CGSN_BAUD_RATES,
+		bfc: true,
+		dwd: true,
+		...options
+	};
+
+	if (!port.isOpen)
+		throw new Error(`Serial port closed.`);
+
+	const originalBaudRate = port.baudRate;
+	let result: DetectPhoneStateResult = { state: "NONE" };
+	try {
+		result = await probePhoneState(port, validOptions);
+	} finally {
+		// Restore the baudrate also when a probe throws
+		if (result.state == "NONE" && port.isOpen)
+			await port.update({ baudRate: originalBaudRate });
+	}
+	return result;
+}
+
+async function probePhoneState(port: AsyncSerialPort, options: DetectPhoneStateOptions & { baudRates: number[] }): Promise<DetectPhoneStateResult> {
+	const atc = new AtChannel(port);
+	atc.start();
+	try {
+		for (const baudRate of options.baudRates) {
+			debug(`Probing AT handshake at ${baudRate}...`);
+			await port.update({ baudRate });
+			if (await atc.handshake()) {
+				const state = await isCgsnPatchPresent(atc, 1) ? "CGSN" : "AT";
+				debug(`Detected ${state} at ${baudRate}`);
+				return { state, baudRate };
+			}
+		}
+	} finally {
+		atc.stop();
+	}
+
+	if (options.bfc) {
+		const baudRate = await new BFC(port).probe();
+		if (baudRate) {
+			debug(`Detected BFC at ${baudRate}`);
+			return { state: "BFC", baudRate };
+		}
+	}
+
+	if (options.dwd) {
+		await port.update({ baudRate: 115200 });
+		const dwd = new DWD(port);
+		if (options.dwdKeys)
+			dwd.setKeys(options.dwdKeys);
+		try {
+			await dwd.connect();
+			await dwd.disconnect();
+			debug(`Detected DWD at 115200`);
+			return { state: "DWD", baudRate: 115200 };
+		} catch (e) {
+			debug(`DWD handshake failed: ${e instanceof Error ? e.message : e}`);
+		}
+	}
+
+	debug(`Phone is not found.`);
+	return { state: "NONE" };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'vitest';
+import { BindingInterface, PortInfo } from '@serialport/bindings-interface';
+import { getMaxBaudRateForProtocol, getUSBDeviceInfo, getUSBDeviceName, listSerialPorts } from './discovery.js';
+
+function createListBinding(ports: Partial<PortInfo>[]): BindingInterface {
+	return {
+		async list() {
+			return ports.map((port) => ({
+				path: "",
+				manufacturer: undefined,
+				serialNumber: undefined,
+				pnpId: undefined,
+				locationId: undefined,
+				productId: undefined,
+				vendorId: undefined,
+				...port
+			}));
+		},
+		async open() {
+			throw new Error("Not supported");
+		},
+	};
+}
+
+describe('discovery', () => {
+	test('should identify known USB devices', () => {
+		expect(getUSBDeviceName(0x0403, 0x6001)).toBe("FT232");
+		expect(getUSBDeviceInfo(0x11F5, 0x0004)).toMatchObject({ name: "DCA-540", type: "usb" });
+		expect(getUSBDeviceName(0x1234, 0x5678)).toBeUndefined();
+	});
+
+	test('should list ports with known devices first', async () => {
+		const binding = createListBinding([
+			{ path: "/dev/ttyS0" },
+			{ path: "/dev/ttyUSB0", vendorId: "0403", productId: "6001" },
+			{ path: "/dev/ttyACM0", vendorId: "11f5", productId: "0004" },
+		]);
+		const ports = await listSerialPorts(binding);
+		expect(ports.map((p) => [p.path, p.device?.name])).toEqual([
+			["/dev/ttyUSB0", "FT232"],
+			["/dev/ttyACM0", "DCA-540"],
+			["/dev/ttyS0", undefined],
+		]);
+		expect(await listSerialPorts(binding, { onlyKnown: true })).toHaveLength(2);
+	});
+
+	test('should suggest max baudrate for the protocol', () => {
+		const ft232 = getUSBDeviceInfo(0x0403, 0x6001)!;
+		const dca540 = getUSBDeviceInfo(0x11F5, 0x0004)!;
+		expect(getMaxBaudRateForProtocol(ft232, "chaos")).toBe(1625000);
+		expect(getMaxBaudRateForProtocol(ft232, "bfc")).toBe(921600);
+		expect(getMaxBaudRateForProtocol(dca540, "bfc")).toBeUndefined();
+	});
+});
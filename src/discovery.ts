@@ -0,0 +1,92 @@
+import { sprintf } from "sprintf-js";
+import { BindingInterface, PortInfo } from "@serialport/bindings-interface";
+
+export type SerialDeviceProtocol = "at" | "cgsn" | "bfc" | "dwd" | "bsl" | "chaos" | "ebl";
+
+export type SerialDeviceInfo = {
+	name: string;
+	// usb-uart - USB to UART bridge in the data cable
+	// usb - phone's own USB interface (baudrate doesn't affect the speed)
+	type: "usb-uart" | "usb";
+	// Maximum usable baudrate, undefined when baudrate doesn't matter
+	maxBaudRate?: number;
+	protocols: SerialDeviceProtocol[];
+};
+
+export type DiscoveredSerialPort = PortInfo & {
+	vid?: number;
+	pid?: number;
+	device?: SerialDeviceInfo;
+};
+
+export type ListSerialPortsOptions = {
+	// Return only known cables and phones
+	onlyKnown?: boolean;
+};
+
+const UART_PROTOCOLS: SerialDeviceProtocol[] = ["at", "cgsn", "bfc", "dwd", "bsl", "chaos", "ebl"];
+
+const PL2303: SerialDeviceInfo = { name: "PL2303", type: "usb-uart", maxBaudRate: 921600, protocols: UART_PROTOCOLS };
+const CH340: SerialDeviceInfo = { name: "CH340", type: "usb-uart", maxBaudRate: 921600, protocols: UART_PROTOCOLS };
+const FT232: SerialDeviceInfo = { name: "FT232", type: "usb-uart", maxBaudRate: 1625000, protocols: UART_PROTOCOLS };
+const CP2102: SerialDeviceInfo = { name: "СР2102", type: "usb-uart", maxBaudRate: 921600, protocols: UART_PROTOCOLS };
+const DCA540: SerialDeviceInfo = { name: "DCA-540", type: "usb", protocols: ["at", "cgsn", "bfc"] };
+const APOXI_USB: SerialDeviceInfo["protocols"] = ["at", "dwd"];
+
+const USB_DEVICES: Record<string, SerialDeviceInfo> = {
+	"067B:2303": PL2303,
+	"1A86:7523": CH340,
+	"0403:6001": FT232,
+	"10C4:EA60": CP2102,
+	"11F5:0001": DCA540,
+	"11F5:0002": DCA540,
+	"11F5:0003": DCA540,
+	"11F5:0004": DCA540,
+	"11F5:0005": DCA540,
+	"11F5:0006": DCA540,
+	"11F5:0007": DCA540,
+	"11F5:1004": DCA540,
+	"04DA:2121": { name: "Panasonic VS/MX/SA", type: "usb", protocols: APOXI_USB },
+	"04DA:2129": { name: "Softbank 705p", type: "usb", protocols: APOXI_USB },
+	"04DA:213C": { name: "Softbank 810p", type: "usb", protocols: APOXI_USB },
+	"04DA:2149": { name: "Softbank 820p", type: "usb", protocols: APOXI_USB },
+	"04DA:2159": { name: "Softbank 821p", type: "usb", protocols: APOXI_USB },
+	"04DA:2172": { name: "Softbank 830p", type: "usb", protocols: APOXI_USB },
+	"04DA:2173": { name: "Softbank 831p", type: "usb", protocols: APOXI_USB },
+};
+
+export function getUSBDeviceInfo(vid: number, pid: number): SerialDeviceInfo | undefined {
+	const id = sprintf("%04X:%04X", vid, pid);
+	return USB_DEVICES[id];
+}
+
+export function getUSBDeviceName(vid: number, pid: number): string | undefined {
+	return getUSBDeviceInfo(vid, pid)?.name;
+}
+
+/**
+ * Lists serial ports using the serialport binding (for example SerialPort.binding) and identifies known cables.
+ * Known devices are returned first.
+ * */
+export async function listSerialPorts(binding: BindingInterface, options: ListSerialPortsOptions = {}): Promise<DiscoveredSerialPort[]> {
+	const ports: DiscoveredSerialPort[] = [];
+	for (const portInfo of await binding.list()) {
+		const vid = portInfo.vendorId ? parseInt(portInfo.vendorId, 16) : undefined;
+		const pid = portInfo.productId ? parseInt(portInfo.productId, 16) : undefined;
+		const device = vid != null && pid != null ? getUSBDeviceInfo(vid, pid) : undefined;
+		if (options.onlyKnown && !device)
+			continue;
+		ports.push({ ...portInfo, vid, pid, device });
+	}
+	return ports.sort((a, b) => +!!b.device - +!!a.device);
+}
+
+// Max baudrate which makes sense for the protocol on this device, undefined when baudrate switching is useless
+export function getMaxBaudRateForProtocol(device: SerialDeviceInfo, protocol: SerialDeviceProtocol): number | undefined {
+	if (!device.maxBaudRate || !device.protocols.includes(protocol))
+		return undefined;
+	// Only Chaos supports non-standard baudrates
+	if (protocol != "chaos")
+		return Math.min(device.maxBaudRate, 921600);
+	return device.maxBaudRate;
+}
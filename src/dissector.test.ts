@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'vitest';
+import { createDissector, dissectBuffer, dissectCapture, formatDissectedFrame } from './dissector.js';
+import { encapsulateDWDtoAT } from './DWD.js';
+import { EBL } from './EBL.js';
+import { SerialCaptureEvent } from './capture.js';
+
+function bfcPacket(dst: number, src: number, type: number, payload: Buffer): Buffer {
+	const header = Buffer.from([dst, src, payload.length >> 8, payload.length & 0xFF, type, 0]);
+	header[5] = header[0] ^ header[1] ^ header[2] ^ header[3] ^ header[4];
+	return Buffer.concat([header, payload]);
+}
+
+function eblPacket(cmd: number, payload: Buffer): Buffer {
+	const pkt = Buffer.alloc(payload.length + 10);
+	pkt.writeUInt16LE(2, 0);
+	pkt.writeUInt16LE(cmd, 2);
+	pkt.writeUInt16LE(payload.length, 4);
+	payload.copy(pkt, 6);
+	pkt.writeUInt16LE(EBL.checksum(cmd, payload), payload.length + 6);
+	pkt.writeUInt16LE(3, payload.length + 8);
+	return pkt;
+}
+
+describe('BfcDissector', () => {
+	test('should parse frames split across chunks and skip noise', () => {
+		const pkt = bfcPacket(0x11, 0x01, 0, Buffer.from([0x80, 0x11]));
+		const dissector = createDissector("bfc");
+		const frames = [
+			...dissector.feed("rx", Buffer.concat([Buffer.from("garbage"), pkt.subarray(0, 4)]), 0),
+			...dissector.feed("rx", pkt.subarray(4), 1),
+		];
+		const noise = frames.filter((f) => f.protocol == "raw").map((f) => f.raw);
+		expect(Buffer.concat(noise).toString()).toBe("garbage");
+		expect(frames.at(-1)).toMatchObject({ src: 0x01, dst: 0x11, payload: Buffer.from([0x80, 0x11]) });
+	});
+});
+
+describe('DwdDissector', () => {
+	test('should decode encapsulated requests and sized responses', () => {
+		const request = Buffer.from("76000000A0040000", "hex");
+		const response = Buffer.from("7700", "hex");
+		const frames = dissectCapture([
+			{ type: "tx", time: 0, data: Buffer.from([0x41, 0x54, 0x23, 0xFD, 0x0D, 0x00, 0x66, 0x8D, 0xED]) },
+			{ type: "tx", time: 1, data: encapsulateDWDtoAT(request) },
+			{ type: "rx", time: 2, data: Buffer.concat([response, Buffer.from([0x04, 0x00, 1, 2, 3, 4])]) },
+		], "dwd");
+		expect(frames.map((f) => f.protocol == "dwd" && f.name)).toEqual(["V24_ENABLE", "READ_MEMORY_REQ", "READ_MEMORY_RESP"]);
+		expect(frames[1].protocol == "dwd" && frames[1].payload).toEqual(request.subarray(2));
+		expect(frames[2].raw).toHaveLength(8);
+	});
+});
+
+describe('ChaosDissector', () => {
+	test('should follow BSL boot and chaos commands', () => {
+		const flash = Buffer.from([1, 2, 3, 4]);
+		const bootCode = Buffer.from([0xAA, 0x55]);
+		const events: SerialCaptureEvent[] = [
+			{ type: "tx", time: 0, data: Buffer.from("AT") },
+			{ type: "rx", time: 1, data: Buffer.from([0xC0]) },
+			{ type: "tx", time: 2, data: Buffer.from([0x30, 0x02, 0x00, ...bootCode, 0xAA ^ 0x55]) },
+			{ type: "rx", time: 3, data: Buffer.from([0xC1, 0xA5]) },
+			{ type: "tx", time: 4, data: Buffer.from([0x48, 0x05]) },
+			{ type: "rx", time: 5, data: Buffer.from([0x68]) },
+			{ type: "tx", time: 6, data: Buffer.from([0x41, 0x05]) },
+			{ type: "rx", time: 7, data: Buffer.from([0x48]) },
+			{ type: "tx", time: 8, data: Buffer.from("52A000000000000004", "hex") },
+			{ type: "rx", time: 9, data: Buffer.concat([flash, Buffer.from([0x4F, 0x4B, 1 ^ 2 ^ 3 ^ 4, 0])]) },
+		];
+		const frames = dissectCapture(events, "chaos");
+		expect(frames.map((f) => `${f.direction} ${f.protocol} ${"name" in f ? f.name : ""}`)).toEqual([
+			"tx bsl PING",
+			"rx bsl CPU",
+			"tx bsl BOOT_CODE",
+			"rx bsl ACK",
+			"rx chaos HELLO",
+			"tx chaos SET_BAUDRATE",
+			"rx chaos SET_BAUDRATE",
+			"tx chaos SET_BAUDRATE_ACK",
+			"rx chaos SET_BAUDRATE_ACK",
+			"tx chaos READ_FLASH",
+			"rx chaos READ_FLASH",
+		]);
+		expect(frames[5]).toMatchObject({ baudRate: 921600 });
+		expect(frames[10]).toMatchObject({ address: 0xA0000000, data: flash, status: 0x4B4F, checksumValid: true });
+	});
+});
+
+describe('EblDissector', () => {
+	test('should parse packets without BSL phase', () => {
+		const pkt = eblPacket(0x82, Buffer.from([0x00, 0xC2, 0x01, 0x00]));
+		const corrupted = Buffer.from(pkt);
+		corrupted[7] ^= 0xFF;
+		const frames = dissectBuffer(Buffer.concat([pkt, corrupted]), "ebl", "tx", { bootstrap: false });
+		expect(frames.map((f) => f.protocol == "ebl" && f.checksumValid)).toEqual([true, false]);
+		expect(frames[0]).toMatchObject({ cmd: 0x82, payload: Buffer.from([0x00, 0xC2, 0x01, 0x00]) });
+	});
+});
+
+describe('AtDissector', () => {
+	test('should split commands and responses into lines', () => {
+		const frames = dissectCapture([
+			{ type: "tx", time: 0, data: Buffer.from("ATE0\rAT+CGSN\r") },
+			{ type: "rx", time: 1, data: Buffer.from("\r\n35000000000000\r\n\r\nOK\r\n\r\nERR") },
+		], "at");
+		expect(frames.map(formatDissectedFrame)).toEqual([
+			"TX [AT] ATE0",
+			"TX [AT] AT+CGSN",
+			"RX [AT] 35000000000000",
+			"RX [AT] OK",
+			"RX [RAW] 45 52 52",
+		]);
+	});
+});
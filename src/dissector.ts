@@ -0,0 +1,636 @@
+import { sprintf } from "sprintf-js";
+import { BfcFrameFlags, BfcFrameTypes, calcTotalPacketSize, checkPacketChecksum, findPacketStartInBuffer } from "./BFC.js";
+import { decapsulateATtoDWD, getDWDFrameInfo } from "./DWD.js";
+import { CHAOS_BAUDRATES, ChaosCommand, ChaosResponse } from "./ChaosLoader.js";
+import { EBL, EBLCommand } from "./EBL.js";
+import { BSL_CPU_TYPES } from "./BSL.js";
+import type { SerialCaptureEvent } from "./capture.js";
+import { decodeCString, hexdump } from "./utils.js";
+
+export type DissectorProtocol = "bfc" | "dwd" | "chaos" | "ebl" | "bsl" | "at";
+
+export type DissectorDirection = "rx" | "tx";
+
+export type DissectorOptions = {
+	// Chaos and EBL sessions start with loading boot code via BSL
+	bootstrap?: boolean;
+};
+
+type DissectedFrameBase = {
+	direction: DissectorDirection;
+	time: number;
+	raw: Buffer;
+};
+
+export type DissectedRawFrame = DissectedFrameBase & {
+	protocol: "raw";
+};
+
+export type DissectedBfcFrame = DissectedFrameBase & {
+	protocol: "bfc";
+	src: number;
+	dst: number;
+	type: BfcFrameTypes;
+	flags: BfcFrameFlags;
+	payload: Buffer;
+	crcValid?: boolean;
+};
+
+export type DissectedDwdFrame = DissectedFrameBase & {
+	protocol: "dwd";
+	name: string;
+	frameId?: number;
+	payload: Buffer;
+};
+
+export type DissectedChaosFrame = DissectedFrameBase & {
+	protocol: "chaos";
+	name: string;
+	address?: number;
+	size?: number;
+	baudRate?: number;
+	status?: number;
+	data?: Buffer;
+	checksumValid?: boolean;
+};
+
+export type DissectedEblFrame = DissectedFrameBase & {
+	protocol: "ebl";
+	name: string;
+	cmd?: number;
+	payload: Buffer;
+	checksumValid?: boolean;
+};
+
+export type DissectedBslFrame = DissectedFrameBase & {
+	protocol: "bsl";
+	name: "PING" | "CPU" | "BOOT_CODE" | "ACK" | "NAK";
+	cpu?: string;
+	code?: Buffer;
+	checksumValid?: boolean;
+};
+
+export type DissectedAtFrame = DissectedFrameBase & {
+	protocol: "at";
+	line: string;
+};
+
+export type DissectedFrame =
+	| DissectedRawFrame
+	| DissectedBfcFrame
+	| DissectedDwdFrame
+	| DissectedChaosFrame
+	| DissectedEblFrame
+	| DissectedBslFrame
+	| DissectedAtFrame;
+
+export abstract class SerialDissector {
+	protected buffers: Record<DissectorDirection, Buffer> = { rx: Buffer.alloc(0), tx: Buffer.alloc(0) };
+
+	feed(direction: DissectorDirection, data: Buffer, time: number = Date.now()): DissectedFrame[] {
+		const frames: DissectedFrame[] = [];
+		this.buffers[direction] = Buffer.concat([this.buffers[direction], data]);
+		this.parse(direction, time, frames);
+		return frames;
+	}
+
+	// Returns all incomplete frames as raw data
+	flush(time: number = Date.now()): DissectedFrame[] {
+		const frames: DissectedFrame[] = [];
+		for (const direction of ["tx", "rx"] as DissectorDirection[]) {
+			if (this.buffers[direction].length > 0)
+				this.skip(direction, time, frames, this.buffers[direction].length);
+		}
+		return frames;
+	}
+
+	takeRemaining(direction: DissectorDirection): Buffer {
+		const remaining = this.buffers[direction];
+		this.buffers[direction] = Buffer.alloc(0);
+		return remaining;
+	}
+
+	protected abstract parse(direction: DissectorDirection, time: number, frames: DissectedFrame[]): void;
+
+	protected take(direction: DissectorDirection, size: number): Buffer {
+		const chunk = this.buffers[direction].subarray(0, size);
+		this.buffers[direction] = this.buffers[direction].subarray(size);
+		return Buffer.from(chunk);
+	}
+
+	protected skip(direction: DissectorDirection, time: number, frames: DissectedFrame[], size: number): void {
+		const raw = this.take(direction, size);
+		const last = frames.at(-1);
+		if (last && last.protocol == "raw" && last.direction == direction) {
+			last.raw = Buffer.concat([last.raw, raw]);
+		} else {
+			frames.push({ protocol: "raw", direction, time, raw });
+		}
+	}
+}
+
+export class BfcDissector extends SerialDissector {
+	protected parse(direction: DissectorDirection, time: number, frames: DissectedFrame[]): void {
+		while (this.buffers[direction].length >= 6) {
+			const buffer = this.buffers[direction];
+			const pktStart = findPacketStartInBuffer(buffer);
+			if (pktStart == null) {
+				this.skip(direction, time, frames, buffer.length - 5);
+				continue;
+			}
+
+			if (pktStart > 0) {
+				this.skip(direction, time, frames, pktStart);
+				continue;
+			}
+
+			const pktLen = calcTotalPacketSize(buffer);
+			if (buffer.length < pktLen)
+				break;
+
+			const pkt = this.take(direction, pktLen);
+			const flags = pkt[4] & 0xF0;
+			const payloadLen = pkt.readUInt16BE(2);
+			frames.push({
+				protocol: "bfc",
+				direction,
+				time,
+				raw: pkt,
+				dst: pkt[0],
+				src: pkt[1],
+				type: pkt[4] & 0x0F,
+				flags,
+				payload: pkt.subarray(6, 6 + payloadLen),
+				crcValid: (flags & BfcFrameFlags.CRC) ? checkPacketChecksum(pkt) : undefined,
+			});
+		}
+	}
+}
+
+export class DwdDissector extends SerialDissector {
+	protected parse(direction: DissectorDirection, time: number, frames: DissectedFrame[]): void {
+		if (direction == "tx") {
+			this.parseRequests(time, frames);
+		} else {
+			this.parseResponses(time, frames);
+		}
+	}
+
+	private parseRequests(time: number, frames: DissectedFrame[]): void {
+		while (this.buffers.tx.length > 0) {
+			const buffer = this.buffers.tx;
+			if (!isPrefixOf(buffer, "AT#")) {
+				this.skip("tx", time, frames, 1);
+				continue;
+			}
+
+			if (buffer.length < 5)
+				break;
+
+			// AT#\xFD\r or AT#\xFE\r - enable/disable V24 mode
+			if ((buffer[3] == 0xFD || buffer[3] == 0xFE) && buffer[4] == 0x0D) {
+				if (buffer.length < 9)
+					break;
+				const raw = this.take("tx", 9);
+				frames.push({ protocol: "dwd", direction: "tx", time, raw, name: raw[3] == 0xFD ? "V24_ENABLE" : "V24_DISABLE", payload: raw.subarray(5) });
+				continue;
+			}
+
+			const result = decapsulateATtoDWD(buffer);
+			if (!result)
+				break;
+
+			const raw = this.take("tx", result.size);
+			const frameId = result.frame.length >= 2 ? result.frame.readUInt16LE(0) : -1;
+			const info = getDWDFrameInfo(frameId);
+			frames.push({
+				protocol: "dwd",
+				direction: "tx",
+				time,
+				raw,
+				frameId,
+				name: info?.name ?? sprintf("UNKNOWN_%04X", frameId),
+				payload: result.frame.subarray(2),
+			});
+		}
+	}
+
+	private parseResponses(time: number, frames: DissectedFrame[]): void {
+		while (this.buffers.rx.length >= 2) {
+			const buffer = this.buffers.rx;
+			const frameId = buffer.readUInt16LE(0);
+			const info = getDWDFrameInfo(frameId);
+			if (!info || info.name.endsWith("_REQ")) {
+				this.skip("rx", time, frames, 1);
+				continue;
+			}
+
+			let frameSize = info.size;
+			if (frameSize == 0) {
+				if (buffer.length < 4)
+					break;
+				frameSize = 4 + buffer.readUInt16LE(2);
+			}
+
+			if (buffer.length < frameSize)
+				break;
+
+			const raw = this.take("rx", frameSize);
+			frames.push({ protocol: "dwd", direction: "rx", time, raw, frameId, name: info.name, payload: raw.subarray(2) });
+		}
+	}
+}
+
+export class BslDissector extends SerialDissector {
+	protected parse(direction: DissectorDirection, time: number, frames: DissectedFrame[]): void {
+		if (direction == "tx") {
+			this.parseRequests(time, frames);
+		} else {
+			this.parseResponses(time, frames);
+		}
+	}
+
+	private parseRequests(time: number, frames: DissectedFrame[]): void {
+		while (this.buffers.tx.length > 0) {
+			const buffer = this.buffers.tx;
+			if (buffer[0] == 0x41) {
+				if (buffer.length < 2)
+					break;
+				if (buffer[1] != 0x54) {
+					this.skip("tx", time, frames, 1);
+					continue;
+				}
+				frames.push({ protocol: "bsl", direction: "tx", time, raw: this.take("tx", 2), name: "PING" });
+			} else if (buffer[0] == 0x30) {
+				if (buffer.length < 3)
+					break;
+				const codeSize = buffer.readUInt16LE(1);
+				if (buffer.length < codeSize + 4)
+					break;
+				const raw = this.take("tx", codeSize + 4);
+				const code = raw.subarray(3, 3 + codeSize);
+				let chk = 0;
+				for (let i = 0; i < code.length; i++)
+					chk ^= code[i];
+				frames.push({ protocol: "bsl", direction: "tx", time, raw, name: "BOOT_CODE", code, checksumValid: chk == raw[raw.length - 1] });
+			} else {
+				this.skip("tx", time, frames, 1);
+			}
+		}
+	}
+
+	private parseResponses(time: number, frames: DissectedFrame[]): void {
+		while (this.buffers.rx.length > 0) {
+			const byte = this.buffers.rx[0];
+			if (byte == 0xB0 || byte == 0xC0) {
+				frames.push({ protocol: "bsl", direction: "rx", time, raw: this.take("rx", 1), name: "CPU", cpu: BSL_CPU_TYPES[byte] });
+			} else if (byte == 0xB1 || byte == 0xC1) {
+				frames.push({ protocol: "bsl", direction: "rx", time, raw: this.take("rx", 1), name: "ACK" });
+				break; // next bytes are from the loaded boot code
+			} else if (byte == 0x1B || byte == 0x1C) {
+				frames.push({ protocol: "bsl", direction: "rx", time, raw: this.take("rx", 1), name: "NAK" });
+			} else {
+				this.skip("rx", time, frames, 1);
+			}
+		}
+	}
+}
+
+// Base for the protocols which are started by loading boot code via BSL
+abstract class BootstrapDissector extends SerialDissector {
+	private bsl?: BslDissector;
+
+	constructor(options: DissectorOptions = {}) {
+		super();
+		if (options.bootstrap ?? true)
+			this.bsl = new BslDissector();
+	}
+
+	override feed(direction: DissectorDirection, data: Buffer, time: number = Date.now()): DissectedFrame[] {
+		const bsl = this.bsl;
+		if (!bsl)
+			return super.feed(direction, data, time);
+
+		const frames = bsl.feed(direction, data, time);
+		if (frames.some((f) => f.protocol == "bsl" && f.name == "ACK")) {
+			this.bsl = undefined;
+			this.onBooted(time);
+			for (const remainingDirection of ["tx", "rx"] as DissectorDirection[]) {
+				const remaining = bsl.takeRemaining(remainingDirection);
+				if (remaining.length > 0)
+					frames.push(...super.feed(remainingDirection, remaining, time));
+			}
+		}
+		return frames;
+	}
+
+	override flush(time: number = Date.now()): DissectedFrame[] {
+		return this.bsl ? this.bsl.flush(time) : super.flush(time);
+	}
+
+	protected onBooted(_time: number): void {
+		// Nothing
+	}
+}
+
+type ChaosPendingResponse = {
+	name: string;
+	size: number;
+	address?: number;
+};
+
+export class ChaosDissector extends BootstrapDissector {
+	private pending?: ChaosPendingResponse;
+	private waitingBaudRateAck = false;
+	private waitingHello = false;
+
+	protected override onBooted(): void {
+		this.waitingHello = true;
+	}
+
+	protected parse(direction: DissectorDirection, time: number, frames: DissectedFrame[]): void {
+		if (direction == "tx") {
+			this.parseRequests(time, frames);
+		} else {
+			this.parseResponses(time, frames);
+		}
+	}
+
+	private parseRequests(time: number, frames: DissectedFrame[]): void {
+		while (this.buffers.tx.length > 0) {
+			const buffer = this.buffers.tx;
+			const cmd = buffer[0];
+
+			if (cmd == ChaosCommand.HEARTBEAT) {
+				frames.push({ protocol: "chaos", direction: "tx", time, raw: this.take("tx", 1), name: "HEARTBEAT" });
+				continue;
+			}
+
+			let frame: DissectedChaosFrame | undefined;
+			let pending: ChaosPendingResponse | undefined;
+
+			if (cmd == ChaosCommand.SET_BAUDRATE_ACK && this.waitingBaudRateAck) {
+				if (buffer.length < 2)
+					break;
+				const raw = this.take("tx", 2);
+				frame = { protocol: "chaos", direction: "tx", time, raw, name: "SET_BAUDRATE_ACK", baudRate: chaosBaudRateFromIndex(raw[1]) };
+				pending = { name: "SET_BAUDRATE_ACK", size: 1 };
+				this.waitingBaudRateAck = false;
+			} else if (cmd == ChaosCommand.PING) {
+				frame = { protocol: "chaos", direction: "tx", time, raw: this.take("tx", 1), name: "PING" };
+				pending = { name: "PING", size: 1 };
+			} else if (cmd == ChaosCommand.SET_BAUDRATE) {
+				if (buffer.length < 2)
+					break;
+				const raw = this.take("tx", 2);
+				frame = { protocol: "chaos", direction: "tx", time, raw, name: "SET_BAUDRATE", baudRate: chaosBaudRateFromIndex(raw[1]) };
+				pending = { name: "SET_BAUDRATE", size: 1 };
+				this.waitingBaudRateAck = true;
+			} else if (cmd == ChaosCommand.GET_INFO) {
+				frame = { protocol: "chaos", direction: "tx", time, raw: this.take("tx", 1), name: "GET_INFO" };
+				pending = { name: "GET_INFO", size: 128 };
+			} else if (cmd == ChaosCommand.QUIT) {
+				frame = { protocol: "chaos", direction: "tx", time, raw: this.take("tx", 1), name: "QUIT" };
+			} else if (cmd == ChaosCommand.TEST || cmd == ChaosCommand.READ_FLASH) {
+				if (buffer.length < 9)
+					break;
+				const raw = this.take("tx", 9);
+				const name = cmd == ChaosCommand.TEST ? "TEST" : "READ_FLASH";
+				const address = raw.readUInt32BE(1);
+				const size = raw.readUInt32BE(5);
+				frame = { protocol: "chaos", direction: "tx", time, raw, name, address, size };
+				pending = { name, size: cmd == ChaosCommand.TEST ? 1 : size + 4, address };
+			} else if (cmd == ChaosCommand.WRITE_RAM) {
+				if (buffer.length < 9)
+					break;
+				const size = buffer.readUInt32BE(5);
+				if (buffer.length < size + 10)
+					break;
+				const raw = this.take("tx", size + 10);
+				const data = raw.subarray(9, 9 + size);
+				let chk = 0;
+				for (let i = 0; i < data.length; i++)
+					chk ^= data[i];
+				const address = raw.readUInt32BE(1);
+				frame = { protocol: "chaos", direction: "tx", time, raw, name: "WRITE_RAM", address, size, data, checksumValid: chk == raw[raw.length - 1] };
+				pending = { name: "WRITE_RAM", size: 2, address };
+			} else if (cmd == ChaosCommand.READ_CFI || cmd == ChaosCommand.WRITE_FLASH) {
+				// Response format is unknown
+				frame = { protocol: "chaos", direction: "tx", time, raw: this.take("tx", 1), name: ChaosCommand[cmd] };
+			} else {
+				this.skip("tx", time, frames, 1);
+				continue;
+			}
+
+			// Chaos is not pipelined, so new command means previous one is timed out
+			if (this.pending && this.buffers.rx.length > 0)
+				this.skip("rx", time, frames, this.buffers.rx.length);
+			this.pending = pending;
+			frames.push(frame);
+		}
+	}
+
+	private parseResponses(time: number, frames: DissectedFrame[]): void {
+		while (this.buffers.rx.length > 0) {
+			const buffer = this.buffers.rx;
+
+			if (!this.pending) {
+				if (this.waitingHello && buffer[0] == ChaosResponse.HELLO) {
+					this.waitingHello = false;
+					frames.push({ protocol: "chaos", direction: "rx", time, raw: this.take("rx", 1), name: "HELLO" });
+				} else {
+					this.skip("rx", time, frames, 1);
+				}
+				continue;
+			}
+
+			const pending = this.pending;
+			if (buffer.length < pending.size)
+				break;
+
+			this.pending = undefined;
+			const raw = this.take("rx", pending.size);
+			const frame: DissectedChaosFrame = { protocol: "chaos", direction: "rx", time, raw, name: pending.name, address: pending.address };
+
+			if (pending.name == "READ_FLASH") {
+				const size = pending.size - 4;
+				frame.size = size;
+				frame.data = raw.subarray(0, size);
+				frame.status = raw.readUInt16LE(size);
+				let chk = 0;
+				for (let i = 0; i < size; i++)
+					chk ^= raw[i];
+				frame.checksumValid = chk == raw.readUInt16LE(size + 2);
+			} else if (pending.name == "WRITE_RAM") {
+				frame.status = raw.readUInt16LE(0);
+				frame.checksumValid = frame.status != ChaosResponse.CHECKSUM_ERROR;
+			} else if (pending.name == "GET_INFO") {
+				frame.data = raw;
+			} else {
+				frame.status = raw[0];
+			}
+
+			frames.push(frame);
+		}
+	}
+}
+
+export class EblDissector extends BootstrapDissector {
+	private waitingInfo = false;
+
+	protected override onBooted(): void {
+		this.waitingInfo = true;
+	}
+
+	protected parse(direction: DissectorDirection, time: number, frames: DissectedFrame[]): void {
+		if (direction == "rx" && this.waitingInfo) {
+			if (this.buffers.rx.length < 76)
+				return;
+			this.waitingInfo = false;
+			const raw = this.take("rx", 76);
+			frames.push({ protocol: "ebl", direction, time, raw, name: `INFO ${decodeCString(raw.subarray(12))}`, payload: raw });
+		}
+
+		while (this.buffers[direction].length >= 6) {
+			const buffer = this.buffers[direction];
+			if (buffer.readUInt16LE(0) != 2) {
+				this.skip(direction, time, frames, 1);
+				continue;
+			}
+
+			const cmd = buffer.readUInt16LE(2);
+			const size = buffer.readUInt16LE(4);
+			if (buffer.length < size + 10)
+				break;
+
+			if (buffer.readUInt16LE(size + 8) != 3) {
+				this.skip(direction, time, frames, 1);
+				continue;
+			}
+
+			const raw = this.take(direction, size + 10);
+			const payload = raw.subarray(6, 6 + size);
+			frames.push({
+				protocol: "ebl",
+				direction,
+				time,
+				raw,
+				cmd,
+				name: EBLCommand[cmd] ?? sprintf("CMD_%02X", cmd),
+				payload,
+				checksumValid: EBL.checksum(cmd, payload) == raw.readUInt16LE(size + 6),
+			});
+		}
+	}
+}
+
+export class AtDissector extends SerialDissector {
+	protected parse(direction: DissectorDirection, time: number, frames: DissectedFrame[]): void {
+		const separator = direction == "tx" ? "\r" : "\r\n";
+		while (this.buffers[direction].length > 0) {
+			const buffer = this.buffers[direction];
+			if (direction == "rx" && isPrefixOf(buffer, "> ") && buffer.length >= 2) {
+				frames.push({ protocol: "at", direction, time, raw: this.take(direction, 2), line: ">" });
+				continue;
+			}
+
+			const lineEnd = buffer.indexOf(separator);
+			if (lineEnd < 0)
+				break;
+
+			const raw = this.take(direction, lineEnd + separator.length);
+			const line = raw.subarray(0, lineEnd).toString().replace(/^\n/, "");
+			if (line.length > 0)
+				frames.push({ protocol: "at", direction, time, raw, line });
+		}
+	}
+}
+
+export function createDissector(protocol: DissectorProtocol, options: DissectorOptions = {}): SerialDissector {
+	switch (protocol) {
+		case "bfc":		return new BfcDissector();
+		case "dwd":		return new DwdDissector();
+		case "chaos":	return new ChaosDissector(options);
+		case "ebl":		return new EblDissector(options);
+		case "bsl":		return new BslDissector();
+		case "at":		return new AtDissector();
+	}
+	throw new Error(`Unknown protocol: ${protocol}`);
+}
+
+export function dissectCapture(events: SerialCaptureEvent[], protocol: DissectorProtocol, options: DissectorOptions = {}): DissectedFrame[] {
+	const dissector = createDissector(protocol, options);
+	const frames: DissectedFrame[] = [];
+	let lastTime = 0;
+	for (const event of events) {
+		if (event.type == "rx" || event.type == "tx")
+			frames.push(...dissector.feed(event.type, event.data, event.time));
+		lastTime = event.time;
+	}
+	frames.push(...dissector.flush(lastTime));
+	return frames;
+}
+
+export function dissectBuffer(buffer: Buffer, protocol: DissectorProtocol, direction: DissectorDirection, options: DissectorOptions = {}): DissectedFrame[] {
+	const dissector = createDissector(protocol, options);
+	return [...dissector.feed(direction, buffer, 0), ...dissector.flush(0)];
+}
+
+export function formatDissectedFrame(frame: DissectedFrame): string {
+	const dir = frame.direction == "tx" ? "TX" : "RX";
+	switch (frame.protocol) {
+		case "raw":
+			return `${dir} [RAW] ${hexdump(frame.raw)}`;
+		case "bfc": {
+			const crc = frame.crcValid == null ? "" : (frame.crcValid ? " CRC:OK" : " CRC:BAD");
+			return sprintf(`%s [BFC] %02X >> %02X [TYPE:%s%s%s] %s`, dir, frame.src, frame.dst,
+				BfcFrameTypes[frame.type] ?? frame.type, (frame.flags & BfcFrameFlags.ACK) ? " ACK" : "", crc, hexdump(frame.payload));
+		}
+		case "dwd":
+			return `${dir} [DWD] ${frame.name} ${hexdump(frame.payload)}`;
+		case "chaos": {
+			const args: string[] = [];
+			if (frame.address != null)
+				args.push(sprintf("addr=%08X", frame.address));
+			if (frame.size != null)
+				args.push(sprintf("size=%d", frame.size));
+			if (frame.baudRate != null)
+				args.push(`baudRate=${frame.baudRate}`);
+			if (frame.status != null)
+				args.push(sprintf("status=%02X", frame.status));
+			if (frame.checksumValid != null)
+				args.push(frame.checksumValid ? "CHK:OK" : "CHK:BAD");
+			return `${dir} [CHAOS] ${frame.name} ${args.join(" ")}`.trim();
+		}
+		case "ebl": {
+			const chk = frame.checksumValid == null ? "" : (frame.checksumValid ? " CHK:OK" : " CHK:BAD");
+			return `${dir} [EBL] ${frame.name}${chk} ${hexdump(frame.payload)}`;
+		}
+		case "bsl": {
+			if (frame.name == "CPU")
+				return `${dir} [BSL] CPU ${frame.cpu}`;
+			if (frame.name == "BOOT_CODE")
+				return `${dir} [BSL] BOOT_CODE ${frame.code!.length} bytes ${frame.checksumValid ? "CHK:OK" : "CHK:BAD"}`;
+			return `${dir} [BSL] ${frame.name}`;
+		}
+		case "at":
+			return `${dir} [AT] ${frame.line}`;
+	}
+}
+
+function isPrefixOf(buffer: Buffer, prefix: string): boolean {
+	const length = Math.min(buffer.length, prefix.length);
+	for (let i = 0; i < length; i++) {
+		if (buffer[i] != prefix.charCodeAt(i))
+			return false;
+	}
+	return true;
+}
+
+function chaosBaudRateFromIndex(index: number): number | undefined {
+	for (const baudRate in CHAOS_BAUDRATES) {
+		if (CHAOS_BAUDRATES[baudRate] == index)
+			return +baudRate;
+	}
+	return undefined;
+}
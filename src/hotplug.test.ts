@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'vitest';
+import { PortInfo } from '@serialport/bindings-interface';
+import { createSerialPortPair } from './SerialPortPair.js';
+import { AtChannel } from './AtChannel.js';
+import { getSerialPortIdentity, reconnectSerialPort, SerialPortWaitError, waitForSerialPort } from './hotplug.js';
+
+function usbPort(path: string): PortInfo {
+	return {
+		path,
+		manufacturer: "Siemens",
+		serialNumber: "0123456789",
+		pnpId: undefined,
+		locationId: undefined,
+		vendorId: "11f5",
+		productId: "0004",
+	};
+}
+
+function createHotplugSetup() {
+	const { host, device } = createSerialPortPair({ hostPath: "/dev/ttyACM0" });
+	const stream = host.getParentPort();
+	const pipeBinding = stream.settings.binding;
+	const state = { ports: [usbPort("/dev/ttyACM0")] };
+	stream.settings.binding = {
+		list: async () => state.ports,
+		open: (options) => pipeBinding.open(options),
+	};
+	return { host, device, state };
+}
+
+describe('hotplug', () => {
+	test('should reopen the port with a new path after re-enumeration', async () => {
+		const { host, state } = createHotplugSetup();
+		await host.open();
+		const identity = await getSerialPortIdentity(host);
+		expect(identity).toEqual({ path: "/dev/ttyACM0", vendorId: "11f5", productId: "0004", serialNumber: "0123456789" });
+
+		await host.close();
+		state.ports = [];
+		setTimeout(() => state.ports = [usbPort("/dev/ttyACM1")], 30);
+
+		let connected = false;
+		await reconnectSerialPort(host, identity, {
+			pollInterval: 5,
+			timeout: 1000,
+			connect: async () => {
+				connected = true;
+			},
+		});
+		expect(host.isOpen).toBe(true);
+		expect(host.path).toBe("/dev/ttyACM1");
+		expect(connected).toBe(true);
+		await host.close();
+	});
+
+	test('should fail on timeout or abort', async () => {
+		const { host, state } = createHotplugSetup();
+		state.ports = [];
+		const binding = host.getParentPort().settings.binding;
+		const identity = { path: "/dev/ttyACM0", vendorId: "11f5", productId: "0004" };
+
+		await expect(waitForSerialPort(binding, identity, { timeout: 20, pollInterval: 5 })).rejects.toThrow(/not found/);
+
+		const controller = new AbortController();
+		setTimeout(() => controller.abort(), 10);
+		const error = await waitForSerialPort(binding, identity, { signal: controller.signal }).catch((e) => e);
+		expect(error).toBeInstanceOf(SerialPortWaitError);
+		expect(error.canceled).toBe(true);
+	});
+
+	test('should not wait forever for the handshake', async () => {
+		const { host } = createHotplugSetup();
+		await host.open();
+		const identity = await getSerialPortIdentity(host);
+		const hangingConnect = () => new Promise<void>(() => undefined);
+
+		await expect(reconnectSerialPort(host, identity, { pollInterval: 5, timeout: 50, connect: hangingConnect }))
+			.rejects.toThrow(/Handshake is not finished/);
+
+		const controller = new AbortController();
+		setTimeout(() => controller.abort(), 10);
+		const error = await reconnectSerialPort(host, identity, { pollInterval: 5, signal: controller.signal, connect: hangingConnect }).catch((e) => e);
+		expect(error).toBeInstanceOf(SerialPortWaitError);
+		expect(error.canceled).toBe(true);
+		await host.close();
+	});
+
+	test('should stop the handshake on timeout', async () => {
+		const { host } = createHotplugSetup();
+		await host.open();
+		const identity = await getSerialPortIdentity(host);
+
+		let handshakeSignal: AbortSignal | undefined;
+		const error = await reconnectSerialPort(host, identity, {
+			pollInterval: 5,
+			timeout: 50,
+			connect: async (signal) => {
+				handshakeSignal = signal;
+				new AtChannel(host).start();
+				await new Promise(() => undefined);
+			},
+		}).catch((e) => e);
+		expect(error).toBeInstanceOf(SerialPortWaitError);
+		expect(handshakeSignal?.aborted).toBe(true);
+		expect(host.isOpen).toBe(false);
+		expect(host.owner).toBeUndefined();
+	});
+});
@@ -0,0 +1,197 @@
+import createDebug from "debug";
+import { BindingInterface, PortInfo } from "@serialport/bindings-interface";
+import { AsyncSerialPort } from "./AsyncSerialPort.js";
+
+const debug = createDebug("hotplug");
+
+export type SerialPortIdentity = {
+	path: string;
+	vendorId?: string;
+	productId?: string;
+	serialNumber?: string;
+};
+
+export type WaitForSerialPortOptions = {
+	timeout?: number;
+	pollInterval?: number;
+	signal?: AbortSignal | null;
+};
+
+export type ReconnectSerialPortOptions = WaitForSerialPortOptions & {
+	// Protocol handshake after reopening, for example () => bfc.connect()
+	// The signal is aborted and the port is closed when the handshake isn't finished in time
+	connect?: (signal: AbortSignal) => Promise<void>;
+	// Wait until the old device is gone before searching for the new one
+	waitForRemoval?: boolean;
+};
+
+export class SerialPortWaitError extends Error {
+	readonly canceled: boolean;
+
+	constructor(message: string, canceled = false) {
+		super(message);
+		this.canceled = canceled;
+	}
+}
+
+function normalizeId(id: string | undefined): string | undefined {
+	return id ? id.toLowerCase().replace(/^0x/, "").padStart(4, "0") : undefined;
+}
+
+function isSameDevice(portInfo: PortInfo, identity: SerialPortIdentity): boolean {
+	// USB devices can get new path after re-enumeration
+	if (identity.vendorId && identity.productId) {
+		if (normalizeId(portInfo.vendorId) != normalizeId(identity.vendorId))
+			return false;
+		if (normalizeId(portInfo.productId) != normalizeId(identity.productId))
+			return false;
+		return !identity.serialNumber || portInfo.serialNumber == identity.serialNumber;
+	}
+	return portInfo.path == identity.path;
+}
+
+function getPortBinding(port: AsyncSerialPort): BindingInterface {
+	return port.getParentPort().settings.binding;
+}
+
+/**
+ * Returns USB VID/PID/serial of the port, must be called while device is still connected.
+ * */
+export async function getSerialPortIdentity(port: AsyncSerialPort): Promise<SerialPortIdentity> {
+	const ports = await getPortBinding(port).list();
+	const portInfo = ports.find((p) => p.path == port.path);
+	return {
+		path: port.path,
+		vendorId: portInfo?.vendorId,
+		productId: portInfo?.productId,
+		serialNumber: portInfo?.serialNumber,
+	};
+}
+
+async function pollSerialPorts(binding: BindingInterface, options: WaitForSerialPortOptions, check: (ports: PortInfo[]) => PortInfo | boolean): Promise<PortInfo | undefined> {
+	const validOptions = {
+		timeout: 30000,
+		pollInterval: 500,
+		...options
+	};
+	const start = Date.now();
+	while (true) {
+		if (validOptions.signal?.aborted)
+			throw new SerialPortWaitError("Aborted by user.", true);
+
+		const result = check(await binding.list());
+		if (result)
+			return result === true ? undefined : result;
+
+		if (Date.now() - start >= validOptions.timeout)
+			throw new SerialPortWaitError(`Device is not found within ${validOptions.timeout} ms.`);
+
+		await sleep(validOptions.pollInterval, validOptions.signal);
+	}
+}
+
+// Resolves early when the signal is aborted
+function sleep(timeout: number, signal?: AbortSignal | null): Promise<void> {
+	return new Promise<void>((resolve) => {
+		const onAbort = () => {
+			clearTimeout(timer);
+			resolve();
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, timeout);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+// Rejects with SerialPortWaitError on timeout or abort, the promise itself is not canceled
+function withDeadline<T>(promise: Promise<T>, deadline: number, signal?: AbortSignal | null): Promise<T> {
+	return new Promise<T>((resolve, reject) => {
+		const cleanup = () => {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", onAbort);
+		};
+		const onAbort = () => {
+			cleanup();
+			reject(new SerialPortWaitError("Aborted by user.", true));
+		};
+		const timer = setTimeout(() => {
+			cleanup();
+			reject(new SerialPortWaitError(`Handshake is not finished within the timeout.`));
+		}, Math.max(0, deadline - Date.now()));
+		if (signal?.aborted) {
+			onAbort();
+			return;
+		}
+		signal?.addEventListener("abort", onAbort, { once: true });
+		promise.then((value) => {
+			cleanup();
+			resolve(value);
+		}, (err) => {
+			cleanup();
+			reject(err);
+		});
+	});
+}
+
+export async function waitForSerialPort(binding: BindingInterface, identity: SerialPortIdentity, options: WaitForSerialPortOptions = {}): Promise<PortInfo> {
+	debug(`Waiting for ${identity.vendorId ? `${identity.vendorId}:${identity.productId}` : identity.path}...`);
+	const portInfo = await pollSerialPorts(binding, options, (ports) => ports.find((p) => isSameDevice(p, identity)) ?? false);
+	debug(`Device found: ${portInfo!.path}`);
+	return portInfo!;
+}
+
+export async function waitForSerialPortRemoval(binding: BindingInterface, identity: SerialPortIdentity, options: WaitForSerialPortOptions = {}): Promise<void> {
+	await pollSerialPorts(binding, options, (ports) => !ports.some((p) => isSameDevice(p, identity)));
+}
+
+/**
+ * Reopens the port after the device was re-enumerated (phone reboot, mode switching) and runs the protocol handshake.
+ * The device can come back with a different path, so it's found by VID/PID/serial from getSerialPortIdentity().
+ * */
+export async function reconnectSerialPort(port: AsyncSerialPort, identity: SerialPortIdentity, options: ReconnectSerialPortOptions = {}): Promise<void> {
+	const validOptions = {
+		timeout: 30000,
+		...options
+	};
+	const binding = getPortBinding(port);
+	const deadline = Date.now() + validOptions.timeout;
+	const getWaitOptions = () => ({ ...validOptions, timeout: Math.max(0, deadline - Date.now()) });
+
+	await port.close().catch((e) => debug(`close error: ${e.message}`));
+
+	if (validOptions.waitForRemoval)
+		await waitForSerialPortRemoval(binding, identity, getWaitOptions());
+
+	while (true) {
+		const portInfo = await waitForSerialPort(binding, identity, getWaitOptions());
+		port.setPath(portInfo.path);
+		try {
+			await port.open();
+			break;
+		} catch (e) {
+			// Device node can be not ready yet right after re-enumeration
+			debug(`open error: ${e instanceof Error ? e.message : e}`);
+			if (Date.now() >= deadline)
+				throw e;
+			await sleep(Math.min(validOptions.pollInterval ?? 500, Math.max(0, deadline - Date.now())), validOptions.signal);
+			if (validOptions.signal?.aborted)
+				throw new SerialPortWaitError("Aborted by user.", true);
+		}
+	}
+
+	if (validOptions.connect) {
+		const controller = new AbortController();
+		try {
+			await withDeadline(validOptions.connect(controller.signal), deadline, validOptions.signal);
+		} catch (e) {
+			if (e instanceof SerialPortWaitError) {
+				// Pending reads of the handshake fail, the protocol releases the port
+				controller.abort();
+				await port.close().catch((e) => debug(`close error: ${e.message}`));
+			}
+			throw e;
+		}
+	}
+}
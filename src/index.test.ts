@@ -0,0 +1,23 @@
+import { describe, expect, test, vi } from 'vitest';
+
+// Importing any of them from the main entry point fails the test
+vi.mock("node:fs", () => {
+	throw new Error("node:fs is imported.");
+});
+vi.mock("node:net", () => {
+	throw new Error("node:net is imported.");
+});
+vi.mock("@serialport/stream", () => {
+	throw new Error("@serialport/stream is imported.");
+});
+
+describe('Main entry point', () => {
+	test('should not load Node.js-only modules', async () => {
+		const serial = await import('./index.js');
+		expect(serial.BFC).toBeDefined();
+		expect(serial.ChaosLoader).toBeDefined();
+		expect(serial.WebStreamTransport).toBeDefined();
+		expect("openPort" in serial).toBe(false);
+		expect("SerialServer" in serial).toBe(false);
+	});
+});
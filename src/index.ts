@@ -1,4 +1,10 @@
 export * from './AtChannel.js';
+export * from './urc.js';
+export * from './AtDevice.js';
+export * from './AtSms.js';
+export * from './pdu.js';
+export * from './AtPhonebook.js';
+export * from './vcard.js';
 export * from './BFC.js';
 export * from './CGSN.js';
 export * from './BSL.js';
@@ -6,5 +12,14 @@ export * from './DWD.js';
 export * from './EBL.js';
 export * from './ChaosLoader.js';
 export * from './AsyncSerialPort.js';
+export * from './LinkStats.js';
+export * from './SerialTransport.js';
+export * from './WebStreamTransport.js';
+export * from './DuplexTransport.js';
+export * from './dissector.js';
+export * from './SerialProxy.js';
+export * from './detect.js';
+export * from './discovery.js';
+export * from './hotplug.js';
+export * from './portUrl.js';
 export * from './io.js';
-export { getUSBDeviceName } from './utils.js';
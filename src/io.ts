@@ -52,6 +52,8 @@ export type IoReadApi = {
 	debug: createDebug.Debugger,
 	read: (address: number, length: number, buffer: Buffer, bufferOffset: number) => Promise<void>;
 	onError?: (e: unknown) => Promise<void>;
+	// Called before the failed page is requested again
+	onRetry?: (e: unknown) => void;
 	maxRetries?: number;
 	adaptivePageSize?: IoAdaptivePageSizeConfig;
 };
@@ -62,6 +64,8 @@ export type IoWriteApi = {
 	debug: createDebug.Debugger,
 	write: (address: number, buffer: Buffer) => Promise<void>;
 	onError?: (e: unknown) => Promise<void>;
+	// Called before the failed page is requested again
+	onRetry?: (e: unknown) => void;
 	maxRetries?: number;
 	adaptivePageSize?: IoAdaptivePageSizeConfig;
 };
@@ -202,6 +206,8 @@ export async function ioReadMemory(api: IoReadApi, address: number, length: numb
 			if (!api.maxRetries || retriesCount >= api.maxRetries)
 				throw e;
 
+			api.onRetry?.(e);
+
 			if (api.adaptivePageSize) {
 				const remainingBytes = buffer.length - cursor;
 				if (remainingBytes > api.adaptivePageSize.smallPageSize) {
@@ -293,6 +299,8 @@ export async function ioWriteMemory(api: IoWriteApi, address: number, buffer: Bu
 			if (!api.maxRetries || retriesCount >= api.maxRetries)
 				throw e;
 
+			api.onRetry?.(e);
+
 			if (api.adaptivePageSize) {
 				const remainingBytes = buffer.length - cursor;
 				if (remainingBytes > api.adaptivePageSize.smallPageSize) {
@@ -0,0 +1,8 @@
+export * from './SerialPortPair.js';
+export * from './SerialRecorder.js';
+export * from './SerialReplay.js';
+export * from './capture.js';
+export * from './openPort.js';
+export * from './portLock.js';
+export * from './rfc2217.js';
+export * from './SerialServer.js';
@@ -0,0 +1,19 @@
+import { describe, expect, test } from 'vitest';
+import { createSerialPortPair } from './SerialPortPair.js';
+import { openPort } from './openPort.js';
+
+describe('openPort', () => {
+	test('should use the passed binding and prefer options from the URL', async () => {
+		const { host, device } = createSerialPortPair();
+		await device.open();
+
+		const port = await openPort("/dev/ttyUSB0?baudRate=921600", { baudRate: 115200, binding: host.getParentPort().settings.binding });
+		expect(port.isOpen).toBe(true);
+		expect(port.baudRate).toBe(921600);
+		await port.write("AT");
+		expect(await device.read(2, 100)).toEqual(Buffer.from("AT"));
+
+		await port.close();
+		await device.close();
+	});
+});
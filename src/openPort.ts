@@ -0,0 +1,57 @@
+import { SerialPortStream } from "@serialport/stream";
+import { BindingInterface } from "@serialport/bindings-interface";
+import { SocketBinding } from "serialport-bindings-socket";
+import { AsyncSerialPort } from "./AsyncSerialPort.js";
+import { Rfc2217Binding } from "./rfc2217.js";
+import { OpenPortOptions, parsePortUrl } from "./portUrl.js";
+
+// Native addon, it's loaded only for local ports. The name is not a literal, so it isn't resolved by tsc and bundlers.
+const LOCAL_BINDINGS_MODULE = "@sie-js/node-serialport-bindings-cpp";
+
+async function loadLocalBinding(): Promise<BindingInterface> {
+	const { autoDetect }: { autoDetect: () => BindingInterface } = await import(LOCAL_BINDINGS_MODULE);
+	return autoDetect();
+}
+
+/**
+ * Opens a local serial port or a remote port (pmb887x emulator, port shared over network).
+ * See parsePortUrl() for the supported URLs.
+ * Options from the query string override the options argument, so the argument works as defaults.
+ * */
+export async function openPort(url: string, options: OpenPortOptions = {}): Promise<AsyncSerialPort> {
+	const parsed = parsePortUrl(url);
+	const validOptions = {
+		baudRate: 115200,
+		autoOpen: true,
+		...options,
+		...parsed.options,
+	};
+
+	let binding: BindingInterface;
+	if (parsed.type == "socket") {
+		binding = SocketBinding;
+	} else if (parsed.type == "rfc2217") {
+		binding = Rfc2217Binding;
+	} else {
+		binding = validOptions.binding ?? await loadLocalBinding();
+	}
+	const port = new AsyncSerialPort(new SerialPortStream({
+		binding,
+		path: parsed.path,
+		baudRate: validOptions.baudRate,
+		rtscts: validOptions.rtscts,
+		xon: validOptions.xon,
+		xoff: validOptions.xoff,
+		autoOpen: false
+	}), { lock: validOptions.lock });
+	if (validOptions.echoCancellation)
+		port.setEchoCancellation(validOptions.echoCancellation);
+
+	if (validOptions.autoOpen) {
+		await port.open();
+		if (validOptions.dtr != null || validOptions.rts != null)
+			await port.setSignals({ dtr: validOptions.dtr ?? true, rts: validOptions.rts ?? true });
+	}
+
+	return port;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'vitest';
+import { decodeGsm7, decodePdu, encodeGsm7, encodeSubmitPdu, packSeptets, unpackSeptets } from './pdu.js';
+
+describe('GSM 7-bit', () => {
+	test('should pack septets', () => {
+		expect(packSeptets(encodeGsm7("hellohello")!).toString("hex")).toBe("e8329bfd4697d9ec37");
+		expect(decodeGsm7(unpackSeptets(Buffer.from("e8329bfd4697d9ec37", "hex"), 10))).toBe("hellohello");
+		expect(decodeGsm7(encodeGsm7("[1€] @ Ä")!)).toBe("[1€] @ Ä");
+		expect(encodeGsm7("Привет")).toBeUndefined();
+	});
+});
+
+describe('PDU', () => {
+	test('should decode SMS-DELIVER', () => {
+		expect(decodePdu("07911326040000F0040B911346610089F60000208062917314800CC8F71D14969741F977FD07")).toEqual({
+			type: "deliver",
+			smsc: "+31624000000",
+			sender: "+31641600986",
+			timestamp: new Date("2002-08-26T17:37:41Z"),
+			timezone: 8,
+			statusReport: false,
+			pid: 0,
+			dcs: 0,
+			encoding: "gsm7",
+			text: "How are you?",
+			concat: undefined,
+		});
+	});
+
+	test('should decode alphanumeric sender and UCS2', () => {
+		const pdu = decodePdu("07919730071111F1040DD0C8744B1876AF0100082150212153428106041F04400438");
+		expect(pdu).toMatchObject({ type: "deliver", sender: "Hi-Bank", encoding: "ucs2", text: "При" });
+	});
+
+	test('should decode SMS-STATUS-REPORT', () => {
+		const pdu = decodePdu("0006D60B911326880736F4111011719551401110117195714000");
+		expect(pdu).toEqual({
+			type: "status-report",
+			smsc: undefined,
+			reference: 0xD6,
+			recipient: "+31628870634",
+			timestamp: new Date("2011-01-11T16:59:15Z"),
+			dischargeTime: new Date("2011-01-11T16:59:17Z"),
+			status: 0,
+		});
+	});
+
+	test('should encode SMS-SUBMIT', () => {
+		expect(encodeSubmitPdu({ recipient: "+46708251358", text: "hellohello" })).toEqual([
+			{ pdu: "0001000B916407281553F800000AE8329BFD4697D9EC37", length: 22 },
+		]);
+		const [part] = encodeSubmitPdu({ recipient: "0123", text: "Привет", statusReport: true, validity: 24 * 60 });
+		expect(decodePdu(part.pdu)).toMatchObject({ type: "submit", recipient: "0123", encoding: "ucs2", text: "Привет", statusReport: true });
+	});
+
+	test('should split long messages', () => {
+		const text = "1234567890".repeat(15) + "€".repeat(10);
+		const parts = encodeSubmitPdu({ recipient: "+79001234567", text, concatRef: 42 });
+		expect(parts).toHaveLength(2);
+		const decoded = parts.map((part) => decodePdu(part.pdu));
+		expect(decoded.map((pdu) => pdu.type == "submit" && pdu.concat)).toEqual([
+			{ ref: 42, total: 2, seq: 1 },
+			{ ref: 42, total: 2, seq: 2 },
+		]);
+		// Escape sequence is not split between the parts
+		expect(decoded.map((pdu) => pdu.type == "submit" ? pdu.text : "").join("")).toBe(text);
+
+		expect(encodeSubmitPdu({ recipient: "+79001234567", text: "Ж".repeat(71) })).toHaveLength(2);
+		expect(encodeSubmitPdu({ recipient: "+79001234567", text: "Ж".repeat(70) })).toHaveLength(1);
+	});
+});
@@ -0,0 +1,455 @@
+// 3GPP TS 23.040 SMS TPDU and TS 23.038 alphabets
+
+export type SmsEncoding = "gsm7" | "8bit" | "ucs2";
+
+// Concatenated SMS, seq is 1-based
+export type SmsConcatInfo = {
+	ref: number;
+	total: number;
+	seq: number;
+};
+
+type SmsUserData = {
+	pid: number;
+	dcs: number;
+	encoding: SmsEncoding;
+	text: string;
+	// Raw user data without the header, only for 8bit messages
+	data?: Buffer;
+	concat?: SmsConcatInfo;
+};
+
+export type SmsDeliver = SmsUserData & {
+	type: "deliver";
+	smsc?: string;
+	sender: string;
+	timestamp: Date;
+	// Offset from UTC in quarters of an hour
+	timezone: number;
+	statusReport: boolean;
+};
+
+export type SmsSubmit = SmsUserData & {
+	type: "submit";
+	smsc?: string;
+	reference: number;
+	recipient: string;
+	statusReport: boolean;
+};
+
+export type SmsStatusReport = {
+	type: "status-report";
+	smsc?: string;
+	// TP-MR of the sent message, see the +CMGS response
+	reference: number;
+	recipient: string;
+	timestamp: Date;
+	dischargeTime: Date;
+	// 0x00..0x1F - delivered, 0x20..0x3F - still trying, 0x40.. - failed
+	status: number;
+};
+
+export type SmsPdu = SmsDeliver | SmsSubmit | SmsStatusReport;
+
+export type SmsSubmitOptions = {
+	recipient: string;
+	text?: string;
+	// 8bit message, the text is ignored
+	data?: Buffer;
+	// Auto: gsm7 when all characters are supported, otherwise ucs2
+	encoding?: SmsEncoding;
+	statusReport?: boolean;
+	// Relative validity period in minutes
+	validity?: number;
+	// Flash SMS (class 0)
+	flash?: boolean;
+	// Reference of the concatenated message, 0..255
+	concatRef?: number;
+};
+
+export type SmsSubmitPart = {
+	// Hex PDU with the empty SMSC address (the phone uses the default one)
+	pdu: string;
+	// TPDU length without the SMSC address, for AT+CMGS=<length>
+	length: number;
+};
+
+const GSM7_ALPHABET =
+	"@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞ\x1BÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?" +
+	"¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà";
+
+// Characters after the 0x1B escape
+const GSM7_EXTENSION: Record<number, string> = {
+	0x0A: "\f", 0x14: "^", 0x28: "{", 0x29: "}", 0x2F: "\\", 0x3C: "[", 0x3D: "~", 0x3E: "]", 0x40: "|", 0x65: "€",
+};
+
+const GSM7_ENCODE = new Map<string, number[]>([
+	...[...GSM7_ALPHABET].map((c, i) => [c, [i]] as [string, number[]]),
+	...Object.entries(GSM7_EXTENSION).map(([code, c]) => [c, [0x1B, Number(code)]] as [string, number[]]),
+]);
+GSM7_ENCODE.delete("\x1B");
+
+const BCD_DIGITS = "0123456789*#abc";
+
+// Returns undefined when the text has characters outside of the GSM 7-bit alphabet
+export function encodeGsm7(text: string): number[] | undefined {
+	const septets: number[] = [];
+	for (const c of text) {
+		const code = GSM7_ENCODE.get(c);
+		if (!code)
+			return undefined;
+		septets.push(...code);
+	}
+	return septets;
+}
+
+export function decodeGsm7(septets: number[]): string {
+	let result = "";
+	for (let i = 0; i < septets.length; i++) {
+		if (septets[i] == 0x1B && i + 1 < septets.length) {
+			i++;
+			// Unknown extension is displayed as a space
+			result += GSM7_EXTENSION[septets[i]] ?? " ";
+		} else {
+			result += GSM7_ALPHABET[septets[i]];
+		}
+	}
+	return result;
+}
+
+export function packSeptets(septets: number[], fillBits = 0): Buffer {
+	const result = Buffer.alloc(Math.ceil((septets.length * 7 + fillBits) / 8));
+	let bit = fillBits;
+	for (const septet of septets) {
+		for (let i = 0; i < 7; i++, bit++) {
+			if ((septet >> i) & 1)
+				result[bit >> 3] |= 1 << (bit & 7);
+		}
+	}
+	return result;
+}
+
+export function unpackSeptets(data: Buffer, count: number, fillBits = 0): number[] {
+	const result: number[] = [];
+	let bit = fillBits;
+	for (let n = 0; n < count && (bit + 7) <= data.length * 8; n++) {
+		let septet = 0;
+		for (let i = 0; i < 7; i++, bit++) {
+			if ((data[bit >> 3] >> (bit & 7)) & 1)
+				septet |= 1 << i;
+		}
+		result.push(septet);
+	}
+	return result;
+}
+
+export function getDcsEncoding(dcs: number): SmsEncoding {
+	const group = dcs >> 4;
+	if (group <= 0x07) {
+		// General data coding, 0x4X..0x7X - with automatic deletion
+		if (dcs & 0x20)
+			throw new Error(`Compressed SMS is not supported (DCS=0x${dcs.toString(16)}).`);
+		return (["gsm7", "8bit", "ucs2", "gsm7"] as const)[(dcs >> 2) & 3];
+	} else if (group == 0x0C || group == 0x0D) {
+		// Message waiting indication
+		return "gsm7";
+	} else if (group == 0x0E) {
+		return "ucs2";
+	} else if (group == 0x0F) {
+		return dcs & 0x04 ? "8bit" : "gsm7";
+	}
+	throw new Error(`Unsupported DCS: 0x${dcs.toString(16)}`);
+}
+
+class PduReader {
+	private readonly data: Buffer;
+	offset = 0;
+
+	constructor(data: Buffer) {
+		this.data = data;
+	}
+
+	readByte(): number {
+		if (this.offset >= this.data.length)
+			throw new Error(`Unexpected end of PDU at ${this.offset}.`);
+		return this.data[this.offset++];
+	}
+
+	read(size: number): Buffer {
+		if (this.offset + size > this.data.length)
+			throw new Error(`Unexpected end of PDU at ${this.offset}.`);
+		const result = this.data.subarray(this.offset, this.offset + size);
+		this.offset += size;
+		return result;
+	}
+
+	rest(): Buffer {
+		return this.read(this.data.length - this.offset);
+	}
+}
+
+function decodeBcd(data: Buffer, digits: number): string {
+	let result = "";
+	for (let i = 0; i < digits; i++) {
+		const nibble = i & 1 ? data[i >> 1] >> 4 : data[i >> 1] & 0x0F;
+		if (nibble == 0x0F)
+			break;
+		result += BCD_DIGITS[nibble];
+	}
+	return result;
+}
+
+function encodeBcd(digits: string): Buffer {
+	const result = Buffer.alloc(Math.ceil(digits.length / 2), 0xFF);
+	for (let i = 0; i < digits.length; i++) {
+		const nibble = BCD_DIGITS.indexOf(digits[i].toLowerCase());
+		if (nibble < 0)
+			throw new Error(`Invalid phone number: ${digits}`);
+		result[i >> 1] = i & 1 ? (result[i >> 1] & 0x0F) | (nibble << 4) : (result[i >> 1] & 0xF0) | nibble;
+	}
+	return result;
+}
+
+// International numbers are returned with "+"
+function formatAddress(type: number, number: string): string {
+	return (type & 0x70) == 0x10 && number.length > 0 ? `+${number}` : number;
+}
+
+// TP-OA, TP-DA, TP-RA: length in digits
+function readAddress(reader: PduReader): string {
+	const digits = reader.readByte();
+	const type = reader.readByte();
+	const data = reader.read(Math.ceil(digits / 2));
+	if ((type & 0x70) == 0x50)
+		return decodeGsm7(unpackSeptets(data, Math.floor(digits * 4 / 7)));
+	return formatAddress(type, decodeBcd(data, digits));
+}
+
+// SMSC address: length in octets, including the type
+function readSmscAddress(reader: PduReader): string | undefined {
+	const size = reader.readByte();
+	if (size == 0)
+		return undefined;
+	const type = reader.readByte();
+	return formatAddress(type, decodeBcd(reader.read(size - 1), (size - 1) * 2));
+}
+
+function encodeAddress(address: string): Buffer {
+	const digits = address.replace(/^\+/, "");
+	return Buffer.concat([Buffer.from([digits.length, address.startsWith("+") ? 0x91 : 0x81]), encodeBcd(digits)]);
+}
+
+function readTimestamp(reader: PduReader): { date: Date, timezone: number } {
+	const data = reader.read(7);
+	const field = (i: number) => (data[i] & 0x0F) * 10 + (data[i] >> 4);
+	const quarters = (data[6] & 0x07) * 10 + (data[6] >> 4);
+	const timezone = (data[6] & 0x08) && quarters ? -quarters : quarters;
+	const local = Date.UTC(2000 + field(0), field(1) - 1, field(2), field(3), field(4), field(5));
+	return { date: new Date(local - timezone * 15 * 60 * 1000), timezone };
+}
+
+// TP-VP relative format
+function encodeValidity(minutes: number): number {
+	if (minutes <= 720)
+		return Math.max(0, Math.ceil(minutes / 5) - 1);
+	if (minutes <= 1440)
+		return 143 + Math.ceil((minutes - 720) / 30);
+	if (minutes <= 30 * 1440)
+		return 166 + Math.ceil(minutes / 1440);
+	return Math.min(255, 192 + Math.ceil(minutes / 10080));
+}
+
+function readUserData(reader: PduReader, pid: number, dcs: number, hasHeader: boolean): SmsUserData {
+	const encoding = getDcsEncoding(dcs);
+	const udl = reader.readByte();
+	const ud = reader.rest();
+
+	let headerSize = 0;
+	let concat: SmsConcatInfo | undefined;
+	if (hasHeader && ud.length > 0) {
+		headerSize = ud[0] + 1;
+		concat = parseUserDataHeader(ud.subarray(1, headerSize));
+	}
+
+	if (encoding == "gsm7") {
+		const headerSeptets = Math.ceil(headerSize * 8 / 7);
+		const septets = unpackSeptets(ud, udl).slice(headerSeptets);
+		return { pid, dcs, encoding, text: decodeGsm7(septets), concat };
+	}
+
+	const data = ud.subarray(headerSize, udl);
+	if (encoding == "ucs2")
+		return { pid, dcs, encoding, text: decodeUcs2(data), concat };
+	return { pid, dcs, encoding, text: data.toString("latin1"), data: Buffer.from(data), concat };
+}
+
+function parseUserDataHeader(header: Buffer): SmsConcatInfo | undefined {
+	let concat: SmsConcatInfo | undefined;
+	for (let i = 0; i + 1 < header.length; i += header[i + 1] + 2) {
+		const iei = header[i];
+		const ie = header.subarray(i + 2, i + 2 + header[i + 1]);
+		if (iei == 0x00 && ie.length == 3) {
+			concat = { ref: ie[0], total: ie[1], seq: ie[2] };
+		} else if (iei == 0x08 && ie.length == 4) {
+			concat = { ref: ie.readUInt16BE(0), total: ie[2], seq: ie[3] };
+		}
+	}
+	return concat;
+}
+
+function decodeUcs2(data: Buffer): string {
+	let result = "";
+	for (let i = 0; i + 1 < data.length; i += 2)
+		result += String.fromCharCode(data.readUInt16BE(i));
+	return result;
+}
+
+function encodeUcs2(text: string): Buffer {
+	const result = Buffer.alloc(text.length * 2);
+	for (let i = 0; i < text.length; i++)
+		result.writeUInt16BE(text.charCodeAt(i), i * 2);
+	return result;
+}
+
+/**
+ * Decodes the hex PDU from +CMGL, +CMGR or +CMT.
+ * Set hasSmsc=false when the PDU starts directly with the TPDU.
+ * */
+export function decodePdu(hex: string, hasSmsc = true): SmsPdu {
+	const reader = new PduReader(Buffer.from(hex.trim(), "hex"));
+	const smsc = hasSmsc ? readSmscAddress(reader) : undefined;
+	const fo = reader.readByte();
+	const hasHeader = (fo & 0x40) != 0;
+
+	switch (fo & 0x03) {
+		case 0x00: {
+			const sender = readAddress(reader);
+			const pid = reader.readByte();
+			const dcs = reader.readByte();
+			const { date, timezone } = readTimestamp(reader);
+			return {
+				type: "deliver",
+				smsc,
+				sender,
+				timestamp: date,
+				timezone,
+				statusReport: (fo & 0x20) != 0,
+				...readUserData(reader, pid, dcs, hasHeader),
+			};
+		}
+
+		case 0x01: {
+			const reference = reader.readByte();
+			const recipient = readAddress(reader);
+			const pid = reader.readByte();
+			const dcs = reader.readByte();
+			const vpf = (fo >> 3) & 0x03;
+			if (vpf == 0x02) {
+				reader.read(1);
+			} else if (vpf != 0x00) {
+				reader.read(7);
+			}
+			return {
+				type: "submit",
+				smsc,
+				reference,
+				recipient,
+				statusReport: (fo & 0x20) != 0,
+				...readUserData(reader, pid, dcs, hasHeader),
+			};
+		}
+
+		case 0x02: {
+			const reference = reader.readByte();
+			const recipient = readAddress(reader);
+			const timestamp = readTimestamp(reader).date;
+			const dischargeTime = readTimestamp(reader).date;
+			const status = reader.readByte();
+			return { type: "status-report", smsc, reference, recipient, timestamp, dischargeTime, status };
+		}
+	}
+	throw new Error(`Unsupported PDU type: 0x${fo.toString(16)}`);
+}
+
+// Splits the text into parts without breaking escape sequences and surrogate pairs
+function splitText(text: string, encoding: "gsm7" | "ucs2", maxSize: number): string[] {
+	const parts: string[] = [];
+	let part = "";
+	let size = 0;
+	for (const c of text) {
+		const charSize = encoding == "gsm7" ? GSM7_ENCODE.get(c)!.length : c.length;
+		if (size + charSize > maxSize) {
+			parts.push(part);
+			part = "";
+			size = 0;
+		}
+		part += c;
+		size += charSize;
+	}
+	parts.push(part);
+	return parts;
+}
+
+/**
+ * Encodes SMS-SUBMIT, long messages are split into concatenated parts.
+ * */
+export function encodeSubmitPdu(options: SmsSubmitOptions): SmsSubmitPart[] {
+	const text = options.text ?? "";
+	const encoding: SmsEncoding = options.data ? "8bit" : (options.encoding ?? (encodeGsm7(text) ? "gsm7" : "ucs2"));
+	if (encoding == "gsm7" && !encodeGsm7(text))
+		throw new Error(`Text can't be encoded with the GSM 7-bit alphabet.`);
+
+	// [single, concatenated] part sizes in septets, octets or UTF-16 code units
+	const limits = { gsm7: [160, 153], ucs2: [70, 67], "8bit": [140, 134] }[encoding];
+	let chunks: (string | Buffer)[];
+	if (encoding == "8bit") {
+		const data = options.data ?? Buffer.from(text, "latin1");
+		const size = data.length > limits[0] ? limits[1] : limits[0];
+		chunks = [data.subarray(0, size)];
+		for (let i = size; i < data.length; i += size)
+			chunks.push(data.subarray(i, i + size));
+	} else {
+		chunks = splitText(text, encoding, limits[0]);
+		if (chunks.length > 1)
+			chunks = splitText(text, encoding, limits[1]);
+	}
+	if (chunks.length > 255)
+		throw new Error(`Message is too long: ${chunks.length} parts.`);
+
+	const concatRef = options.concatRef ?? Math.floor(Math.random() * 256);
+	const dcs = (options.flash ? 0x10 : 0x00) | { gsm7: 0x00, "8bit": 0x04, ucs2: 0x08 }[encoding];
+	const address = encodeAddress(options.recipient);
+
+	return chunks.map((chunk, index) => {
+		const header = chunks.length > 1 ? Buffer.from([0x05, 0x00, 0x03, concatRef & 0xFF, chunks.length, index + 1]) : Buffer.alloc(0);
+		let ud: Buffer;
+		let udl: number;
+		if (encoding == "gsm7") {
+			const septets = encodeGsm7(chunk as string)!;
+			const headerSeptets = Math.ceil(header.length * 8 / 7);
+			ud = Buffer.concat([header, packSeptets(septets, headerSeptets * 7 - header.length * 8)]);
+			udl = headerSeptets + septets.length;
+		} else {
+			ud = Buffer.concat([header, typeof chunk == "string" ? encodeUcs2(chunk) : chunk]);
+			udl = ud.length;
+		}
+
+		let fo = 0x01;
+		if (options.validity != null)
+			fo |= 0x10;
+		if (options.statusReport)
+			fo |= 0x20;
+		if (header.length > 0)
+			fo |= 0x40;
+
+		const tpdu = Buffer.concat([
+			Buffer.from([fo, 0x00]),
+			address,
+			Buffer.from([0x00, dcs]),
+			options.validity != null ? Buffer.from([encodeValidity(options.validity)]) : Buffer.alloc(0),
+			Buffer.from([udl]),
+			ud,
+		]);
+		return { pdu: `00${tpdu.toString("hex").toUpperCase()}`, length: tpdu.length };
+	});
+}
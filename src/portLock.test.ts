@@ -0,0 +1,74 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { acquirePortLock, getPortLockPath, SerialPortLockedError } from './portLock.js';
+import { createSerialPortPair } from './SerialPortPair.js';
+import { AsyncSerialPort } from './AsyncSerialPort.js';
+
+describe('portLock', () => {
+	let directory: string;
+
+	beforeEach(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), "sie-serial-lock-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	test('should use UUCP lock names', () => {
+		expect(getPortLockPath("/dev/ttyUSB0")).toBe("/var/lock/LCK..ttyUSB0");
+		expect(getPortLockPath("/dev/ttyUSB0", { directory: "/run/lock" })).toBe("/run/lock/LCK..ttyUSB0");
+		expect(getPortLockPath("tcp://127.0.0.1:1234")).toBeUndefined();
+	});
+
+	test('should reject busy ports and remove stale locks', async () => {
+		const lockPath = getPortLockPath("/dev/ttyUSB0", { directory })!;
+		const lock = await acquirePortLock("/dev/ttyUSB0", { directory });
+		expect(fs.readFileSync(lockPath, "latin1")).toBe(`${process.pid.toString().padStart(10, " ")}\n`);
+
+		const error = await acquirePortLock("/dev/ttyUSB0", { directory }).catch((e) => e);
+		expect(error).toBeInstanceOf(SerialPortLockedError);
+		expect(error.message).toBe(`Port /dev/ttyUSB0 is busy (pid ${process.pid}).`);
+
+		await lock!.release();
+		expect(fs.existsSync(lockPath)).toBe(false);
+
+		// PID which doesn't exist
+		fs.writeFileSync(lockPath, "4194304\n");
+		const newLock = await acquirePortLock("/dev/ttyUSB0", { directory });
+		expect(newLock?.path).toBe(lockPath);
+		expect(fs.readFileSync(lockPath, "latin1")).toBe(`${process.pid.toString().padStart(10, " ")}\n`);
+		expect(fs.readdirSync(directory)).toEqual(["LCK..ttyUSB0"]);
+		await newLock!.release();
+	});
+
+	test('should not remove new locks without PID', async () => {
+		const lockPath = getPortLockPath("/dev/ttyUSB0", { directory })!;
+		fs.writeFileSync(lockPath, "");
+		const error = await acquirePortLock("/dev/ttyUSB0", { directory }).catch((e) => e);
+		expect(error).toBeInstanceOf(SerialPortLockedError);
+		expect(error.message).toBe("Port /dev/ttyUSB0 is busy (lock is being created).");
+		expect(fs.existsSync(lockPath)).toBe(true);
+
+		// The owner died before writing the PID
+		const oldTime = new Date(Date.now() - 60000);
+		fs.utimesSync(lockPath, oldTime, oldTime);
+		const lock = await acquirePortLock("/dev/ttyUSB0", { directory });
+		expect(lock?.path).toBe(lockPath);
+		await lock!.release();
+	});
+
+	test('should lock port while it is open', async () => {
+		const { host } = createSerialPortPair({ hostPath: "/dev/ttyACM0" });
+		const port = new AsyncSerialPort(host.getParentPort(), { lock: { directory } });
+		const lockPath = path.join(directory, "LCK..ttyACM0");
+
+		await port.open();
+		expect(fs.existsSync(lockPath)).toBe(true);
+		await expect(acquirePortLock("/dev/ttyACM0", { directory })).rejects.toThrow(/is busy/);
+		await port.close();
+		expect(fs.existsSync(lockPath)).toBe(false);
+	});
+});
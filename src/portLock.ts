@@ -0,0 +1,132 @@
+import fs from "node:fs";
+import path from "node:path";
+import createDebug from "debug";
+
+const debug = createDebug("lock");
+
+// The lock created with the "wx" flag is empty until the owner writes its PID
+const NEW_LOCK_GRACE_PERIOD = 1000;
+
+export type PortLockOptions = {
+	// Directory for LCK..* files
+	directory?: string;
+};
+
+export class SerialPortLockedError extends Error {
+	readonly pid: number;
+
+	constructor(message: string, pid: number) {
+		super(message);
+		this.pid = pid;
+	}
+}
+
+export type PortLock = {
+	path: string;
+	release: () => Promise<void>;
+};
+
+/**
+ * UUCP-style lock files: /var/lock/LCK..ttyUSB0 with the PID of the owner process.
+ * Only local device paths are locked, returns undefined for other ports (sockets, COM ports on Windows).
+ * */
+export function getPortLockPath(portPath: string, options: PortLockOptions = {}): string | undefined {
+	if (process.platform == "win32" || !portPath.startsWith("/dev/"))
+		return undefined;
+	return path.join(options.directory ?? "/var/lock", `LCK..${path.basename(portPath)}`);
+}
+
+function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (e) {
+		// The process exists, but belongs to another user
+		return (e as NodeJS.ErrnoException).code == "EPERM";
+	}
+}
+
+async function readLockPid(lockPath: string): Promise<number> {
+	try {
+		return parseInt((await fs.promises.readFile(lockPath, "latin1")).trim()) || 0;
+	} catch (e) {
+		if ((e as NodeJS.ErrnoException).code == "ENOENT")
+			return 0;
+		throw e;
+	}
+}
+
+async function statLock(lockPath: string): Promise<fs.Stats | undefined> {
+	try {
+		return await fs.promises.stat(lockPath);
+	} catch (e) {
+		if ((e as NodeJS.ErrnoException).code == "ENOENT")
+			return undefined;
+		throw e;
+	}
+}
+
+// Another process can replace the stale lock with its own between the check and the removal,
+// so the lock is moved away atomically and removed only when it's still the same file
+async function removeStaleLock(lockPath: string, stale: fs.Stats): Promise<void> {
+	const movedPath = `${lockPath}.${process.pid}`;
+	try {
+		await fs.promises.rename(lockPath, movedPath);
+	} catch (e) {
+		if ((e as NodeJS.ErrnoException).code == "ENOENT")
+			return;
+		throw e;
+	}
+
+	const moved = await fs.promises.stat(movedPath);
+	if (moved.ino != stale.ino || moved.dev != stale.dev) {
+		debug(`Lock ${lockPath} is taken by another process, restoring it`);
+		try {
+			await fs.promises.link(movedPath, lockPath);
+		} catch (e) {
+			if ((e as NodeJS.ErrnoException).code != "EEXIST")
+				throw e;
+		}
+	}
+	await fs.promises.unlink(movedPath);
+}
+
+export async function acquirePortLock(portPath: string, options: PortLockOptions = {}): Promise<PortLock | undefined> {
+	const lockPath = getPortLockPath(portPath, options);
+	if (!lockPath)
+		return undefined;
+
+	const content = `${process.pid.toString().padStart(10, " ")}\n`;
+	for (let i = 0; i < 2; i++) {
+		try {
+			await fs.promises.writeFile(lockPath, content, { flag: "wx" });
+			debug(`Locked ${portPath} (${lockPath})`);
+			return {
+				path: lockPath,
+				release: async () => {
+					// Don't remove the lock which is already taken by somebody else
+					if (await readLockPid(lockPath) == process.pid) {
+						await fs.promises.unlink(lockPath);
+						debug(`Unlocked ${portPath}`);
+					}
+				},
+			};
+		} catch (e) {
+			if ((e as NodeJS.ErrnoException).code != "EEXIST")
+				throw e;
+		}
+
+		const stale = await statLock(lockPath);
+		const pid = await readLockPid(lockPath);
+		if (pid > 0 && isProcessAlive(pid))
+			throw new SerialPortLockedError(`Port ${portPath} is busy (pid ${pid}).`, pid);
+		if (pid == 0 && stale && Date.now() - stale.mtimeMs < NEW_LOCK_GRACE_PERIOD)
+			throw new SerialPortLockedError(`Port ${portPath} is busy (lock is being created).`, pid);
+
+		if (stale) {
+			debug(`Removing stale lock ${lockPath} (pid ${pid})`);
+			await removeStaleLock(lockPath, stale);
+		}
+	}
+	throw new Error(`Can't lock ${portPath}: ${lockPath} is recreated by another process.`);
+}
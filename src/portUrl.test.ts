@@ -0,0 +1,33 @@
+import { describe, expect, test } from 'vitest';
+import { parsePortUrl } from './portUrl.js';
+
+describe('parsePortUrl', () => {
+	test('should parse serial ports', () => {
+		expect(parsePortUrl("/dev/ttyUSB0")).toEqual({ type: "serial", path: "/dev/ttyUSB0", options: {} });
+		expect(parsePortUrl("COM3?baud=921600")).toEqual({ type: "serial", path: "COM3", options: { baudRate: 921600 } });
+		expect(parsePortUrl("serial:///dev/ttyACM0?dtr=0&rts=1&rtscts=true")).toEqual({
+			type: "serial",
+			path: "/dev/ttyACM0",
+			options: { dtr: false, rts: true, rtscts: true },
+		});
+		expect(parsePortUrl("/dev/ttyUSB0?echo=auto").options).toEqual({ echoCancellation: "auto" });
+		expect(parsePortUrl("/dev/ttyUSB0?echo=1").options).toEqual({ echoCancellation: true });
+		expect(parsePortUrl("/dev/ttyUSB0?lock=1").options).toEqual({ lock: true });
+	});
+
+	test('should parse socket ports', () => {
+		expect(parsePortUrl("tcp://127.0.0.1:1234?baudRate=115200")).toEqual({
+			type: "socket",
+			path: "tcp://127.0.0.1:1234",
+			options: { baudRate: 115200 },
+		});
+		expect(parsePortUrl("unix-server:///tmp/pmb887x.sock").type).toBe("socket");
+		expect(parsePortUrl("rfc2217://192.168.1.10:2217")).toEqual({ type: "rfc2217", path: "rfc2217://192.168.1.10:2217", options: {} });
+	});
+
+	test('should reject invalid urls', () => {
+		expect(() => parsePortUrl("http://example.com")).toThrow(/Unsupported/);
+		expect(() => parsePortUrl("/dev/ttyUSB0?speed=1")).toThrow(/Unknown port option/);
+		expect(() => parsePortUrl("/dev/ttyUSB0?baud=fast")).toThrow(/Invalid baudrate/);
+	});
+});
@@ -0,0 +1,91 @@
+import type { EchoCancellationMode } from "./AsyncSerialPort.js";
+import type { BindingInterface } from "@serialport/bindings-interface";
+import type { PortLockOptions } from "./portLock.js";
+
+export type OpenPortOptions = {
+	baudRate?: number;
+	// Initial state of the control lines, applied right after opening
+	dtr?: boolean;
+	rts?: boolean;
+	// Hardware (RTS/CTS) and software (XON/XOFF) flow control
+	rtscts?: boolean;
+	xon?: boolean;
+	xoff?: boolean;
+	// Strip TX bytes looped back by one-wire cables, see AsyncSerialPort.setEchoCancellation()
+	echoCancellation?: EchoCancellationMode;
+	// UUCP lock file, fails with SerialPortLockedError when the port is used by another process
+	lock?: boolean | PortLockOptions;
+	// false - return closed port, initial DTR/RTS are not applied in this case
+	autoOpen?: boolean;
+	// Binding for local serial ports, @sie-js/node-serialport-bindings-cpp by default
+	binding?: BindingInterface;
+};
+
+export type ParsedPortUrl = {
+	type: "serial" | "socket" | "rfc2217";
+	path: string;
+	options: OpenPortOptions;
+};
+
+const SOCKET_SCHEMES = ["tcp:", "tcp-server:", "unix:", "unix-server:"];
+
+function parseBoolean(value: string): boolean {
+	return ["1", "true", "on", "yes"].includes(value.toLowerCase());
+}
+
+/**
+ * Supported URLs:
+ *   /dev/ttyUSB0, COM3, serial:///dev/ttyUSB0
+ *   tcp://127.0.0.1:1234, tcp-server://0.0.0.0:1234
+ *   unix:///tmp/siemens.sock, unix-server:///tmp/siemens.sock
+ *   rfc2217://127.0.0.1:1234 (remote port with baudrate and DTR/RTS control)
+ * Options can be passed in the query string: /dev/ttyUSB0?baudRate=921600&dtr=0&rts=1&rtscts=1&echo=auto
+ * */
+export function parsePortUrl(url: string): ParsedPortUrl {
+	const queryIndex = url.indexOf("?");
+	let path = queryIndex >= 0 ? url.substring(0, queryIndex) : url;
+	const query = new URLSearchParams(queryIndex >= 0 ? url.substring(queryIndex + 1) : "");
+
+	const options: OpenPortOptions = {};
+	for (const [key, value] of query) {
+		switch (key) {
+			case "baud":
+			case "baudRate":
+			case "baudrate":
+				options.baudRate = parseInt(value);
+				if (!(options.baudRate > 0))
+					throw new Error(`Invalid baudrate: ${value}`);
+			break;
+			case "dtr":
+			case "rts":
+			case "rtscts":
+			case "xon":
+			case "xoff":
+				options[key] = parseBoolean(value);
+			break;
+			case "lock":
+				options.lock = parseBoolean(value);
+			break;
+			case "echo":
+				options.echoCancellation = value.toLowerCase() == "auto" ? "auto" : parseBoolean(value);
+			break;
+			default:
+				throw new Error(`Unknown port option: ${key}`);
+		}
+	}
+
+	const scheme = path.match(/^([a-z][a-z0-9+-]*:)\/\//i)?.[1].toLowerCase();
+	if (scheme && SOCKET_SCHEMES.includes(scheme))
+		return { type: "socket", path, options };
+
+	if (scheme == "rfc2217:")
+		return { type: "rfc2217", path, options };
+
+	if (scheme == "serial:") {
+		path = path.substring("serial://".length);
+	} else if (scheme) {
+		throw new Error(`Unsupported port URL: ${url}`);
+	}
+
+	return { type: "serial", path, options };
+}
@@ -0,0 +1,484 @@
+import net from "node:net";
+import createDebug from "debug";
+import {
+	BindingInterface,
+	BindingPortInterface,
+	BindingsErrorInterface,
+	OpenOptions,
+	PortStatus,
+	SetOptions,
+	UpdateOptions
+} from "@serialport/bindings-interface";
+import { SignalsNotifyingBindingPort } from "./AsyncSerialPort.js";
+
+const debug = createDebug("rfc2217");
+
+/*
+ * RFC 2217 - Telnet Com Port Control Option
+ * Unlike raw sockets, it allows to forward baudrate and DTR/RTS changes to the remote port.
+ * */
+
+export enum TelnetCommand {
+	SE		= 240,
+	NOP		= 241,
+	SB		= 250,
+	WILL	= 251,
+	WONT	= 252,
+	DO		= 253,
+	DONT	= 254,
+	IAC		= 255,
+}
+
+export enum TelnetOption {
+	BINARY		= 0,
+	SGA			= 3,
+	COM_PORT	= 44,
+}
+
+// Server responses are COMMAND + COM_PORT_SERVER_OFFSET
+export enum ComPortCommand {
+	SIGNATURE				= 0,
+	SET_BAUDRATE			= 1,
+	SET_DATASIZE			= 2,
+	SET_PARITY				= 3,
+	SET_STOPSIZE			= 4,
+	SET_CONTROL				= 5,
+	NOTIFY_LINESTATE		= 6,
+	NOTIFY_MODEMSTATE		= 7,
+	FLOWCONTROL_SUSPEND		= 8,
+	FLOWCONTROL_RESUME		= 9,
+	SET_LINESTATE_MASK		= 10,
+	SET_MODEMSTATE_MASK		= 11,
+	PURGE_DATA				= 12,
+}
+
+export const COM_PORT_SERVER_OFFSET = 100;
+
+export enum ComPortControl {
+	FLOW_REQUEST	= 0,
+	FLOW_NONE		= 1,
+	FLOW_XONXOFF	= 2,
+	FLOW_HARDWARE	= 3,
+	BREAK_REQUEST	= 4,
+	BREAK_ON		= 5,
+	BREAK_OFF		= 6,
+	DTR_REQUEST		= 7,
+	DTR_ON			= 8,
+	DTR_OFF			= 9,
+	RTS_REQUEST		= 10,
+	RTS_ON			= 11,
+	RTS_OFF			= 12,
+}
+
+export enum ComPortModemState {
+	CTS	= 0x10,
+	DSR	= 0x20,
+	RI	= 0x40,
+	CD	= 0x80,
+}
+
+export type TelnetEvent =
+	| { type: "data"; data: Buffer }
+	| { type: "negotiation"; command: TelnetCommand; option: number }
+	| { type: "subnegotiation"; option: number; payload: Buffer };
+
+enum DecoderState {
+	DATA,
+	IAC,
+	NEGOTIATION,
+	SB_OPTION,
+	SB_DATA,
+	SB_IAC,
+}
+
+export class TelnetDecoder {
+	private state = DecoderState.DATA;
+	private command = 0;
+	private option = 0;
+	private payload: number[] = [];
+
+	decode(chunk: Buffer): TelnetEvent[] {
+		const events: TelnetEvent[] = [];
+		let data: number[] = [];
+		const flushData = () => {
+			if (data.length > 0) {
+				events.push({ type: "data", data: Buffer.from(data) });
+				data = [];
+			}
+		};
+
+		for (const byte of chunk) {
+			switch (this.state) {
+				case DecoderState.DATA:
+					if (byte == TelnetCommand.IAC) {
+						this.state = DecoderState.IAC;
+					} else {
+						data.push(byte);
+					}
+				break;
+
+				case DecoderState.IAC:
+					if (byte == TelnetCommand.IAC) {
+						data.push(byte);
+						this.state = DecoderState.DATA;
+					} else if (byte >= TelnetCommand.WILL && byte <= TelnetCommand.DONT) {
+						this.command = byte;
+						this.state = DecoderState.NEGOTIATION;
+					} else if (byte == TelnetCommand.SB) {
+						this.state = DecoderState.SB_OPTION;
+					} else {
+						this.state = DecoderState.DATA; // NOP, etc
+					}
+				break;
+
+				case DecoderState.NEGOTIATION:
+					flushData();
+					events.push({ type: "negotiation", command: this.command, option: byte });
+					this.state = DecoderState.DATA;
+				break;
+
+				case DecoderState.SB_OPTION:
+					this.option = byte;
+					this.payload = [];
+					this.state = DecoderState.SB_DATA;
+				break;
+
+				case DecoderState.SB_DATA:
+					if (byte == TelnetCommand.IAC) {
+						this.state = DecoderState.SB_IAC;
+					} else {
+						this.payload.push(byte);
+					}
+				break;
+
+				case DecoderState.SB_IAC:
+					if (byte == TelnetCommand.IAC) {
+						this.payload.push(byte);
+						this.state = DecoderState.SB_DATA;
+					} else if (byte == TelnetCommand.SE) {
+						flushData();
+						events.push({ type: "subnegotiation", option: this.option, payload: Buffer.from(this.payload) });
+						this.state = DecoderState.DATA;
+					} else {
+						debug(`Invalid subnegotiation sequence: IAC ${byte}`);
+						this.state = DecoderState.DATA;
+					}
+				break;
+			}
+		}
+		flushData();
+		return events;
+	}
+}
+
+export function telnetEscape(data: Buffer): Buffer {
+	if (!data.includes(TelnetCommand.IAC))
+		return data;
+	const escaped: number[] = [];
+	for (const byte of data) {
+		escaped.push(byte);
+		if (byte == TelnetCommand.IAC)
+			escaped.push(byte);
+	}
+	return Buffer.from(escaped);
+}
+
+export function encodeTelnetNegotiation(command: TelnetCommand, option: number): Buffer {
+	return Buffer.from([TelnetCommand.IAC, command, option]);
+}
+
+export function encodeComPortCommand(command: number, payload: Buffer | number[]): Buffer {
+	return Buffer.concat([
+		Buffer.from([TelnetCommand.IAC, TelnetCommand.SB, TelnetOption.COM_PORT, command]),
+		telnetEscape(Buffer.from(payload)),
+		Buffer.from([TelnetCommand.IAC, TelnetCommand.SE]),
+	]);
+}
+
+function encodeU32(value: number): Buffer {
+	const buffer = Buffer.alloc(4);
+	buffer.writeUInt32BE(value);
+	return buffer;
+}
+
+export function modemStateFromPortStatus(status: PortStatus): number {
+	return (status.cts ? ComPortModemState.CTS : 0) |
+		(status.dsr ? ComPortModemState.DSR : 0) |
+		(status.dcd ? ComPortModemState.CD : 0);
+}
+
+type PendingResponse = {
+	resolve: (payload: Buffer) => void;
+	reject: (e: Error) => void;
+	timeout: NodeJS.Timeout;
+};
+
+/**
+ * Client side of RFC 2217, URL: rfc2217://host:port
+ * */
+export class Rfc2217PortBinding implements BindingPortInterface, SignalsNotifyingBindingPort {
+	readonly openOptions: Required<OpenOptions>;
+	isOpen = false;
+	private readonly socket: net.Socket;
+	private readonly decoder = new TelnetDecoder();
+	private readonly negotiated = new Set<string>();
+	private readonly pendingResponses: Record<number, PendingResponse[]> = {};
+	private baudRate: number;
+	private modemState = 0;
+	private readonly signalsListeners = new Set<(signals: PortStatus) => void>();
+	private chunks: Buffer[] = [];
+	private closeError?: Error;
+	private pendingRead?: {
+		buffer: Buffer;
+		offset: number;
+		length: number;
+		resolve: (result: { buffer: Buffer, bytesRead: number }) => void;
+		reject: (e: BindingsErrorInterface) => void;
+	};
+	responseTimeout = 1000;
+
+	constructor(socket: net.Socket, openOptions: Required<OpenOptions>) {
+		this.socket = socket;
+		this.openOptions = openOptions;
+		this.baudRate = openOptions.baudRate;
+		this.socket.on('data', (data) => this.handleSocketData(data));
+		this.socket.on('close', () => this.handleSocketClose(false));
+		this.socket.on('error', (e) => {
+			debug(`Socket error: ${e.message}`);
+			this.closeError = e;
+		});
+	}
+
+	async init(): Promise<void> {
+		this.isOpen = true;
+		this.socket.write(Buffer.concat([
+			encodeTelnetNegotiation(TelnetCommand.WILL, TelnetOption.COM_PORT),
+			encodeTelnetNegotiation(TelnetCommand.WILL, TelnetOption.BINARY),
+			encodeTelnetNegotiation(TelnetCommand.DO, TelnetOption.BINARY),
+		]));
+		await this.update({ baudRate: this.openOptions.baudRate });
+		await this.request(ComPortCommand.SET_MODEMSTATE_MASK, [ComPortModemState.CTS | ComPortModemState.DSR | ComPortModemState.CD]);
+	}
+
+	private handleSocketData(chunk: Buffer): void {
+		for (const event of this.decoder.decode(chunk)) {
+			if (event.type == "data") {
+				this.chunks.push(event.data);
+				this.resolvePendingRead();
+			} else if (event.type == "negotiation") {
+				this.handleNegotiation(event.command, event.option);
+			} else if (event.option == TelnetOption.COM_PORT && event.payload.length > 0) {
+				this.handleComPortResponse(event.payload[0] - COM_PORT_SERVER_OFFSET, event.payload.subarray(1));
+			}
+		}
+	}
+
+	private handleNegotiation(command: TelnetCommand, option: number): void {
+		const key = `${command}:${option}`;
+		if (this.negotiated.has(key))
+			return;
+		this.negotiated.add(key);
+		const supported = option == TelnetOption.BINARY || option == TelnetOption.COM_PORT || option == TelnetOption.SGA;
+		if (command == TelnetCommand.DO && !supported) {
+			this.socket.write(encodeTelnetNegotiation(TelnetCommand.WONT, option));
+		} else if (command == TelnetCommand.WILL && !supported) {
+			this.socket.write(encodeTelnetNegotiation(TelnetCommand.DONT, option));
+		} else if (command == TelnetCommand.WILL && option == TelnetOption.SGA) {
+			this.socket.write(encodeTelnetNegotiation(TelnetCommand.DO, option));
+		}
+	}
+
+	private handleComPortResponse(command: number, payload: Buffer): void {
+		if (command == ComPortCommand.NOTIFY_MODEMSTATE) {
+			this.modemState = payload[0] ?? 0;
+			for (const listener of this.signalsListeners)
+				listener(this.getPortStatus());
+			return;
+		}
+		if (command == ComPortCommand.SET_BAUDRATE && payload.length >= 4)
+			this.baudRate = payload.readUInt32BE(0);
+
+		const pending = this.pendingResponses[command]?.shift();
+		if (pending) {
+			clearTimeout(pending.timeout);
+			pending.resolve(payload);
+		}
+	}
+
+	private handleSocketClose(canceled: boolean): void {
+		this.isOpen = false;
+		for (const command in this.pendingResponses) {
+			for (const pending of this.pendingResponses[command]) {
+				clearTimeout(pending.timeout);
+				pending.reject(new Error("Connection closed"));
+			}
+			this.pendingResponses[command] = [];
+		}
+		if (this.pendingRead) {
+			const error: BindingsErrorInterface = this.closeError ?? new Error("Connection closed");
+			error.canceled = canceled;
+			this.pendingRead.reject(error);
+			this.pendingRead = undefined;
+		}
+	}
+
+	private resolvePendingRead(): void {
+		const req = this.pendingRead;
+		if (!req || !this.chunks.length)
+			return;
+		this.pendingRead = undefined;
+
+		let bytesRead = 0;
+		while (this.chunks.length > 0 && bytesRead < req.length) {
+			const chunk = this.chunks[0];
+			const chunkSize = Math.min(chunk.length, req.length - bytesRead);
+			chunk.copy(req.buffer, req.offset + bytesRead, 0, chunkSize);
+			bytesRead += chunkSize;
+			if (chunkSize == chunk.length) {
+				this.chunks.shift();
+			} else {
+				this.chunks[0] = chunk.subarray(chunkSize);
+			}
+		}
+		req.resolve({ buffer: req.buffer, bytesRead });
+	}
+
+	private request(command: ComPortCommand, payload: Buffer | number[]): Promise<Buffer> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		return new Promise((resolve, reject) => {
+			const timeout = setTimeout(() => {
+				const queue = this.pendingResponses[command];
+				queue.splice(queue.findIndex((p) => p.timeout === timeout), 1);
+				reject(new Error(`RFC2217 server is not responding (command ${command})`));
+			}, this.responseTimeout);
+			this.pendingResponses[command] ||= [];
+			this.pendingResponses[command].push({ resolve, reject, timeout });
+			this.socket.write(encodeComPortCommand(command, payload));
+		});
+	}
+
+	async close(): Promise<void> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		this.socket.end();
+		this.socket.destroy();
+		this.handleSocketClose(true);
+		this.chunks = [];
+	}
+
+	async read(buffer: Buffer, offset: number, length: number): Promise<{ buffer: Buffer; bytesRead: number }> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		if (this.pendingRead)
+			throw new Error("Read is already pending");
+		return new Promise((resolve, reject) => {
+			this.pendingRead = { buffer, offset, length, resolve, reject };
+			this.resolvePendingRead();
+		});
+	}
+
+	async write(buffer: Buffer): Promise<void> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		await new Promise<void>((resolve, reject) => {
+			this.socket.write(telnetEscape(buffer), (err) => err ? reject(err) : resolve());
+		});
+	}
+
+	async update(options: UpdateOptions): Promise<void> {
+		if (!(options.baudRate > 0))
+			throw new Error(`Invalid baudrate: ${options.baudRate}`);
+		await this.request(ComPortCommand.SET_BAUDRATE, encodeU32(options.baudRate));
+	}
+
+	async set(options: SetOptions): Promise<void> {
+		if (options.dtr != null)
+			await this.request(ComPortCommand.SET_CONTROL, [options.dtr ? ComPortControl.DTR_ON : ComPortControl.DTR_OFF]);
+		if (options.rts != null)
+			await this.request(ComPortCommand.SET_CONTROL, [options.rts ? ComPortControl.RTS_ON : ComPortControl.RTS_OFF]);
+		if (options.brk != null)
+			await this.request(ComPortCommand.SET_CONTROL, [options.brk ? ComPortControl.BREAK_ON : ComPortControl.BREAK_OFF]);
+	}
+
+	async get(): Promise<PortStatus> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		return this.getPortStatus();
+	}
+
+	// The server sends NOTIFY_MODEMSTATE on changes, the listener is also called with the current state
+	watchSignals(listener: (signals: PortStatus) => void): () => void {
+		this.signalsListeners.add(listener);
+		listener(this.getPortStatus());
+		return () => this.signalsListeners.delete(listener);
+	}
+
+	private getPortStatus(): PortStatus {
+		return {
+			cts: (this.modemState & ComPortModemState.CTS) != 0,
+			dsr: (this.modemState & ComPortModemState.DSR) != 0,
+			dcd: (this.modemState & ComPortModemState.CD) != 0,
+		};
+	}
+
+	async getBaudRate(): Promise<{ baudRate: number }> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		return { baudRate: this.baudRate };
+	}
+
+	async flush(): Promise<void> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+		this.chunks = [];
+		await this.request(ComPortCommand.PURGE_DATA, [1]); // purge RX
+	}
+
+	async drain(): Promise<void> {
+		if (!this.isOpen)
+			throw new Error("Port is not open");
+	}
+}
+
+export type Rfc2217BindingInterface = BindingInterface<Rfc2217PortBinding>;
+
+export const Rfc2217Binding: Rfc2217BindingInterface = {
+	async open(options) {
+		const url = new URL(options.path);
+		if (url.protocol != "rfc2217:" || !url.hostname || !url.port)
+			throw new Error(`Invalid RFC2217 url: ${options.path}`);
+
+		const socket = await new Promise<net.Socket>((resolve, reject) => {
+			const socket = net.createConnection({ host: url.hostname, port: parseInt(url.port) }, () => {
+				socket.off('error', reject);
+				resolve(socket);
+			});
+			socket.on('error', reject);
+		});
+		socket.setNoDelay(true);
+
+		const port = new Rfc2217PortBinding(socket, {
+			dataBits: 8,
+			lock: true,
+			stopBits: 1,
+			parity: 'none',
+			rtscts: false,
+			xon: false,
+			xoff: false,
+			xany: false,
+			hupcl: true,
+			...options
+		});
+		try {
+			await port.init();
+		} catch (e) {
+			socket.destroy();
+			throw e;
+		}
+		return port;
+	},
+	async list() {
+		return [];
+	},
+};
@@ -0,0 +1,22 @@
+import { describe, expect, test } from 'vitest';
+import { parseAtParams, parseUrc } from './urc.js';
+
+describe('parseAtParams', () => {
+	test('should parse quoted, numeric and empty params', () => {
+		expect(parseAtParams(` 1,"SM",,"a,b",Undervoltage`)).toEqual([1, "SM", undefined, "a,b", "Undervoltage"]);
+		expect(parseAtParams("")).toEqual([undefined]);
+	});
+});
+
+describe('parseUrc', () => {
+	test('should parse common URCs', () => {
+		expect(parseUrc(`+CREG: 1,"00C3","0000A1B2",2`)?.data).toEqual({ stat: 1, lac: 0xC3, ci: 0xA1B2, act: 2 });
+		expect(parseUrc(`+CMTI: "SM",3`)?.data).toEqual({ mem: "SM", index: 3 });
+		expect(parseUrc(`+CLIP: "+79001234567",145,,,"Mom",0`)?.data).toEqual({ number: "+79001234567", type: 145, alpha: "Mom", validity: 0 });
+		expect(parseUrc(`+CUSD: 0,"Balance: 10.00",15`)?.data).toEqual({ status: 0, message: "Balance: 10.00", dcs: 15 });
+		expect(parseUrc(`+CIEV: 1,3`)?.data).toEqual({ indicator: 1, value: 3 });
+		expect(parseUrc(`^SBC: Undervoltage`)?.data).toEqual({ warning: "Undervoltage" });
+		expect(parseUrc(`RING`)).toEqual({ type: "RING", line: "RING", data: {} });
+		expect(parseUrc(`+CSQ: 20,99`)).toBeUndefined();
+	});
+});
@@ -0,0 +1,137 @@
+// Network registration: +CREG: <stat>[,<lac>,<ci>[,<AcT>]]
+export type AtCregUrc = {
+	stat: number;
+	lac?: number;
+	ci?: number;
+	act?: number;
+};
+
+// New SMS stored in the memory: +CMTI: <mem>,<index>
+export type AtCmtiUrc = {
+	mem: string;
+	index: number;
+};
+
+// Caller ID: +CLIP: <number>,<type>[,<subaddr>,<satype>[,<alpha>[,<CLI validity>]]]
+export type AtClipUrc = {
+	number: string;
+	type: number;
+	alpha?: string;
+	validity?: number;
+};
+
+// USSD response: +CUSD: <m>[,<str>,<dcs>]
+export type AtCusdUrc = {
+	status: number;
+	message?: string;
+	dcs?: number;
+};
+
+// Indicator event: +CIEV: <ind>,<value>
+export type AtCievUrc = {
+	indicator: number;
+	value: number;
+};
+
+// Siemens battery warning: ^SBC: Undervoltage
+export type AtSbcUrc = {
+	warning: string;
+};
+
+export type AtUrcMap = {
+	"+CREG": AtCregUrc;
+	"+CMTI": AtCmtiUrc;
+	"+CLIP": AtClipUrc;
+	"+CUSD": AtCusdUrc;
+	"+CIEV": AtCievUrc;
+	"^SBC": AtSbcUrc;
+	"RING": Record<string, never>;
+	"NO CARRIER": Record<string, never>;
+};
+
+export type AtUrcType = keyof AtUrcMap;
+
+export type AtUrc<K extends AtUrcType = AtUrcType> = {
+	[T in K]: { type: T; line: string; data: AtUrcMap[T] };
+}[K];
+
+export type AtParam = string | number | undefined;
+
+const URC_PARSERS: { [K in AtUrcType]: (params: AtParam[]) => AtUrcMap[K] } = {
+	"+CREG": (params) => ({
+		stat: Number(params[0]),
+		lac: parseHexParam(params[1]),
+		ci: parseHexParam(params[2]),
+		act: typeof params[3] == "number" ? params[3] : undefined,
+	}),
+	"+CMTI": (params) => ({ mem: String(params[0]), index: Number(params[1]) }),
+	"+CLIP": (params) => ({
+		number: String(params[0] ?? ""),
+		type: Number(params[1]),
+		alpha: typeof params[4] == "string" ? params[4] : undefined,
+		validity: typeof params[5] == "number" ? params[5] : undefined,
+	}),
+	"+CUSD": (params) => ({
+		status: Number(params[0]),
+		message: typeof params[1] == "string" ? params[1] : undefined,
+		dcs: typeof params[2] == "number" ? params[2] : undefined,
+	}),
+	"+CIEV": (params) => ({ indicator: Number(params[0]), value: Number(params[1]) }),
+	"^SBC": (params) => ({ warning: String(params[0] ?? "") }),
+	"RING": () => ({}),
+	"NO CARRIER": () => ({}),
+};
+
+export const URC_TYPES = Object.keys(URC_PARSERS) as AtUrcType[];
+
+export function parseHexParam(param: AtParam): number | undefined {
+	if (param == null)
+		return undefined;
+	const value = parseInt(String(param), 16);
+	return isNaN(value) ? undefined : value;
+}
+
+/**
+ * Splits the AT response parameters: 1,"SM",,"a,b" => [1, "SM", undefined, "a,b"]
+ * Quoted values are strings, unquoted numbers are numbers.
+ * */
+export function parseAtParams(params: string): AtParam[] {
+	const result: AtParam[] = [];
+	let i = 0;
+	while (i <= params.length) {
+		while (params[i] == " ")
+			i++;
+		if (params[i] == '"') {
+			const end = params.indexOf('"', i + 1);
+			result.push(params.substring(i + 1, end >= 0 ? end : params.length));
+			i = end >= 0 ? end + 1 : params.length;
+			const comma = params.indexOf(",", i);
+			i = comma >= 0 ? comma + 1 : params.length + 1;
+		} else {
+			const comma = params.indexOf(",", i);
+			const value = params.substring(i, comma >= 0 ? comma : params.length).trim();
+			result.push(value == "" ? undefined : (/^-?\d+$/.test(value) ? parseInt(value) : value));
+			i = comma >= 0 ? comma + 1 : params.length + 1;
+		}
+	}
+	return result;
+}
+
+// Prefix of the URC line, e.g. "+CREG:" or "RING"
+export function getUrcPrefix(type: AtUrcType): string {
+	return /^[+^*!]/.test(type) ? `${type}:` : type;
+}
+
+export function parseUrc(line: string): AtUrc | undefined {
+	for (const type of URC_TYPES) {
+		const prefix = getUrcPrefix(type);
+		if (line.startsWith(prefix))
+			return parseUrcAs(type, line);
+	}
+	return undefined;
+}
+
+export function parseUrcAs<K extends AtUrcType>(type: K, line: string): AtUrc<K> {
+	const params = parseAtParams(line.substring(getUrcPrefix(type).length));
+	return { type, line, data: URC_PARSERS[type](params) } as AtUrc<K>;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, test } from 'vitest';
+import { exportVCard, importVCard } from './vcard.js';
+
+describe('vCard', () => {
+	test('should restore exported entries', () => {
+		const entries = [
+			{ index: 1, number: "+79001234567", type: 145, text: "Иванов; Иван, мл." },
+			{ index: 7, number: "0800", type: 129, text: "Очень длинное имя контакта, которое не помещается в одну строку" },
+		];
+		const vcard = exportVCard(entries);
+		expect(vcard.split("\r\n").every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+		expect(vcard).toContain("FN:Иванов\\; Иван\\, мл.\r\n");
+		expect(importVCard(vcard)).toEqual(entries.map(({ index, number, text }) => ({ index, number, text })));
+	});
+
+	test('should import vCard 2.1 from old phones', () => {
+		const vcard = [
+			"BEGIN:VCARD",
+			"VERSION:2.1",
+			"N;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:=D0=9F=D0=B5=D1=82=D1=80=D0=BE=D0=B2;=D0=9F=D0=B5=",
+			"=D1=82=D1=80",
+			"TEL;CELL:+7 (900) 123-45-67",
+			"item1.TEL;HOME:8-495-1234567",
+			"END:VCARD",
+			"BEGIN:VCARD",
+			"VERSION:4.0",
+			"FN:Support",
+			"TEL;VALUE=uri:tel:+78005553535",
+			"END:VCARD",
+			"BEGIN:VCARD",
+			"FN:No number",
+			"END:VCARD",
+		].join("\n");
+		expect(importVCard(vcard)).toEqual([
+			{ index: undefined, number: "+79001234567", text: "Петр Петров" },
+			{ index: undefined, number: "84951234567", text: "Петр Петров" },
+			{ index: undefined, number: "+78005553535", text: "Support" },
+		]);
+	});
+});
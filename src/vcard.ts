@@ -0,0 +1,165 @@
+import type { AtPhonebookEntry, AtPhonebookWriteEntry } from "./AtPhonebook.js";
+
+// Slot of the entry in the phonebook storage, so the backup is restored into the same slots
+const INDEX_PROPERTY = "X-PHONEBOOK-INDEX";
+
+type VCardProperty = {
+	name: string;
+	params: string[];
+	value: string;
+};
+
+/**
+ * Exports the phonebook entries as vCard 3.0, one card per entry.
+ * */
+export function exportVCard(entries: AtPhonebookEntry[]): string {
+	let result = "";
+	for (const entry of entries) {
+		const lines = [
+			"BEGIN:VCARD",
+			"VERSION:3.0",
+			`FN:${escapeValue(entry.text)}`,
+			`N:${escapeValue(entry.text)};;;;`,
+			`TEL;TYPE=CELL:${escapeValue(entry.number)}`,
+			`${INDEX_PROPERTY}:${entry.index}`,
+			"END:VCARD",
+		];
+		result += lines.map(foldLine).join("\r\n") + "\r\n";
+	}
+	return result;
+}
+
+/**
+ * Imports vCard 2.1/3.0/4.0 contacts, including the quoted-printable cards from old phones.
+ * Contacts with several numbers are split into several entries, because SIM entries have only one number.
+ * */
+export function importVCard(data: string): AtPhonebookWriteEntry[] {
+	const entries: AtPhonebookWriteEntry[] = [];
+	let card: VCardProperty[] | undefined;
+	for (const property of parseProperties(data)) {
+		if (property.name == "BEGIN" && property.value.toUpperCase() == "VCARD") {
+			card = [];
+		} else if (property.name == "END" && property.value.toUpperCase() == "VCARD") {
+			if (card)
+				entries.push(...cardToEntries(card));
+			card = undefined;
+		} else {
+			card?.push(property);
+		}
+	}
+	return entries;
+}
+
+function cardToEntries(card: VCardProperty[]): AtPhonebookWriteEntry[] {
+	const get = (name: string) => card.find((property) => property.name == name);
+	const fn = get("FN");
+	const n = get("N");
+	let text = fn ? decodeValue(fn) : "";
+	if (!text && n) {
+		// N: family;given;additional;prefix;suffix
+		const [family = "", given = ""] = splitValue(n.value).map((value) => decodeValue({ ...n, value }));
+		text = `${given} ${family}`.trim();
+	}
+
+	const indexProperty = get(INDEX_PROPERTY);
+	const index = indexProperty ? parseInt(indexProperty.value) : NaN;
+	const numbers = card
+		.filter((property) => property.name == "TEL")
+		.map((property) => decodeValue(property).replace(/^tel:/i, "").replace(/[\s\-().]/g, ""))
+		.filter((number) => number.length > 0);
+
+	return numbers.map((number, i) => ({
+		index: i == 0 && !isNaN(index) ? index : undefined,
+		number,
+		text,
+	}));
+}
+
+function parseProperties(data: string): VCardProperty[] {
+	// Unfolding: CRLF followed by a space or a tab
+	const lines = data.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+	const properties: VCardProperty[] = [];
+	for (let i = 0; i < lines.length; i++) {
+		let line = lines[i];
+		const colon = line.indexOf(":");
+		if (colon < 0)
+			continue;
+		const [name, ...params] = line.substring(0, colon).split(";");
+		const upperParams = params.map((param) => param.toUpperCase());
+		// Quoted-printable soft line breaks: "=" at the end of line
+		if (isQuotedPrintable(upperParams)) {
+			while (line.endsWith("=") && i + 1 < lines.length)
+				line = line.slice(0, -1) + lines[++i];
+		}
+		properties.push({
+			// Group prefix: item1.TEL
+			name: name.replace(/^.*\./, "").toUpperCase(),
+			params: upperParams,
+			value: line.substring(colon + 1),
+		});
+	}
+	return properties;
+}
+
+function isQuotedPrintable(params: string[]): boolean {
+	return params.includes("QUOTED-PRINTABLE") || params.includes("ENCODING=QUOTED-PRINTABLE");
+}
+
+function decodeValue(property: VCardProperty): string {
+	let value = property.value;
+	if (isQuotedPrintable(property.params)) {
+		const bytes: number[] = [];
+		for (let i = 0; i < value.length; i++) {
+			if (value[i] == "=" && /^[0-9A-F]{2}$/i.test(value.substring(i + 1, i + 3))) {
+				bytes.push(parseInt(value.substring(i + 1, i + 3), 16));
+				i += 2;
+			} else {
+				bytes.push(...Buffer.from(value[i]));
+			}
+		}
+		const charset = property.params.find((param) => param.startsWith("CHARSET="))?.substring("CHARSET=".length);
+		value = decodeCharset(Buffer.from(bytes), charset ?? "UTF-8");
+	}
+	return unescapeValue(value);
+}
+
+function decodeCharset(data: Buffer, charset: string): string {
+	try {
+		return new TextDecoder(charset).decode(data);
+	} catch {
+		return data.toString("utf-8");
+	}
+}
+
+// Splits the structured value by ";", which is not escaped
+function splitValue(value: string): string[] {
+	return value.split(/(?<!\\);/);
+}
+
+function escapeValue(value: string): string {
+	return value.replace(/[\\;,]/g, "\\$&").replace(/\r?\n/g, "\\n");
+}
+
+function unescapeValue(value: string): string {
+	return value.replace(/\\([\\;,nN])/g, (_, c: string) => c.toLowerCase() == "n" ? "\n" : c);
+}
+
+// Lines are folded at 75 octets without breaking UTF-8 characters
+function foldLine(line: string): string {
+	const parts: string[] = [];
+	let part = "";
+	let size = 0;
+	for (const c of line) {
+		const charSize = Buffer.byteLength(c);
+		// Continuation lines start with a space
+		if (size + charSize > (parts.length ? 74 : 75)) {
+			parts.push(part);
+			part = "";
+			size = 0;
+		}
+		part += c;
+		size += charSize;
+	}
+	parts.push(part);
+	return parts.join("\r\n ");
+}